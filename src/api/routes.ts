@@ -1,10 +1,46 @@
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
 import { OracleService } from '../services/oracleService';
+import { getRpcStatus } from '../services/providerPool';
+import { SnapshotFilter, getSnapshotLedger } from '../services/snapshotLedger';
+import { PendingSnapshot, getPendingSignatures, toPendingSnapshot } from '../services/pendingSignatures';
+import { getPoolValueHistory } from '../services/poolValueHistory';
+import { getReadiness } from '../services/readinessService';
+import { getAllChains } from '../config/chains';
+import { hasScope } from '../config/apiKeys';
 import { logger } from '../utils/logger';
+import { NotFoundError, OracleError, toErrorResponse } from '../utils/errors';
+import { METRICS_CONTENT_TYPE, registry } from '../utils/metrics';
+import { requireScope } from '../middleware/auth';
+import {
+  balanceSnapshotSchema,
+  poolValueHistorySchema,
+  poolValueSchema,
+  sendValidationErrors,
+  snapshotListSchema,
+  validateRequest,
+  withdrawSnapshotSchema,
+} from './schemas';
 
 const router = Router();
 const oracleService = new OracleService();
 
+// Answer with the error's status and code, or 500 for untyped errors
+function sendError(res: Response, error: unknown, summary: string): void {
+  const { status, body } = toErrorResponse(error, summary);
+  res.status(status).json(body);
+}
+
+// Signing keys only see the snapshots they requested; admin keys see every snapshot
+function canReadSnapshot(req: Request, requestedBy: string | null | undefined): boolean {
+  return !!req.apiKey && (hasScope(req.apiKey.scopes, 'admin') || requestedBy === req.apiKey.name);
+}
+
+// A snapshot whose NEAR transaction is still pending: 202, polled at its snapshot URL
+function sendPending(res: Response, snapshot: PendingSnapshot): void {
+  res.status(202).location(`/api/oracle/snapshots/${snapshot.snapshotId}`).json(snapshot);
+}
+
 // Health check
 router.get('/health', (req: Request, res: Response) => {
   res.json({ 
@@ -14,82 +50,218 @@ router.get('/health', (req: Request, res: Response) => {
   });
 });
 
-// POST /api/oracle/balance-snapshot - Generate signed balance snapshot for deposit
-router.post('/api/oracle/balance-snapshot', async (req: Request, res: Response) => {
+// GET /health/ready - Whether every dependency signing needs is reachable and consistent
+router.get('/health/ready', async (req: Request, res: Response) => {
   try {
-    const { assets, receiver, vaultChainId } = req.body;
-
-    // Validate required fields
-    if (!assets || !receiver || !vaultChainId) {
-      return res.status(400).json({
-        error: 'Missing required fields: assets, receiver, vaultChainId',
-      });
-    }
+    const report = await getReadiness();
+    res.status(report.ready ? 200 : 503).json(report);
+  } catch (error: any) {
+    logger.error('Readiness check error:', error);
+    sendError(res, error, 'Failed to check readiness');
+  }
+});
 
-    // Validate receiver address
-    if (!/^0x[a-fA-F0-9]{40}$/.test(receiver)) {
-      return res.status(400).json({
-        error: 'Invalid receiver address',
-      });
+// POST /api/oracle/balance-snapshot - Generate signed balance snapshot for deposit
+router.post('/api/oracle/balance-snapshot', requireScope('sign'), async (req: Request, res: Response) => {
+  try {
+    const body = validateRequest(req, res, 'body', balanceSnapshotSchema);
+    if (!body) {
+      return;
     }
+    const { assets, receiver, vaultChainId, validitySeconds } = body;
 
-    logger.info(`Balance snapshot request: assets=${assets}, receiver=${receiver}, chain=${vaultChainId}`);
+    logger.info(`Balance snapshot request from ${req.apiKey?.name}: assets=${assets}, receiver=${receiver}, chain=${vaultChainId}`);
 
     // Generate signed snapshot
     const snapshot = await oracleService.generateBalanceSnapshot(
       assets,
       receiver,
-      vaultChainId
+      vaultChainId,
+      req.apiKey?.name,
+      validitySeconds
     );
 
-    logger.info('Balance snapshot generated successfully');
+    if (!('signature' in snapshot)) {
+      logger.info(`Balance snapshot ${snapshot.snapshotId} pending on NEAR transaction ${snapshot.txHash}`);
+      return sendPending(res, snapshot);
+    }
+
+    logger.info(`Balance snapshot ${snapshot.snapshotId} ${snapshot.reused ? 'reused' : 'generated successfully'}`);
 
     res.json(snapshot);
   } catch (error: any) {
     logger.error('Balance snapshot error:', error);
-    res.status(500).json({
-      error: 'Failed to generate balance snapshot',
-      message: error.message,
-    });
+    sendError(res, error, 'Failed to generate balance snapshot');
+  }
+});
+
+// POST /api/oracle/withdraw-snapshot - Generate signed balance snapshot for withdraw/redeem
+router.post('/api/oracle/withdraw-snapshot', requireScope('sign'), async (req: Request, res: Response) => {
+  try {
+    const body = validateRequest(req, res, 'body', withdrawSnapshotSchema);
+    if (!body) {
+      return;
+    }
+    const { owner, shares, assets, vaultChainId, validitySeconds } = body;
+
+    logger.info(`Withdraw snapshot request from ${req.apiKey?.name}: shares=${shares ?? 0}, assets=${assets ?? 0}, owner=${owner}, chain=${vaultChainId}`);
+
+    const snapshot = await oracleService.generateWithdrawSnapshot(
+      owner,
+      shares ?? '0',
+      assets ?? '0',
+      vaultChainId,
+      req.apiKey?.name,
+      validitySeconds
+    );
+
+    if (!('signature' in snapshot)) {
+      logger.info(`Withdraw snapshot ${snapshot.snapshotId} pending on NEAR transaction ${snapshot.txHash}`);
+      return sendPending(res, snapshot);
+    }
+
+    logger.info(`Withdraw snapshot ${snapshot.snapshotId} ${snapshot.reused ? 'reused' : 'generated successfully'}`);
+
+    res.json(snapshot);
+  } catch (error: any) {
+    logger.error('Withdraw snapshot error:', error);
+    sendError(res, error, 'Failed to generate withdraw snapshot');
+  }
+});
+
+// GET /api/oracle/snapshots - List signed snapshots, newest first
+router.get('/api/oracle/snapshots', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const filter: SnapshotFilter | undefined = validateRequest(req, res, 'query', snapshotListSchema);
+    if (!filter) {
+      return;
+    }
+
+    const snapshots = getSnapshotLedger().list(filter);
+    res.json({ snapshots, count: snapshots.length });
+  } catch (error: any) {
+    logger.error('Snapshot list error:', error);
+    sendError(res, error, 'Failed to list snapshots');
+  }
+});
+
+// GET /api/oracle/snapshots/:id - Get one signed snapshot, or 202 while its signature is pending
+router.get('/api/oracle/snapshots/:id', requireScope('sign'), (req: Request, res: Response) => {
+  try {
+    // Another key's snapshot is reported as missing, so IDs cannot be probed
+    const notFound = new NotFoundError(`Snapshot ${req.params.id} not found`);
+
+    const snapshot = getSnapshotLedger().get(req.params.id);
+    if (snapshot) {
+      return canReadSnapshot(req, snapshot.requestedBy) ? res.json(snapshot) : sendError(res, notFound, 'Failed to get snapshot');
+    }
+
+    const pending = getPendingSignatures().get(req.params.id);
+    if (!pending || !canReadSnapshot(req, pending.snapshot.requestedBy)) {
+      return sendError(res, notFound, 'Failed to get snapshot');
+    }
+    if (pending.status === 'pending') {
+      return sendPending(res, toPendingSnapshot(pending));
+    }
+
+    // The signing transaction failed or was not answered before the snapshot deadline
+    const error = new OracleError(pending.error!.message, pending.error!.code, 502, true);
+    const { status, body } = toErrorResponse(error, 'Snapshot signing failed');
+    res.status(status).json({ ...body, snapshotId: pending.id, txHash: pending.submission.txHash });
+  } catch (error: any) {
+    logger.error('Snapshot lookup error:', error);
+    sendError(res, error, 'Failed to get snapshot');
   }
 });
 
 // GET /api/oracle/pool-value - Get total pool value (aTokens + USDC across all chains)
-router.get('/api/oracle/pool-value', async (req: Request, res: Response) => {
+router.get('/api/oracle/pool-value', requireScope('read'), async (req: Request, res: Response) => {
   try {
-    const vaultChainId = req.query.vaultChainId 
-      ? parseInt(req.query.vaultChainId as string) 
-      : undefined;
+    const query = validateRequest(req, res, 'query', poolValueSchema);
+    if (!query) {
+      return;
+    }
+    const { vaultChainId } = query;
 
     logger.info(`Pool value request${vaultChainId ? ` for chain ${vaultChainId}` : ''}`);
 
-    const poolValue = await oracleService.getPoolValue(vaultChainId);
+    const { value: poolValue, storedAt, expiresAt, hit } = await oracleService.getCachedPoolValue(vaultChainId);
 
-    logger.info('Pool value calculated successfully');
+    logger.info(`Pool value ${hit ? 'served from cache' : 'calculated successfully'}`);
 
-    res.json(poolValue);
+    // Express answers 304 when If-None-Match matches this ETag
+    const body = JSON.stringify(poolValue);
+    const now = Date.now();
+    res.set({
+      'ETag': `"${crypto.createHash('sha256').update(body).digest('hex').slice(0, 32)}"`,
+      'Cache-Control': `private, max-age=${Math.max(Math.floor((expiresAt - now) / 1000), 0)}`,
+      'Age': String(Math.floor((now - storedAt) / 1000)),
+      'X-Cache': hit ? 'HIT' : 'MISS',
+    });
+    res.type('json').send(body);
   } catch (error: any) {
     logger.error('Pool value error:', error);
-    res.status(500).json({
-      error: 'Failed to get pool value',
-      message: error.message,
-    });
+    sendError(res, error, 'Failed to get pool value');
   }
 });
 
-// GET /api/oracle/agent-address - Get agent's EVM address
-router.get('/api/oracle/agent-address', async (req: Request, res: Response) => {
+// GET /api/oracle/pool-value/history - Sampled pool values over a time range
+router.get('/api/oracle/pool-value/history', requireScope('read'), (req: Request, res: Response) => {
   try {
-    const address = await oracleService.getAgentAddress();
-    res.json({ agentAddress: address });
+    const query = validateRequest(req, res, 'query', poolValueHistorySchema);
+    if (!query) {
+      return;
+    }
+
+    // Default to the last 24 hours
+    const now = Math.floor(Date.now() / 1000);
+    const range = { ...query, from: query.from ?? now - 86400, to: query.to ?? now };
+    if (range.from > range.to) {
+      return sendValidationErrors(res, [{ field: 'from', location: 'query', message: 'must not be after to' }]);
+    }
+
+    const history = getPoolValueHistory().query(range);
+    res.json({ ...history, count: history.points.length });
+  } catch (error: any) {
+    logger.error('Pool value history error:', error);
+    sendError(res, error, 'Failed to get pool value history');
+  }
+});
+
+// GET /api/oracle/agent-address - Get the default agent's EVM address and each vault's agent, derivation and check
+router.get('/api/oracle/agent-address', requireScope('read'), async (req: Request, res: Response) => {
+  try {
+    const [address, derivation, vaults] = await Promise.all([
+      oracleService.getAgentAddress(),
+      oracleService.getAgentDerivation(),
+      oracleService.getVaultAgents(),
+    ]);
+    res.json({ agentAddress: address, derivation, vaults });
   } catch (error: any) {
     logger.error('Agent address error:', error);
-    res.status(500).json({
-      error: 'Failed to get agent address',
-      message: error.message,
+    sendError(res, error, 'Failed to get agent address');
+  }
+});
+
+// GET /api/oracle/rpc-status - Health of each chain's RPC endpoints
+router.get('/api/oracle/rpc-status', requireScope('admin'), (req: Request, res: Response) => {
+  try {
+    const chains = getRpcStatus(getAllChains());
+    res.json({
+      healthy: chains.every(chain => chain.healthy),
+      chains,
+      timestamp: new Date().toISOString(),
     });
+  } catch (error: any) {
+    logger.error('RPC status error:', error);
+    sendError(res, error, 'Failed to get RPC status');
   }
 });
 
+// GET /metrics - Prometheus metrics
+router.get('/metrics', requireScope('read'), (req: Request, res: Response) => {
+  res.type(METRICS_CONTENT_TYPE).send(registry.render());
+});
+
 export default router;
 
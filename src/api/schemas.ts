@@ -0,0 +1,253 @@
+import { Request, Response } from 'express';
+import { getChainById, getVaultValidity } from '../config/chains';
+import { parseResolution } from '../services/poolValueHistory';
+import { ValidationError, toErrorResponse } from '../utils/errors';
+
+/**
+ * Request schemas - Declarative validation of route bodies and query strings
+ *
+ * Each route declares its fields; validateRequest parses them, answers 400 with one error per
+ * bad field, and returns the parsed values. Unknown fields are rejected. Query values arrive as
+ * strings, so integers there are parsed; in JSON bodies they must be numbers.
+ */
+
+interface BaseSpec {
+  required?: boolean;
+  // Extra check on a well-formed value, given the fields parsed before it
+  refine?: (value: any, values: Record<string, unknown>) => string | undefined;
+}
+
+export type FieldSpec = BaseSpec & (
+  | { type: 'uint256' }    // Decimal string
+  | { type: 'address' }    // 0x-prefixed, 20 bytes
+  | { type: 'string'; maxLength?: number }
+  | { type: 'integer'; min?: number; max?: number }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'resolution' } // Seconds or a duration like 5m, parsed to seconds
+);
+
+export interface FieldError {
+  field: string;
+  location: 'body' | 'query';
+  message: string;
+}
+
+type FieldValue<S> = S extends { type: 'integer' | 'resolution' }
+  ? number
+  : S extends { type: 'enum'; values: readonly (infer V)[] } ? V : string;
+
+export type SchemaValues<F extends Record<string, FieldSpec>> =
+  { [K in keyof F as F[K] extends { required: true } ? K : never]: FieldValue<F[K]> } &
+  { [K in keyof F as F[K] extends { required: true } ? never : K]?: FieldValue<F[K]> };
+
+export interface Schema<F extends Record<string, FieldSpec>> {
+  fields: F;
+  // Checks across fields, run once every field is valid
+  check?: (values: SchemaValues<F>) => Omit<FieldError, 'location'>[];
+}
+
+const UINT256_MAX = 2n ** 256n - 1n;
+const UINT256_REGEX = /^(0|[1-9][0-9]*)$/;
+const INTEGER_REGEX = /^-?(0|[1-9][0-9]*)$/;
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+
+export function defineSchema<F extends Record<string, FieldSpec>>(schema: Schema<F>): Schema<F> {
+  return schema;
+}
+
+// Parse one field, returning its value or an error message
+function parseField(spec: FieldSpec, raw: unknown, location: 'body' | 'query'): { value?: unknown; error?: string } {
+  switch (spec.type) {
+    case 'uint256':
+      if (typeof raw !== 'string' || !UINT256_REGEX.test(raw) || BigInt(raw) > UINT256_MAX) {
+        return { error: 'must be a uint256 decimal string' };
+      }
+      return { value: raw };
+
+    case 'address':
+      if (typeof raw !== 'string' || !ADDRESS_REGEX.test(raw)) {
+        return { error: 'must be a 0x-prefixed address' };
+      }
+      return { value: raw };
+
+    case 'string':
+      if (typeof raw !== 'string' || !raw) {
+        return { error: 'must be a non-empty string' };
+      }
+      if (spec.maxLength !== undefined && raw.length > spec.maxLength) {
+        return { error: `must be at most ${spec.maxLength} characters` };
+      }
+      return { value: raw };
+
+    case 'integer': {
+      const value = location === 'query' && typeof raw === 'string' && INTEGER_REGEX.test(raw) ? Number(raw) : raw;
+      if (typeof value !== 'number' || !Number.isSafeInteger(value)) {
+        return { error: 'must be an integer' };
+      }
+      if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+        return {
+          error: spec.max === undefined
+            ? `must be at least ${spec.min}`
+            : spec.min === undefined ? `must be at most ${spec.max}` : `must be between ${spec.min} and ${spec.max}`,
+        };
+      }
+      return { value };
+    }
+
+    case 'enum':
+      if (typeof raw !== 'string' || !spec.values.includes(raw)) {
+        return { error: `must be one of ${spec.values.join(', ')}` };
+      }
+      return { value: raw };
+
+    case 'resolution': {
+      const value = typeof raw === 'string' ? parseResolution(raw) : null;
+      if (value === null) {
+        return { error: 'must be seconds or a duration like 5m, 1h, 1d' };
+      }
+      return { value };
+    }
+  }
+}
+
+/**
+ * Validate input against a schema
+ */
+export function validate<F extends Record<string, FieldSpec>>(
+  schema: Schema<F>,
+  input: unknown,
+  location: 'body' | 'query'
+): { values: SchemaValues<F>; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const values: Record<string, unknown> = {};
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { values: values as SchemaValues<F>, errors: [{ field: '', location, message: 'must be a JSON object' }] };
+  }
+  const fields = input as Record<string, unknown>;
+
+  for (const field of Object.keys(fields)) {
+    if (!(field in schema.fields)) {
+      errors.push({ field, location, message: 'is not a known field' });
+    }
+  }
+
+  for (const [field, spec] of Object.entries(schema.fields)) {
+    const raw = fields[field];
+    if (raw === undefined || raw === null || raw === '') {
+      if (spec.required) {
+        errors.push({ field, location, message: 'is required' });
+      }
+      continue;
+    }
+
+    const { value, error } = parseField(spec, raw, location);
+    const refined = error ?? spec.refine?.(value, values);
+    if (refined) {
+      errors.push({ field, location, message: refined });
+      continue;
+    }
+    values[field] = value;
+  }
+
+  if (errors.length === 0 && schema.check) {
+    errors.push(...schema.check(values as SchemaValues<F>).map(error => ({ ...error, location })));
+  }
+
+  return { values: values as SchemaValues<F>, errors };
+}
+
+// Answer 400 with field-level errors
+export function sendValidationErrors(res: Response, errors: FieldError[]): void {
+  const message = errors.map(error => `${error.location}${error.field ? `.${error.field}` : ''} ${error.message}`).join('; ');
+  const { status, body } = toErrorResponse(new ValidationError(message, errors), 'Invalid request');
+  res.status(status).json(body);
+}
+
+/**
+ * Validate a request's body or query, answering 400 and returning undefined when invalid
+ */
+export function validateRequest<F extends Record<string, FieldSpec>>(
+  req: Request,
+  res: Response,
+  location: 'body' | 'query',
+  schema: Schema<F>
+): SchemaValues<F> | undefined {
+  const { values, errors } = validate(schema, location === 'body' ? req.body ?? {} : req.query, location);
+  if (errors.length > 0) {
+    sendValidationErrors(res, errors);
+    return undefined;
+  }
+  return values;
+}
+
+// vaultChainId must name a chain with a configured vault
+function configuredVault(chainId: number): string | undefined {
+  return getChainById(chainId)?.vault ? undefined : `no vault is configured on chain ${chainId}`;
+}
+
+// validitySeconds must be within the vault's bounds
+function vaultValidity(seconds: number, values: Record<string, unknown>): string | undefined {
+  const vault = getChainById(values.vaultChainId as number)?.vault;
+  if (!vault) {
+    return undefined;
+  }
+  const { minSeconds, maxSeconds } = getVaultValidity(vault);
+  return seconds < minSeconds || seconds > maxSeconds
+    ? `must be between ${minSeconds} and ${maxSeconds} for the vault on chain ${values.vaultChainId}`
+    : undefined;
+}
+
+// Field order matters: validitySeconds is checked against the vault named by vaultChainId
+export const balanceSnapshotSchema = defineSchema({
+  fields: {
+    assets: { type: 'uint256', required: true },
+    receiver: { type: 'address', required: true },
+    vaultChainId: { type: 'integer', required: true, min: 1, refine: configuredVault },
+    validitySeconds: { type: 'integer', min: 1, refine: vaultValidity },
+  },
+});
+
+// Redeems sign shares and withdrawals sign assets; the other defaults to 0
+export const withdrawSnapshotSchema = defineSchema({
+  fields: {
+    owner: { type: 'address', required: true },
+    shares: { type: 'uint256' },
+    assets: { type: 'uint256' },
+    vaultChainId: { type: 'integer', required: true, min: 1, refine: configuredVault },
+    validitySeconds: { type: 'integer', min: 1, refine: vaultValidity },
+  },
+  check: ({ shares, assets }) => (BigInt(shares ?? 0) === 0n && BigInt(assets ?? 0) === 0n)
+    ? [{ field: 'shares', message: 'shares or assets must be greater than 0' }]
+    : [],
+});
+
+export const snapshotListSchema = defineSchema({
+  fields: {
+    kind: { type: 'enum', values: ['deposit', 'withdraw'] as const },
+    vaultAddress: { type: 'address' },
+    chainId: { type: 'integer', min: 1 },
+    receiver: { type: 'address' },
+    owner: { type: 'address' },
+    nonce: { type: 'uint256' },
+    requestedBy: { type: 'string', maxLength: 100 },
+    from: { type: 'integer', min: 0 },
+    to: { type: 'integer', min: 0 },
+    limit: { type: 'integer', min: 1, max: 500 },
+  },
+});
+
+export const poolValueSchema = defineSchema({
+  fields: {
+    vaultChainId: { type: 'integer', min: 1 },
+  },
+});
+
+export const poolValueHistorySchema = defineSchema({
+  fields: {
+    from: { type: 'integer', min: 0 },
+    to: { type: 'integer', min: 0 },
+    resolution: { type: 'resolution' },
+    maxPoints: { type: 'integer', min: 1, max: 5000 },
+  },
+});
@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { ConfigError } from '../utils/errors';
+
+/**
+ * API keys - Named keys with scopes, stored as hashes in a JSON file
+ *
+ * API_KEYS_PATH selects the file (default config/api-keys.json). Each key is stored as the hex
+ * SHA-256 of its token. A name can have several keys with their own expiry, so a replacement
+ * can be handed out before the old key expires. Without a key file, the legacy API_KEY is
+ * accepted as a single "default" key with the admin scope.
+ */
+
+// read: pool values and agent address; sign: request and look up signatures; admin: everything
+export type ApiKeyScope = 'read' | 'sign' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'sign', 'admin'];
+
+// Key entry as written in the key file
+interface ApiKeyEntry {
+  name: string;
+  sha256: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string; // ISO 8601
+}
+
+export interface ApiKey {
+  name: string;
+  hash: Buffer;
+  scopes: ApiKeyScope[];
+  expiresAt: number | null; // Unix seconds
+}
+
+export interface ApiKeyRegistry {
+  path: string | null; // Null when the keys come from API_KEY
+  keys: ApiKey[];
+  loadedAt: number;
+}
+
+const DEFAULT_KEYS_PATH = 'config/api-keys.json';
+const LEGACY_KEY_NAME = 'default';
+const EXPIRY_WARNING_SECONDS = 7 * 24 * 3600;
+
+const SHA256_REGEX = /^[a-f0-9]{64}$/;
+
+let registry: ApiKeyRegistry | null = null;
+
+// Get the key file path from environment
+export function getApiKeysPath(): string {
+  return path.resolve(process.env.API_KEYS_PATH || DEFAULT_KEYS_PATH);
+}
+
+// Hash an API key token the way it is stored in the key file
+export function hashApiKey(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Validate a key file, returning a list of problems
+ */
+export function validateApiKeysFile(file: any): string[] {
+  const errors: string[] = [];
+
+  if (!file || typeof file !== 'object' || !Array.isArray(file.keys) || file.keys.length === 0) {
+    return ['key file must contain a non-empty "keys" array'];
+  }
+
+  const seenHashes = new Set<string>();
+
+  file.keys.forEach((key: any, index: number) => {
+    const where = `keys[${index}]${key?.name ? ` (${key.name})` : ''}`;
+
+    if (typeof key?.name !== 'string' || !key.name) {
+      errors.push(`${where}: "name" must be a non-empty string`);
+    }
+
+    if (typeof key?.sha256 !== 'string' || !SHA256_REGEX.test(key.sha256.toLowerCase())) {
+      errors.push(`${where}: "sha256" must be a hex SHA-256 digest`);
+    } else if (seenHashes.has(key.sha256.toLowerCase())) {
+      errors.push(`${where}: duplicate "sha256"`);
+    } else {
+      seenHashes.add(key.sha256.toLowerCase());
+    }
+
+    const validScopes = Array.isArray(key?.scopes) && key.scopes.length > 0
+      && key.scopes.every((scope: any) => API_KEY_SCOPES.includes(scope));
+    if (!validScopes) {
+      errors.push(`${where}: "scopes" must be a non-empty array of ${API_KEY_SCOPES.join(', ')}`);
+    }
+
+    if (key?.expiresAt !== undefined && (typeof key.expiresAt !== 'string' || Number.isNaN(Date.parse(key.expiresAt)))) {
+      errors.push(`${where}: "expiresAt" must be an ISO 8601 date`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Load and validate the API keys, falling back to API_KEY when there is no key file
+ */
+export function loadApiKeys(filePath: string = getApiKeysPath()): ApiKeyRegistry {
+  const loadedAt = Math.floor(Date.now() / 1000);
+
+  // An explicitly configured key file must exist; the default one is optional
+  if (!fs.existsSync(filePath) && !process.env.API_KEYS_PATH) {
+    if (!process.env.API_KEY) {
+      throw new ConfigError(`No API keys configured: create ${filePath} or set API_KEY`);
+    }
+    return {
+      path: null,
+      keys: [{ name: LEGACY_KEY_NAME, hash: Buffer.from(hashApiKey(process.env.API_KEY), 'hex'), scopes: ['admin'], expiresAt: null }],
+      loadedAt,
+    };
+  }
+
+  let file: any;
+  try {
+    file = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new ConfigError(`Failed to read API keys ${filePath}: ${error}`, error);
+  }
+
+  const errors = validateApiKeysFile(file);
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid API keys ${filePath}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  const keys = (file.keys as ApiKeyEntry[]).map((entry): ApiKey => ({
+    name: entry.name,
+    hash: Buffer.from(entry.sha256.toLowerCase(), 'hex'),
+    scopes: entry.scopes,
+    expiresAt: entry.expiresAt !== undefined ? Math.floor(Date.parse(entry.expiresAt) / 1000) : null,
+  }));
+
+  return { path: filePath, keys, loadedAt };
+}
+
+// Get the active keys, loading them on first use
+export function getApiKeyRegistry(): ApiKeyRegistry {
+  if (!registry) {
+    registry = loadApiKeys();
+  }
+  return registry;
+}
+
+/**
+ * Reload the keys from disk
+ * The active keys are only replaced if the new ones are valid
+ */
+export function reloadApiKeys(): ApiKeyRegistry {
+  const next = loadApiKeys();
+  registry = next;
+  return next;
+}
+
+// Log the active keys (names and scopes only)
+export function logApiKeys(): void {
+  const { path: filePath, keys } = getApiKeyRegistry();
+  const now = Math.floor(Date.now() / 1000);
+
+  if (!filePath) {
+    logger.warn('API keys: using API_KEY as the single admin key, configure API_KEYS_PATH for named keys');
+    return;
+  }
+
+  logger.info(`API keys: ${filePath}`);
+  for (const key of keys) {
+    const expiry = key.expiresAt === null ? 'no expiry' : `expires ${new Date(key.expiresAt * 1000).toISOString()}`;
+    logger.info(`   ${key.name} [${key.scopes.join(', ')}] ${expiry}`);
+    if (key.expiresAt !== null && key.expiresAt <= now) {
+      logger.warn(`   API key ${key.name} has expired`);
+    } else if (key.expiresAt !== null && key.expiresAt - now < EXPIRY_WARNING_SECONDS) {
+      logger.warn(`   API key ${key.name} expires in less than 7 days`);
+    }
+  }
+}
+
+/**
+ * Find the key matching a token, expired or not
+ *
+ * Compares against every key in constant time so timing does not reveal which key matched.
+ */
+export function findApiKey(token: string, keys: ApiKey[] = getApiKeyRegistry().keys): ApiKey | undefined {
+  const hash = Buffer.from(hashApiKey(token), 'hex');
+  let match: ApiKey | undefined;
+  for (const key of keys) {
+    if (crypto.timingSafeEqual(hash, key.hash) && !match) {
+      match = key;
+    }
+  }
+  return match;
+}
+
+// Check whether a key has expired
+export function isApiKeyExpired(key: ApiKey, now: number = Math.floor(Date.now() / 1000)): boolean {
+  return key.expiresAt !== null && key.expiresAt <= now;
+}
+
+// Check whether scopes grant a scope (admin grants all)
+export function hasScope(scopes: ApiKeyScope[], scope: ApiKeyScope): boolean {
+  return scopes.includes(scope) || scopes.includes('admin');
+}
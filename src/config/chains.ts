@@ -1,56 +1,427 @@
-import { ChainConfig } from '../types';
-
-export const SUPPORTED_CHAINS: Record<string, ChainConfig> = {
-  ethereumSepolia: {
-    chainId: 11155111,
-    name: 'Ethereum Sepolia',
-    rpcUrl: process.env.ETHEREUM_SEPOLIA_RPC || 'https://ethereum-sepolia-rpc.publicnode.com',
-    aavePoolAddress: '0x6Ae43d3271ff6888e7Fc43Fd7321a503ff738951',
-    usdcAddress: '0xaA8E23Fb1079EA71e0a56F48a2aA51851D8433D0', // USDT on Sepolia (USDC not available)
-  },
-  baseSepolia: {
-    chainId: 84532,
-    name: 'Base Sepolia',
-    rpcUrl: process.env.BASE_SEPOLIA_RPC || 'https://sepolia.base.org',
-    aavePoolAddress: '0x6a9d64f93db660eacb2b6e9424792c630cda87d8',
-    usdcAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Circle's official USDC on Base Sepolia testnet
-    vaultAddress: process.env.BASE_VAULT_ADDRESS || '0x773035EABdA16B5416B26E12156483C6B6F56451', // AaveVault (CORRECT AI_AGENT)
-  },
-  arbitrumSepolia: {
-    chainId: 421614,
-    name: 'Arbitrum Sepolia',
-    rpcUrl: process.env.ARBITRUM_SEPOLIA_RPC || 'https://sepolia-rollup.arbitrum.io/rpc',
-    aavePoolAddress: '0xBfC91D59fdAA134A4ED45f7B584cAf96D7792Eff',
-    usdcAddress: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
-    vaultAddress: process.env.ARBITRUM_VAULT_ADDRESS || '0xE168d95f8d1B8EC167A63c8E696076EC8EE95337', // Vault with agent 0x20f2747bbc52453ac0774b5b2fe0e28dc6637f30
-  },
-  optimismSepolia: {
-    chainId: 11155420,
-    name: 'Optimism Sepolia',
-    rpcUrl: process.env.OPTIMISM_SEPOLIA_RPC || 'https://sepolia.optimism.io',
-    aavePoolAddress: '0xb50201558B00496A145fE76f7424749556E326D8',
-    usdcAddress: '0x5fd84259d66Cd46123540766Be93DFE6D43130D7',
-  },
-};
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { ethers } from 'ethers';
+import { AgentKey, AssetConfig, ChainConfig, FinalityPolicy, SnapshotValidity, VaultConfig } from '../types';
+import { logger } from '../utils/logger';
+import { ConfigError } from '../utils/errors';
+
+/**
+ * Chain registry - Chains, Aave pools and vaults loaded from a JSON/YAML file
+ *
+ * CHAIN_REGISTRY_PATH selects the file (default config/chains.json)
+ * CHAIN_PROFILE selects the profile inside it (default testnet)
+ */
+
+// Chain entry as written in the registry file
+interface ChainRegistryEntry {
+  key: string;
+  chainId: number;
+  name: string;
+  rpcUrl?: string;
+  rpcUrlEnv?: string;
+  fallbackRpcUrls?: string[];
+  finality?: FinalityPolicy;
+  critical?: boolean;
+  multicall3Address?: string;
+  aavePoolAddress: string;
+  assets: AssetConfig[];
+  vault?: Omit<VaultConfig, 'validity'> & { addressEnv?: string; validity?: Partial<SnapshotValidity> };
+}
+
+interface ChainRegistryFile {
+  profiles: Record<string, { primaryAsset?: string; chains: ChainRegistryEntry[] }>;
+}
+
+export interface ChainRegistry {
+  path: string;
+  profile: string;
+  primaryAsset: string;
+  chains: ChainConfig[];
+  requiredEnv: string[];
+  loadedAt: number;
+}
+
+const DEFAULT_REGISTRY_PATH = 'config/chains.json';
+const DEFAULT_PROFILE = 'testnet';
+const DEFAULT_PRIMARY_ASSET = 'USDC';
+const DEFAULT_FINALITY: FinalityPolicy = 'latest';
+const FINALITY_TAGS = ['latest', 'safe', 'finalized'];
+const DEFAULT_VALIDITY: SnapshotValidity = { minSeconds: 60, maxSeconds: 3600, defaultSeconds: 300 };
+
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+const ENV_NAME_REGEX = /^[A-Z][A-Z0-9_]*$/;
+const RPC_URL_REGEX = /^https?:\/\//;
+
+let registry: ChainRegistry | null = null;
+
+// An http(s) URL the providers can connect to (they send JSON-RPC over HTTP only)
+function isRpcUrl(url: unknown): boolean {
+  if (typeof url !== 'string' || !RPC_URL_REGEX.test(url)) {
+    return false;
+  }
+  try {
+    return Boolean(new URL(url).host);
+  } catch {
+    return false;
+  }
+}
+
+// Host of an RPC URL for logs, without paths that may carry API keys
+function getRpcHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid URL';
+  }
+}
+
+// Get the registry file path from environment
+export function getRegistryPath(): string {
+  return path.resolve(process.env.CHAIN_REGISTRY_PATH || DEFAULT_REGISTRY_PATH);
+}
+
+// Get the registry profile from environment
+export function getRegistryProfile(): string {
+  return process.env.CHAIN_PROFILE || DEFAULT_PROFILE;
+}
+
+function parseRegistryFile(filePath: string): unknown {
+  const contents = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? YAML.parse(contents) : JSON.parse(contents);
+}
+
+/**
+ * Validate one profile of a registry file, returning a list of problems
+ */
+export function validateRegistryProfile(file: any, profile: string): string[] {
+  const errors: string[] = [];
+
+  if (!file || typeof file !== 'object' || !file.profiles || typeof file.profiles !== 'object') {
+    return ['registry must contain a "profiles" object'];
+  }
+
+  const profileConfig = file.profiles[profile];
+  if (!profileConfig) {
+    return [`profile "${profile}" not found (available: ${Object.keys(file.profiles).join(', ')})`];
+  }
+
+  if (!Array.isArray(profileConfig.chains) || profileConfig.chains.length === 0) {
+    return [`profile "${profile}" must define a non-empty "chains" array`];
+  }
+
+  if (profileConfig.primaryAsset !== undefined && (typeof profileConfig.primaryAsset !== 'string' || !profileConfig.primaryAsset)) {
+    errors.push('"primaryAsset" must be a non-empty string');
+  }
+
+  const seenKeys = new Set<string>();
+  const seenChainIds = new Set<number>();
+
+  profileConfig.chains.forEach((chain: any, index: number) => {
+    const where = `chains[${index}]${chain?.key ? ` (${chain.key})` : ''}`;
+
+    if (typeof chain?.key !== 'string' || !chain.key) {
+      errors.push(`${where}: "key" must be a non-empty string`);
+    } else if (seenKeys.has(chain.key)) {
+      errors.push(`${where}: duplicate key "${chain.key}"`);
+    } else {
+      seenKeys.add(chain.key);
+    }
+
+    if (!Number.isInteger(chain?.chainId) || chain.chainId <= 0) {
+      errors.push(`${where}: "chainId" must be a positive integer`);
+    } else if (seenChainIds.has(chain.chainId)) {
+      errors.push(`${where}: duplicate chainId ${chain.chainId}`);
+    } else {
+      seenChainIds.add(chain.chainId);
+    }
+
+    if (typeof chain?.name !== 'string' || !chain.name) {
+      errors.push(`${where}: "name" must be a non-empty string`);
+    }
+
+    if (!chain?.rpcUrl && !chain?.rpcUrlEnv) {
+      errors.push(`${where}: one of "rpcUrl" or "rpcUrlEnv" is required`);
+    }
+    if (chain?.rpcUrl !== undefined && !isRpcUrl(chain.rpcUrl)) {
+      errors.push(`${where}: "rpcUrl" must be an http(s) URL`);
+    }
+
+    if (chain?.rpcUrlEnv !== undefined && !ENV_NAME_REGEX.test(chain.rpcUrlEnv)) {
+      errors.push(`${where}: "rpcUrlEnv" must be an environment variable name`);
+    }
+
+    if (chain?.fallbackRpcUrls !== undefined) {
+      const valid = Array.isArray(chain.fallbackRpcUrls)
+        && chain.fallbackRpcUrls.every(isRpcUrl);
+      if (!valid) {
+        errors.push(`${where}: "fallbackRpcUrls" must be an array of http(s) URLs`);
+      }
+    }
+
+    if (chain?.finality !== undefined) {
+      const { finality } = chain;
+      const validTag = typeof finality === 'string' && FINALITY_TAGS.includes(finality);
+      const validConfirmations = typeof finality === 'object' && finality !== null
+        && Number.isInteger(finality.confirmations) && finality.confirmations >= 0;
+      if (!validTag && !validConfirmations) {
+        errors.push(`${where}: "finality" must be one of ${FINALITY_TAGS.join(', ')} or { "confirmations": N }`);
+      }
+    }
+
+    if (chain?.critical !== undefined && typeof chain.critical !== 'boolean') {
+      errors.push(`${where}: "critical" must be a boolean`);
+    }
+
+    if (!ADDRESS_REGEX.test(chain?.aavePoolAddress ?? '')) {
+      errors.push(`${where}: "aavePoolAddress" must be a 0x-prefixed address`);
+    }
+    if (chain?.multicall3Address !== undefined && !ADDRESS_REGEX.test(chain.multicall3Address)) {
+      errors.push(`${where}: "multicall3Address" must be a 0x-prefixed address`);
+    }
+
+    const symbols = new Set<string>();
+    if (!Array.isArray(chain?.assets) || chain.assets.length === 0) {
+      errors.push(`${where}: "assets" must be a non-empty array`);
+    } else {
+      chain.assets.forEach((asset: any, assetIndex: number) => {
+        const assetWhere = `${where}.assets[${assetIndex}]`;
+
+        if (typeof asset?.symbol !== 'string' || !asset.symbol) {
+          errors.push(`${assetWhere}: "symbol" must be a non-empty string`);
+        } else if (symbols.has(asset.symbol)) {
+          errors.push(`${assetWhere}: duplicate symbol "${asset.symbol}"`);
+        } else {
+          symbols.add(asset.symbol);
+        }
+
+        if (!ADDRESS_REGEX.test(asset?.address ?? '')) {
+          errors.push(`${assetWhere}: "address" must be a 0x-prefixed address`);
+        }
+        if (asset?.aTokenAddress !== undefined && !ADDRESS_REGEX.test(asset.aTokenAddress)) {
+          errors.push(`${assetWhere}: "aTokenAddress" must be a 0x-prefixed address`);
+        }
+        if (asset?.decimals !== undefined && (!Number.isInteger(asset.decimals) || asset.decimals < 0 || asset.decimals > 36)) {
+          errors.push(`${assetWhere}: "decimals" must be an integer between 0 and 36`);
+        }
+      });
+    }
+
+    if (chain?.vault !== undefined) {
+      const vault = chain.vault;
+      if (!ADDRESS_REGEX.test(vault?.address ?? '')) {
+        errors.push(`${where}.vault: "address" must be a 0x-prefixed address`);
+      }
+      if (vault?.addressEnv !== undefined && !ENV_NAME_REGEX.test(vault.addressEnv)) {
+        errors.push(`${where}.vault: "addressEnv" must be an environment variable name`);
+      }
+      if (!symbols.has(vault?.asset)) {
+        errors.push(`${where}.vault: "asset" must be one of the chain's asset symbols`);
+      }
+      if (vault?.domain !== undefined
+        && (typeof vault.domain?.name !== 'string' || !vault.domain.name || typeof vault.domain.version !== 'string' || !vault.domain.version)) {
+        errors.push(`${where}.vault: "domain" must have a non-empty "name" and "version"`);
+      }
+      if (vault?.validity !== undefined) {
+        const fields = ['minSeconds', 'maxSeconds', 'defaultSeconds'] as const;
+        const bad = fields.filter(field => vault.validity?.[field] !== undefined
+          && (!Number.isInteger(vault.validity[field]) || vault.validity[field] <= 0));
+        if (typeof vault.validity !== 'object' || vault.validity === null || bad.length > 0) {
+          errors.push(`${where}.vault: "validity" fields must be positive integers (seconds)`);
+        } else {
+          const { minSeconds, maxSeconds, defaultSeconds } = { ...DEFAULT_VALIDITY, ...vault.validity };
+          if (minSeconds > defaultSeconds || defaultSeconds > maxSeconds) {
+            errors.push(`${where}.vault: "validity" must satisfy minSeconds <= defaultSeconds <= maxSeconds`);
+          }
+        }
+      }
+      if (vault?.mpcPath !== undefined && (typeof vault.mpcPath !== 'string' || !vault.mpcPath)) {
+        errors.push(`${where}.vault: "mpcPath" must be a non-empty string`);
+      }
+      if (vault?.keyVersion !== undefined && (!Number.isInteger(vault.keyVersion) || vault.keyVersion < 0)) {
+        errors.push(`${where}.vault: "keyVersion" must be a non-negative integer`);
+      }
+    }
+  });
+
+  // Required chains can reference any chain in the profile, so check them once all keys are known
+  profileConfig.chains.forEach((chain: any, index: number) => {
+    const requiredChains = chain?.vault?.requiredChains;
+    if (requiredChains === undefined) {
+      return;
+    }
+    const where = `chains[${index}]${chain?.key ? ` (${chain.key})` : ''}.vault`;
+    if (!Array.isArray(requiredChains)) {
+      errors.push(`${where}: "requiredChains" must be an array of chain keys`);
+      return;
+    }
+    for (const key of requiredChains) {
+      if (!seenKeys.has(key)) {
+        errors.push(`${where}: "requiredChains" references unknown chain "${key}"`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Load and validate a chain registry, resolving RPC and vault overrides from the environment
+ */
+export function loadChainRegistry(
+  filePath: string = getRegistryPath(),
+  profile: string = getRegistryProfile()
+): ChainRegistry {
+  let file: any;
+  try {
+    file = parseRegistryFile(filePath);
+  } catch (error) {
+    throw new ConfigError(`Failed to read chain registry ${filePath}: ${error}`, error);
+  }
+
+  const errors = validateRegistryProfile(file, profile);
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid chain registry ${filePath}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  const { chains: entries, primaryAsset } = (file as ChainRegistryFile).profiles[profile];
+  const requiredEnv: string[] = [];
+
+  const chains = entries.map((entry, index): ChainConfig => {
+    const where = `chains[${index}] (${entry.key})`;
+
+    // An RPC env var without a default URL must be set
+    if (entry.rpcUrlEnv && !entry.rpcUrl) {
+      requiredEnv.push(entry.rpcUrlEnv);
+    }
+
+    // The env var may hold a comma-separated list of URLs, tried in order before the fallbacks
+    const envUrls = entry.rpcUrlEnv && process.env[entry.rpcUrlEnv];
+    const primaryUrls = (envUrls || entry.rpcUrl || '')
+      .split(',')
+      .map(url => url.trim())
+      .filter(Boolean);
+    if (envUrls && !primaryUrls.every(isRpcUrl)) {
+      errors.push(`${where}: ${entry.rpcUrlEnv} must hold comma-separated http(s) URLs`);
+    }
+    const rpcUrls = Array.from(new Set([...primaryUrls, ...(entry.fallbackRpcUrls || [])]));
+
+    let vault: VaultConfig | undefined;
+    if (entry.vault) {
+      const { addressEnv, validity, ...vaultConfig } = entry.vault;
+      const envAddress = addressEnv && process.env[addressEnv];
+      if (envAddress && !(ADDRESS_REGEX.test(envAddress) && ethers.isAddress(envAddress))) {
+        errors.push(`${where}.vault: ${addressEnv} must hold a 0x-prefixed address with a valid checksum`);
+      }
+      vault = {
+        ...vaultConfig,
+        address: envAddress || vaultConfig.address,
+        validity: { ...DEFAULT_VALIDITY, ...validity },
+      };
+    }
+
+    return {
+      key: entry.key,
+      chainId: entry.chainId,
+      name: entry.name,
+      rpcUrl: rpcUrls[0] || '',
+      rpcUrls,
+      finality: entry.finality ?? DEFAULT_FINALITY,
+      critical: entry.critical ?? Boolean(entry.vault),
+      multicall3Address: entry.multicall3Address,
+      aavePoolAddress: entry.aavePoolAddress,
+      assets: entry.assets,
+      vault,
+    };
+  });
+
+  // Overrides from the environment are checked like the file itself
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid chain registry ${filePath}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return {
+    path: filePath,
+    profile,
+    primaryAsset: primaryAsset || DEFAULT_PRIMARY_ASSET,
+    chains,
+    requiredEnv,
+    loadedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+// Get the active registry, loading it on first use
+export function getChainRegistry(): ChainRegistry {
+  if (!registry) {
+    registry = loadChainRegistry();
+  }
+  return registry;
+}
+
+/**
+ * Reload the registry from disk
+ * The active registry is only replaced if the new one is valid
+ */
+export function reloadChainRegistry(): ChainRegistry {
+  const next = loadChainRegistry();
+  registry = next;
+  return next;
+}
+
+// Log the active registry
+export function logChainRegistry(): void {
+  const { path: filePath, profile, primaryAsset, chains } = getChainRegistry();
+
+  logger.info(`Chain registry: ${filePath} (profile: ${profile}, primary asset: ${primaryAsset})`);
+  for (const chain of chains) {
+    logger.info(`   ${chain.name} (${chain.chainId})${chain.vault ? ` vault ${chain.vault.address} [${chain.vault.asset}]` : ''}`);
+    if (chain.vault?.mpcPath !== undefined || chain.vault?.keyVersion !== undefined) {
+      logger.info(`      Agent key: path ${chain.vault.mpcPath ?? 'default'}, key version ${chain.vault.keyVersion ?? 0}`);
+    }
+    logger.info(`      Assets: ${chain.assets.map(asset => asset.symbol).join(', ')}`);
+    logger.info(`      Finality: ${typeof chain.finality === 'string' ? chain.finality : `${chain.finality.confirmations} confirmations`}`);
+    logger.info(`      RPC: ${chain.rpcUrls.length > 0 ? chain.rpcUrls.map(getRpcHost).join(', ') : 'not set'}`);
+  }
+}
 
 // Get all chains as an array
 export function getAllChains(): ChainConfig[] {
-  return Object.values(SUPPORTED_CHAINS);
+  return getChainRegistry().chains;
 }
 
 // Get chain by ID
 export function getChainById(chainId: number): ChainConfig | undefined {
-  return Object.values(SUPPORTED_CHAINS).find(chain => chain.chainId === chainId);
+  return getAllChains().find(chain => chain.chainId === chainId);
+}
+
+// Get the asset totals are reported in at the top level of pool value responses
+export function getPrimaryAsset(): string {
+  return getChainRegistry().primaryAsset;
+}
+
+// Get an asset of a chain by symbol
+export function getChainAsset(chain: ChainConfig, symbol: string): AssetConfig | undefined {
+  return chain.assets.find(asset => asset.symbol === symbol);
+}
+
+// Get the validity bounds of a vault's snapshots
+export function getVaultValidity(vault: VaultConfig): SnapshotValidity {
+  return { ...DEFAULT_VALIDITY, ...vault.validity };
+}
+
+// Get the MPC key a vault's snapshots are signed with; unset fields use the signer's defaults
+export function getVaultAgentKey(vault: VaultConfig): AgentKey {
+  return { path: vault.mpcPath, keyVersion: vault.keyVersion };
 }
 
 // Get all vaults
-export function getAllVaults(): Array<{ chainId: number; vaultAddress: string }> {
-  return Object.values(SUPPORTED_CHAINS)
-    .filter(chain => chain.vaultAddress)
+export function getAllVaults(): Array<{ chainId: number; vaultAddress: string; asset: string }> {
+  return getAllChains()
+    .filter(chain => chain.vault)
     .map(chain => ({
       chainId: chain.chainId,
-      vaultAddress: chain.vaultAddress!,
+      vaultAddress: chain.vault!.address,
+      asset: chain.vault!.asset,
     }));
 }
-
-
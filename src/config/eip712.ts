@@ -0,0 +1,41 @@
+import { EIP712Domain } from '../types';
+
+// EIP-712 types for the vault's depositWithExtraInfoViaSignature
+export const CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES = {
+  CrossChainBalanceSnapshot: [
+    { name: 'balance', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'assets', type: 'uint256' },
+    { name: 'receiver', type: 'address' },
+  ],
+};
+
+// EIP-712 types for the vault's oracle-attested withdraw and redeem
+export const CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES = {
+  CrossChainWithdrawSnapshot: [
+    { name: 'balance', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'shares', type: 'uint256' },
+    { name: 'assets', type: 'uint256' },
+    { name: 'owner', type: 'address' },
+  ],
+};
+
+// Domain name and version of vaults deployed before eip712Domain() was exposed
+export const DEFAULT_VAULT_DOMAIN = { name: 'AaveVault', version: '1' };
+
+// Get the EIP-712 domain of a vault from configured name and version
+export function getVaultDomain(
+  chainId: number,
+  vaultAddress: string,
+  { name, version }: { name: string; version: string } = DEFAULT_VAULT_DOMAIN
+): EIP712Domain {
+  return {
+    name,
+    version,
+    chainId,
+    verifyingContract: vaultAddress,
+  };
+}
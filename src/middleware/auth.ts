@@ -1,13 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { AuthError, ForbiddenError, toErrorResponse } from '../utils/errors';
+import { ApiKeyScope, findApiKey, getApiKeyRegistry, hasScope, isApiKeyExpired } from '../config/apiKeys';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: { name: string; scopes: ApiKeyScope[] }; // The API key that authenticated the request
+    }
+  }
+}
+
+// Send an error response in the shape every endpoint uses
+function sendError(res: Response, error: unknown, summary: string): void {
+  const { status, body } = toErrorResponse(error, summary);
+  res.status(status).json(body);
+}
 
 /**
  * API Key authentication middleware
- * Expects: Authorization: Bearer <API_KEY>
+ * Expects: Authorization: Bearer <API key>
  */
 export function apiKeyAuth(req: Request, res: Response, next: NextFunction): void {
-  // Skip auth for health endpoint
-  if (req.path === '/health') {
+  // Skip auth for health endpoints (probed by orchestrators without keys)
+  if (req.path === '/health' || req.path === '/health/ready') {
     return next();
   }
 
@@ -15,7 +31,7 @@ export function apiKeyAuth(req: Request, res: Response, next: NextFunction): voi
 
   if (!authHeader) {
     logger.warn(`Auth failed: Missing Authorization header from ${req.ip}`);
-    res.status(401).json({ error: 'Missing Authorization header' });
+    sendError(res, new AuthError('Missing Authorization header'), 'Authentication failed');
     return;
   }
 
@@ -23,24 +39,47 @@ export function apiKeyAuth(req: Request, res: Response, next: NextFunction): voi
 
   if (bearer !== 'Bearer' || !token) {
     logger.warn(`Auth failed: Invalid Authorization format from ${req.ip}`);
-    res.status(401).json({ error: 'Invalid Authorization format. Expected: Bearer <token>' });
+    sendError(res, new AuthError('Invalid Authorization format. Expected: Bearer <token>'), 'Authentication failed');
     return;
   }
 
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    logger.error('API_KEY not configured in environment');
-    res.status(500).json({ error: 'Server configuration error' });
+  let keys;
+  try {
+    keys = getApiKeyRegistry().keys;
+  } catch (error) {
+    logger.error('API keys not configured:', error);
+    sendError(res, error, 'Server configuration error');
     return;
   }
 
-  if (token !== apiKey) {
+  const key = findApiKey(token, keys);
+  if (!key) {
     logger.warn(`Auth failed: Invalid API key from ${req.ip}`);
-    res.status(401).json({ error: 'Invalid API key' });
+    sendError(res, new AuthError('Invalid API key'), 'Authentication failed');
+    return;
+  }
+
+  if (isApiKeyExpired(key)) {
+    logger.warn(`Auth failed: Expired API key ${key.name} from ${req.ip}`);
+    sendError(res, new AuthError('API key expired'), 'Authentication failed');
     return;
   }
 
   // Auth successful
+  req.apiKey = { name: key.name, scopes: key.scopes };
   next();
 }
 
+/**
+ * Require a scope on the authenticated API key
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.apiKey || !hasScope(req.apiKey.scopes, scope)) {
+      logger.warn(`Auth failed: API key ${req.apiKey?.name ?? 'none'} lacks scope ${scope} for ${req.method} ${req.path}`);
+      sendError(res, new ForbiddenError(`API key lacks the "${scope}" scope`), 'Access denied');
+      return;
+    }
+    next();
+  };
+}
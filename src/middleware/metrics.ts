@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration, httpRequests } from '../utils/metrics';
+
+// Route pattern of the matched handler; requests no route handled share one label
+function routeLabel(req: Request): string {
+  return req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+}
+
+/**
+ * HTTP metrics middleware - Counts requests and their latency per route, method and status
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const observe = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const route = routeLabel(req);
+    observe({ method: req.method, route });
+    httpRequests.inc({ method: req.method, route, status: res.statusCode });
+  });
+
+  next();
+}
@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { parseTraceparent, runWithRequestContext, startSpan } from '../utils/tracing';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string; // Correlates log lines and spans of this request
+    }
+  }
+}
+
+// Caller-supplied request IDs are kept only when short and log-safe
+const REQUEST_ID_REGEX = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Request context middleware - Assigns a request ID and a server span to each request
+ *
+ * Accepts X-Request-Id and traceparent from the caller, and returns the request ID in
+ * X-Request-Id and the server span in traceparent.
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const supplied = req.header('x-request-id');
+  const requestId = supplied && REQUEST_ID_REGEX.test(supplied) ? supplied : crypto.randomUUID();
+
+  const span = startSpan(req.method, 'server', {
+    'http.request.method': req.method,
+    'url.path': req.path,
+    'request.id': requestId,
+  }, parseTraceparent(req.header('traceparent')));
+
+  req.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+  res.setHeader('traceparent', span.traceparent);
+
+  res.on('finish', () => {
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : undefined;
+    span.name = route ? `${req.method} ${route}` : req.method;
+    span.setAttribute('http.route', route);
+    span.setAttribute('http.response.status_code', res.statusCode);
+    if (res.statusCode >= 500) {
+      span.recordError({ message: `HTTP ${res.statusCode}`, code: String(res.statusCode) });
+    }
+    span.end();
+  });
+
+  runWithRequestContext({ requestId, span }, next);
+}
@@ -4,21 +4,38 @@ dotenv.config();
 
 import express from 'express';
 import { logger } from './utils/logger';
-import { initializeNearMpc } from './services/nearMpcService';
+import { ConfigError, ValidationError, toErrorResponse } from './utils/errors';
+import { initializeSigner, getSignerBackend, getSignerRequiredEnv } from './services/signerService';
+import { getChainRegistry, reloadChainRegistry, logChainRegistry } from './config/chains';
+import { getApiKeyRegistry, reloadApiKeys, logApiKeys } from './config/apiKeys';
 import { apiKeyAuth } from './middleware/auth';
+import { httpMetrics } from './middleware/metrics';
+import { requestContext } from './middleware/requestContext';
+import { FileSpanExporter, flushSpans, getSpanExporter } from './utils/tracing';
+import { clearLastKnownGood } from './services/chainQuorum';
+import { OracleService, clearPoolValueCache } from './services/oracleService';
+import { getSnapshotLedger } from './services/snapshotLedger';
+import { getPendingSignatures, resumePendingSignatures } from './services/pendingSignatures';
+import { startPoolValueSampler } from './services/poolValueHistory';
+import { clearVaultDomainCache } from './services/vaultService';
+import { getAgentMismatchPolicy, verifyVaultAgents } from './services/agentVerification';
+import { formatNear, startNearBalanceMonitor } from './services/nearBalance';
 import routes from './api/routes';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
+app.use(requestContext);
+app.use(httpMetrics);
 app.use(express.json());
 
 // CORS
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, If-None-Match, X-Request-Id, traceparent');
+  res.header('Access-Control-Expose-Headers', 'ETag, Age, X-Cache, X-Request-Id, traceparent, Location');
   if (req.method === 'OPTIONS') {
     return res.sendStatus(200);
   }
@@ -33,11 +50,15 @@ app.use(routes);
 
 // Error handler
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Malformed JSON bodies are rejected by express.json() before reaching a route
+  if (err.type === 'entity.parse.failed') {
+    const { status, body } = toErrorResponse(new ValidationError(`Invalid JSON body: ${err.message}`), 'Invalid request');
+    return res.status(status).json(body);
+  }
+
   logger.error('Unhandled error:', err);
-  res.status(500).json({
-    error: 'Internal server error',
-    message: err.message,
-  });
+  const { status, body } = toErrorResponse(err, 'Internal server error');
+  res.status(status).json(body);
 });
 
 // Start server
@@ -45,14 +66,13 @@ async function start() {
   try {
     logger.info('Starting NEAR MPC Oracle');
 
+    // Load chain registry
+    const chainRegistry = getChainRegistry();
+
     // Validate environment
     const requiredEnv = [
-      'API_KEY',
-      'NEAR_ACCOUNT_ID',
-      'NEAR_PRIVATE_KEY',
-      'ETHEREUM_SEPOLIA_RPC',
-      'BASE_SEPOLIA_RPC',
-      'ARBITRUM_SEPOLIA_RPC',
+      ...getSignerRequiredEnv(),
+      ...chainRegistry.requiredEnv,
     ];
 
     for (const env of requiredEnv) {
@@ -61,22 +81,75 @@ async function start() {
       }
     }
 
-    // Initialize NEAR MPC
-    logger.info('Initializing NEAR MPC');
-    initializeNearMpc();
+    logChainRegistry();
+
+    // Load API keys
+    getApiKeyRegistry();
+    logApiKeys();
+
+    // Load snapshot ledger and signatures still pending on NEAR
+    getSnapshotLedger();
+    getPendingSignatures();
+
+    // Configure span export
+    const spanExporter = getSpanExporter();
+    logger.info(`Trace export: ${spanExporter instanceof FileSpanExporter ? spanExporter.filePath : 'disabled'}`);
+
+    // Initialize signer
+    const signerBackend = getSignerBackend();
+    logger.info(`Initializing ${signerBackend} signer`);
+    const signer = initializeSigner();
+
+    // Derive the agent addresses and check every vault trusts its own
+    const agentAddress = await signer.getAgentAddress();
+    const mismatchPolicy = getAgentMismatchPolicy();
+    logger.info(`Agent address: ${agentAddress}`);
+    logger.info(`Verifying vault agents (on mismatch: ${mismatchPolicy})`);
+    const mismatched = (await verifyVaultAgents()).filter(check => check.status === 'mismatch');
+    if (mismatched.length > 0 && mismatchPolicy === 'fail') {
+      throw new ConfigError(
+        `AI_AGENT() of ${mismatched.map(check => `${check.chainName} vault ${check.vaultAddress} is not ${check.agentAddress}`).join(', ')}; ` +
+        'set AGENT_MISMATCH_POLICY=disable to start with those vaults unsignable'
+      );
+    }
+
+    // Wait again for signing transactions sent before the last shutdown
+    resumePendingSignatures();
+
+    // Watch the balance of the NEAR account paying for signatures
+    const nearBalance = await signer.checkBalance();
+    if (nearBalance) {
+      logger.info(`NEAR balance of ${nearBalance.accountId}: ${formatNear(nearBalance.balance)} NEAR (${nearBalance.status})`);
+      startNearBalanceMonitor(() => signer.checkBalance());
+    }
 
     // Start server
     app.listen(PORT, () => {
       logger.info(`Oracle running on port ${PORT}`);
       logger.info(`Endpoints:`);
       logger.info(`   GET  /health`);
+      logger.info(`   GET  /health/ready`);
       logger.info(`   POST /api/oracle/balance-snapshot`);
+      logger.info(`   POST /api/oracle/withdraw-snapshot`);
       logger.info(`   GET  /api/oracle/pool-value`);
+      logger.info(`   GET  /api/oracle/pool-value/history`);
+      logger.info(`   GET  /api/oracle/snapshots`);
+      logger.info(`   GET  /api/oracle/snapshots/:id`);
       logger.info(`   GET  /api/oracle/agent-address`);
+      logger.info(`   GET  /api/oracle/rpc-status`);
+      logger.info(`   GET  /metrics`);
       logger.info('');
-      logger.info('NEAR MPC signing enabled');
-      logger.info(`   MPC Contract: v1.signer-prod.testnet`);
-      logger.info(`   Path: ethereum-1`);
+      logger.info(`Signer backend: ${signerBackend}`);
+      if (signerBackend === 'mpc') {
+        logger.info(`   MPC Contract: ${process.env.MPC_CONTRACT_ID || 'v1.signer-prod.testnet'}`);
+        logger.info(`   Default path: ${process.env.MPC_PATH || 'ethereum-1'}`);
+      } else if (signerBackend === 'contract') {
+        logger.info(`   NEAR Contract: ${process.env.NEAR_CONTRACT_ID}`);
+      }
+
+      // Record pool values for the history endpoint
+      const oracleService = new OracleService();
+      startPoolValueSampler(() => oracleService.getPoolValue());
     });
   } catch (error) {
     logger.error('Failed to start oracle:', error);
@@ -87,12 +160,43 @@ async function start() {
 // Handle shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully...');
-  process.exit(0);
+  // Keep the spans of the last requests
+  flushSpans().finally(() => process.exit(0));
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully...');
-  process.exit(0);
+  // Keep the spans of the last requests
+  flushSpans().finally(() => process.exit(0));
+});
+
+// Reload chain registry
+process.on('SIGHUP', () => {
+  logger.info('SIGHUP received, reloading chain registry and API keys...');
+  try {
+    const chainRegistry = reloadChainRegistry();
+    const missingEnv = chainRegistry.requiredEnv.filter(env => !process.env[env]);
+    if (missingEnv.length > 0) {
+      logger.warn(`Reloaded registry references unset environment variables: ${missingEnv.join(', ')}`);
+    }
+    logChainRegistry();
+    // Cached reads may belong to chains or vaults that changed
+    clearLastKnownGood();
+    clearPoolValueCache();
+    clearVaultDomainCache();
+  } catch (error) {
+    logger.error('Failed to reload chain registry, keeping previous configuration:', error);
+  }
+
+  try {
+    reloadApiKeys();
+    logApiKeys();
+  } catch (error) {
+    logger.error('Failed to reload API keys, keeping previous keys:', error);
+  }
+
+  // Vaults may have been added, re-keyed or their AI_AGENT() changed; a mismatch only makes the vault unsignable
+  verifyVaultAgents().catch(error => logger.error('Failed to verify vault agents:', error));
 });
 
 // Start
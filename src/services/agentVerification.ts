@@ -0,0 +1,151 @@
+import { ChainConfig } from '../types';
+import { getAllChains, getVaultAgentKey } from '../config/chains';
+import { logger } from '../utils/logger';
+import { sendAlert } from '../utils/alerts';
+import { ConfigError, PolicyError } from '../utils/errors';
+import { getSigner } from './signerService';
+import { getAgentAddress } from './vaultService';
+
+/**
+ * Agent verification - Cross-checks each vault's agent address against its AI_AGENT()
+ *
+ * A vault's agent address is derived from its own MPC path and key version when it has one.
+ * A vault whose AI_AGENT() is another address rejects every signature the oracle produces, so
+ * signing for it is refused with AGENT_MISMATCH. Vaults are verified at startup, on SIGHUP and
+ * by every readiness probe. AGENT_MISMATCH_POLICY chooses what a mismatch at startup does:
+ * "fail" (default) stops the oracle, "disable" keeps it running with the vault unsignable.
+ * Signing reads AI_AGENT() again, so a vault re-pointed after startup is caught too.
+ */
+
+export type AgentMismatchPolicy = 'fail' | 'disable';
+
+export type VaultAgentStatus = 'verified' | 'mismatch' | 'unverified';
+
+export interface VaultAgentCheck {
+  chainId: number;
+  chainName: string;
+  vaultAddress: string;
+  agentAddress: string;       // Signer's agent address
+  vaultAgent: string | null;  // Vault's AI_AGENT(), null when it could not be read
+  status: VaultAgentStatus;
+  checkedAt: string;
+  error?: string;
+}
+
+export class AgentMismatchError extends PolicyError {
+  constructor(readonly check: VaultAgentCheck) {
+    super(
+      `Vault ${check.vaultAddress} on chain ${check.chainId} trusts agent ${check.vaultAgent}, ` +
+      `not the signer's ${check.agentAddress}`,
+      'AGENT_MISMATCH',
+      409,
+      false
+    );
+    this.name = 'AgentMismatchError';
+  }
+
+  get details(): Record<string, unknown> {
+    return { vaultAgentCheck: this.check };
+  }
+}
+
+const MISMATCH_POLICIES: AgentMismatchPolicy[] = ['fail', 'disable'];
+
+// Latest check per vault, keyed by chainId:vaultAddress
+const checks = new Map<string, VaultAgentCheck>();
+
+export function getAgentMismatchPolicy(): AgentMismatchPolicy {
+  const policy = (process.env.AGENT_MISMATCH_POLICY || 'fail').toLowerCase() as AgentMismatchPolicy;
+  if (!MISMATCH_POLICIES.includes(policy)) {
+    throw new ConfigError(`Invalid AGENT_MISMATCH_POLICY: ${policy}. Expected one of: ${MISMATCH_POLICIES.join(', ')}`);
+  }
+  return policy;
+}
+
+function checkKey(chainId: number, vaultAddress: string): string {
+  return `${chainId}:${vaultAddress.toLowerCase()}`;
+}
+
+// Read AI_AGENT() and record the outcome; the read error is returned for callers that rethrow it
+async function readVaultAgent(chain: ChainConfig, agentAddress: string): Promise<{ check: VaultAgentCheck; error?: unknown }> {
+  const vaultAddress = chain.vault!.address;
+  const key = checkKey(chain.chainId, vaultAddress);
+  const previous = checks.get(key);
+  const base = { chainId: chain.chainId, chainName: chain.name, vaultAddress, agentAddress };
+
+  let check: VaultAgentCheck;
+  let readError: unknown;
+  try {
+    const vaultAgent = await getAgentAddress(vaultAddress, chain);
+    const status = vaultAgent.toLowerCase() === agentAddress.toLowerCase() ? 'verified' : 'mismatch';
+    check = { ...base, vaultAgent, status, checkedAt: new Date().toISOString() };
+  } catch (error: any) {
+    readError = error;
+    check = { ...base, vaultAgent: null, status: 'unverified', checkedAt: new Date().toISOString(), error: error?.message ?? String(error) };
+  }
+  checks.set(key, check);
+
+  if (check.status === 'mismatch' && previous?.status !== 'mismatch') {
+    sendAlert(
+      'vault_agent_mismatch',
+      `Vault ${vaultAddress} on ${chain.name} trusts agent ${check.vaultAgent}, not the signer's ${agentAddress}; signing for it is refused`,
+      { ...check }
+    );
+  } else if (check.status === 'verified' && previous?.status === 'mismatch') {
+    logger.info(`Vault ${vaultAddress} on ${chain.name} now trusts the signer's agent ${agentAddress}`);
+  }
+
+  return { check, error: readError };
+}
+
+/**
+ * Compare one vault's AI_AGENT() with the signer's agent address
+ */
+export async function verifyVaultAgent(chain: ChainConfig, agentAddress: string): Promise<VaultAgentCheck> {
+  return (await readVaultAgent(chain, agentAddress)).check;
+}
+
+/**
+ * Verify every configured vault against its agent address, forgetting vaults no longer in the registry
+ */
+export async function verifyVaultAgents(): Promise<VaultAgentCheck[]> {
+  const signer = getSigner();
+  const vaultChains = getAllChains().filter(chain => chain.vault);
+  const configured = new Set(vaultChains.map(chain => checkKey(chain.chainId, chain.vault!.address)));
+  for (const key of checks.keys()) {
+    if (!configured.has(key)) {
+      checks.delete(key);
+    }
+  }
+
+  const results = await Promise.all(vaultChains.map(async chain =>
+    verifyVaultAgent(chain, await signer.getAgentAddress(getVaultAgentKey(chain.vault!)))
+  ));
+  for (const check of results) {
+    const detail = check.status === 'mismatch' ? ` (AI_AGENT ${check.vaultAgent})` : check.error ? ` (${check.error})` : '';
+    logger.info(`   ${check.chainName} vault ${check.vaultAddress}: ${check.status}${detail}`);
+  }
+  return results;
+}
+
+/**
+ * Latest check of every vault
+ */
+export function getVaultAgentChecks(): VaultAgentCheck[] {
+  return [...checks.values()];
+}
+
+/**
+ * Refuse to sign for a vault that does not trust the signer's agent address
+ *
+ * Throws AgentMismatchError on mismatch and the RPC error when AI_AGENT() cannot be read.
+ */
+export async function requireSignableVault(chain: ChainConfig, agentAddress: string): Promise<void> {
+  const { check, error } = await readVaultAgent(chain, agentAddress);
+  if (check.status === 'mismatch') {
+    throw new AgentMismatchError(check);
+  }
+  if (check.status === 'unverified') {
+    throw error;
+  }
+}
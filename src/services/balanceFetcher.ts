@@ -1,41 +1,39 @@
 import { ethers } from 'ethers';
-import { ChainConfig, ChainBalance, VaultBalance, AggregatedBalances } from '../types';
-import { AAVE_POOL_ABI, ERC20_ABI } from '../config/abis';
+import {
+  AgentHoldings,
+  AssetConfig,
+  AssetTotals,
+  ChainConfig,
+  ChainBalance,
+  ChainState,
+  VaultBalance,
+  AggregatedBalances,
+  PinnedBlock,
+} from '../types';
+import { AAVE_POOL_ABI, ERC20_ABI, VAULT_ABI } from '../config/abis';
+import { getChainAsset, getPrimaryAsset } from '../config/chains';
+import { resolveSnapshotBlock } from './blockService';
+import { multicallRead } from './multicall';
+import { getCrossChainInvestedAssets, getVaultTotalSupply } from './vaultService';
+import { toRpcError } from './providerPool';
 import { logger } from '../utils/logger';
+import { ConfigError } from '../utils/errors';
 
 // Cache for aToken addresses to avoid repeated queries
 const aTokenAddressCache: Map<string, string> = new Map();
 
-// Hardcoded aToken addresses as fallback (from AAVE deployments)
-const KNOWN_ATOKEN_ADDRESSES: Record<number, Record<string, string>> = {
-  // Ethereum Sepolia  
-  11155111: {
-    '0xaa8e23fb1079ea71e0a56f48a2aa51851d8433d0': '0x8A458A9dc9048e005d22849F470891b840296619', // USDT aToken
-  },
-  // Base Sepolia
-  84532: {
-    '0x036cbd53842c5426634e7929541ec2318f3dcf7e': '0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB', // USDC aToken (correct address)
-    '0x75faf114eafb1bdbe2f0316df893fd58ce46aa4d': '0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB', // USDC aToken (alternate)
-  },
-  // Arbitrum Sepolia
-  421614: {
-    '0x75faf114eafb1bdbe2f0316df893fd58ce46aa4d': '0x460b97BD498E1157530AEb3086301d5225b91216', // USDC aToken (Circle)
-  },
-  // Optimism Sepolia
-  11155420: {
-    '0x5fd84259d66cd46123540766be93dfe6d43130d7': '0x16dA4541aD1807f4443d92D26044C1147406EB80', // USDC aToken (Circle)
-  },
-};
+// Cache for token decimals (immutable per token)
+const decimalsCache: Map<string, number> = new Map();
 
 /**
- * Get aToken address for a given USDC address on a chain
+ * Get aToken address for a given asset on a chain
  */
 export async function getATokenAddress(
   chainConfig: ChainConfig,
-  usdcAddress: string
+  asset: AssetConfig
 ): Promise<string> {
-  const cacheKey = `${chainConfig.chainId}-${usdcAddress}`;
-  
+  const cacheKey = `${chainConfig.chainId}-${asset.address}`;
+
   // Check cache first
   if (aTokenAddressCache.has(cacheKey)) {
     return aTokenAddressCache.get(cacheKey)!;
@@ -43,60 +41,95 @@ export async function getATokenAddress(
 
   // Try to get from AAVE pool first
   try {
-    const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
-    const aavePool = new ethers.Contract(
+    const reserveData = await multicallRead(
+      chainConfig,
       chainConfig.aavePoolAddress,
       AAVE_POOL_ABI,
-      provider
+      'getReserveData',
+      [asset.address]
     );
-
-    const reserveData = await aavePool.getReserveData(usdcAddress);
-    const aTokenAddress = reserveData.aTokenAddress;
+    const aTokenAddress: string = reserveData.aTokenAddress;
 
     // Cache the result
     aTokenAddressCache.set(cacheKey, aTokenAddress);
 
-    logger.debug(`aToken address for ${chainConfig.name}: ${aTokenAddress}`);
+    logger.debug(`a${asset.symbol} address for ${chainConfig.name}: ${aTokenAddress}`);
     return aTokenAddress;
   } catch (error) {
-    // Fallback to hardcoded addresses
-    logger.warn(`Failed to query AAVE pool on ${chainConfig.name}, using hardcoded aToken address`);
-    
-    const chainAddresses = KNOWN_ATOKEN_ADDRESSES[chainConfig.chainId];
-    if (chainAddresses && chainAddresses[usdcAddress.toLowerCase()]) {
-      const aTokenAddress = chainAddresses[usdcAddress.toLowerCase()];
-      logger.info(`Using hardcoded aToken address for ${chainConfig.name}: ${aTokenAddress}`);
-      
+    // Fallback to the aToken address from the chain registry
+    logger.warn(`Failed to query AAVE pool on ${chainConfig.name}, using configured a${asset.symbol} address`);
+
+    if (asset.aTokenAddress) {
+      logger.info(`Using configured a${asset.symbol} address for ${chainConfig.name}: ${asset.aTokenAddress}`);
+
       // Cache it
-      aTokenAddressCache.set(cacheKey, aTokenAddress);
-      return aTokenAddress;
+      aTokenAddressCache.set(cacheKey, asset.aTokenAddress);
+      return asset.aTokenAddress;
     }
 
-    logger.error(`No aToken address available for ${chainConfig.name} / ${usdcAddress}`);
-    throw new Error(`Failed to get aToken address on ${chainConfig.name}: ${error}`);
+    logger.error(`No aToken address available for ${chainConfig.name} / ${asset.symbol}`);
+    throw toRpcError(`Failed to get a${asset.symbol} address on ${chainConfig.name}`, error);
+  }
+}
+
+/**
+ * Get decimals for an asset from ERC20 decimals()
+ */
+export async function getAssetDecimals(
+  chainConfig: ChainConfig,
+  asset: AssetConfig
+): Promise<number> {
+  const cacheKey = `${chainConfig.chainId}-${asset.address}`;
+
+  if (decimalsCache.has(cacheKey)) {
+    return decimalsCache.get(cacheKey)!;
+  }
+
+  try {
+    const decimals = Number(await multicallRead(chainConfig, asset.address, ERC20_ABI, 'decimals'));
+
+    decimalsCache.set(cacheKey, decimals);
+
+    logger.debug(`${asset.symbol} decimals on ${chainConfig.name}: ${decimals}`);
+    return decimals;
+  } catch (error) {
+    if (asset.decimals !== undefined) {
+      logger.warn(`Failed to read ${asset.symbol} decimals on ${chainConfig.name}, using configured ${asset.decimals}`);
+      return asset.decimals;
+    }
+
+    logger.error(`Failed to read ${asset.symbol} decimals on ${chainConfig.name}:`, error);
+    throw toRpcError(`Failed to read ${asset.symbol} decimals on ${chainConfig.name}`, error);
   }
 }
 
 /**
  * Fetch aToken balance for an address on a specific chain
+ * Reads at the pinned block, or pins one from the chain's finality policy
  */
 export async function fetchATokenBalance(
   chainConfig: ChainConfig,
-  agentAddress: string
+  asset: AssetConfig,
+  agentAddress: string,
+  block?: PinnedBlock
 ): Promise<ChainBalance> {
   try {
-    logger.debug(`Fetching aToken balance on ${chainConfig.name} for ${agentAddress}`);
+    logger.debug(`Fetching a${asset.symbol} balance on ${chainConfig.name} for ${agentAddress}`);
+
+    const pinnedBlock = block ?? await resolveSnapshotBlock(chainConfig);
+
+    // Get aToken address and decimals
+    const [aTokenAddress, decimals] = await Promise.all([
+      getATokenAddress(chainConfig, asset),
+      getAssetDecimals(chainConfig, asset),
+    ]);
 
-    const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
-    
-    // Get aToken address
-    const aTokenAddress = await getATokenAddress(chainConfig, chainConfig.usdcAddress);
-    
     // Query balance
-    const aToken = new ethers.Contract(aTokenAddress, ERC20_ABI, provider);
     let balance: bigint;
     try {
-      balance = await aToken.balanceOf(agentAddress);
+      balance = await multicallRead(
+        chainConfig, aTokenAddress, ERC20_ABI, 'balanceOf', [agentAddress], pinnedBlock.blockNumber
+      );
     } catch (balanceError: any) {
       // If contract call fails with BAD_DATA, the address likely has 0 balance or contract doesn't exist
       if (balanceError.code === 'BAD_DATA') {
@@ -106,61 +139,65 @@ export async function fetchATokenBalance(
         throw balanceError;
       }
     }
-    
-    const blockNumber = await provider.getBlockNumber();
 
     const result: ChainBalance = {
       chainId: chainConfig.chainId,
       chainName: chainConfig.name,
+      holder: agentAddress,
+      asset: asset.symbol,
+      assetAddress: asset.address,
+      decimals,
       aTokenBalance: balance.toString(),
       aTokenAddress,
-      blockNumber,
+      blockNumber: pinnedBlock.blockNumber,
+      blockHash: pinnedBlock.blockHash,
       timestamp: Math.floor(Date.now() / 1000),
     };
 
     logger.info(
-      `aToken balance on ${chainConfig.name}: ${ethers.formatUnits(balance, 6)} aTokens (address: ${agentAddress})`
+      `a${asset.symbol} balance on ${chainConfig.name}: ${ethers.formatUnits(balance, decimals)} (address: ${agentAddress})`
     );
 
     return result;
   } catch (error) {
-    logger.error(`Failed to fetch aToken balance on ${chainConfig.name}:`, error);
-    throw new Error(`Failed to fetch aToken balance on ${chainConfig.name}: ${error}`);
+    logger.error(`Failed to fetch a${asset.symbol} balance on ${chainConfig.name}:`, error);
+    throw toRpcError(`Failed to fetch a${asset.symbol} balance on ${chainConfig.name}`, error);
   }
 }
 
 /**
- * Fetch USDC balance for a vault on a specific chain
+ * Fetch idle underlying asset balance for a vault on a specific chain
  */
-export async function fetchVaultUSDCBalance(
+export async function fetchVaultIdleBalance(
   chainConfig: ChainConfig,
-  vaultAddress: string
+  asset: AssetConfig,
+  vaultAddress: string,
+  blockTag: number | 'latest' = 'latest'
 ): Promise<string> {
   try {
-    logger.debug(`Fetching USDC balance for vault ${vaultAddress} on ${chainConfig.name}`);
+    logger.debug(`Fetching ${asset.symbol} balance for vault ${vaultAddress} on ${chainConfig.name}`);
 
-    const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
-    const usdc = new ethers.Contract(chainConfig.usdcAddress, ERC20_ABI, provider);
     let balance: bigint;
     try {
-      balance = await usdc.balanceOf(vaultAddress);
+      balance = await multicallRead(chainConfig, asset.address, ERC20_ABI, 'balanceOf', [vaultAddress], blockTag);
     } catch (balanceError: any) {
       if (balanceError.code === 'BAD_DATA') {
-        logger.warn(`USDC contract call returned empty data on ${chainConfig.name}, assuming 0 balance`);
+        logger.warn(`${asset.symbol} contract call returned empty data on ${chainConfig.name}, assuming 0 balance`);
         balance = 0n;
       } else {
         throw balanceError;
       }
     }
 
+    const decimals = await getAssetDecimals(chainConfig, asset);
     logger.info(
-      `USDC balance for vault on ${chainConfig.name}: ${ethers.formatUnits(balance, 6)} USDC`
+      `${asset.symbol} balance for vault on ${chainConfig.name}: ${ethers.formatUnits(balance, decimals)} ${asset.symbol}`
     );
 
     return balance.toString();
   } catch (error) {
-    logger.error(`Failed to fetch USDC balance on ${chainConfig.name}:`, error);
-    throw new Error(`Failed to fetch USDC balance on ${chainConfig.name}: ${error}`);
+    logger.error(`Failed to fetch ${asset.symbol} balance on ${chainConfig.name}:`, error);
+    throw toRpcError(`Failed to fetch ${asset.symbol} balance on ${chainConfig.name}`, error);
   }
 }
 
@@ -169,21 +206,20 @@ export async function fetchVaultUSDCBalance(
  */
 export async function fetchVaultATokenBalance(
   chainConfig: ChainConfig,
-  vaultAddress: string
+  asset: AssetConfig,
+  vaultAddress: string,
+  blockTag: number | 'latest' = 'latest'
 ): Promise<string> {
   try {
-    logger.debug(`Fetching aToken balance for vault ${vaultAddress} on ${chainConfig.name}`);
+    logger.debug(`Fetching a${asset.symbol} balance for vault ${vaultAddress} on ${chainConfig.name}`);
 
-    const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
-    
     // Get aToken address
-    const aTokenAddress = await getATokenAddress(chainConfig, chainConfig.usdcAddress);
-    
+    const aTokenAddress = await getATokenAddress(chainConfig, asset);
+
     // Query balance
-    const aToken = new ethers.Contract(aTokenAddress, ERC20_ABI, provider);
     let balance: bigint;
     try {
-      balance = await aToken.balanceOf(vaultAddress);
+      balance = await multicallRead(chainConfig, aTokenAddress, ERC20_ABI, 'balanceOf', [vaultAddress], blockTag);
     } catch (balanceError: any) {
       if (balanceError.code === 'BAD_DATA') {
         logger.warn(`aToken contract call returned empty data on ${chainConfig.name}, assuming 0 balance`);
@@ -193,56 +229,96 @@ export async function fetchVaultATokenBalance(
       }
     }
 
+    const decimals = await getAssetDecimals(chainConfig, asset);
     logger.info(
-      `aToken balance for vault on ${chainConfig.name}: ${ethers.formatUnits(balance, 6)} aTokens`
+      `a${asset.symbol} balance for vault on ${chainConfig.name}: ${ethers.formatUnits(balance, decimals)}`
     );
 
     return balance.toString();
   } catch (error) {
-    logger.error(`Failed to fetch vault aToken balance on ${chainConfig.name}:`, error);
-    throw new Error(`Failed to fetch vault aToken balance on ${chainConfig.name}: ${error}`);
+    logger.error(`Failed to fetch vault a${asset.symbol} balance on ${chainConfig.name}:`, error);
+    throw toRpcError(`Failed to fetch vault a${asset.symbol} balance on ${chainConfig.name}`, error);
+  }
+}
+
+/**
+ * Fetch a vault's share supply and cross-chain assets for share pricing
+ * A vault without them is still valued, just not priced
+ */
+async function fetchVaultShares(
+  chainConfig: ChainConfig,
+  asset: AssetConfig,
+  vaultAddress: string,
+  blockNumber: number
+): Promise<Pick<VaultBalance, 'totalShares' | 'shareDecimals' | 'crossChainAssets'>> {
+  try {
+    const [totalShares, shareDecimals, crossChainAssets] = await Promise.all([
+      getVaultTotalSupply(vaultAddress, chainConfig, blockNumber),
+      getAssetDecimals(chainConfig, { symbol: `${asset.symbol} vault shares`, address: vaultAddress }),
+      getCrossChainInvestedAssets(vaultAddress, chainConfig, blockNumber),
+    ]);
+    return {
+      totalShares: totalShares.toString(),
+      shareDecimals,
+      crossChainAssets: crossChainAssets.toString(),
+    };
+  } catch (error) {
+    logger.warn(`Failed to read vault shares on ${chainConfig.name}, share price unavailable: ${error}`);
+    return {};
   }
 }
 
 /**
  * Fetch complete vault balance using ERC4626 totalAssets()
- * This is the correct way to get vault value since USDC is invested in AAVE as aTokens
+ * This is the correct way to get vault value since the asset is invested in AAVE as aTokens
  */
 export async function fetchVaultBalance(
   chainConfig: ChainConfig,
-  vaultAddress: string
+  vaultAddress: string,
+  block?: PinnedBlock
 ): Promise<VaultBalance> {
   try {
-    const provider = new ethers.JsonRpcProvider(chainConfig.rpcUrl);
-    const blockNumber = await provider.getBlockNumber();
+    const asset = chainConfig.vault && getChainAsset(chainConfig, chainConfig.vault.asset);
+    if (!asset) {
+      throw new ConfigError(`No vault asset configured on ${chainConfig.name}`);
+    }
+
+    const [pinnedBlock, decimals] = await Promise.all([
+      block ?? resolveSnapshotBlock(chainConfig),
+      getAssetDecimals(chainConfig, asset),
+    ]);
+    const { blockNumber, blockHash } = pinnedBlock;
+
+    // Never rejects, so it can be left pending if the fallback below throws
+    const sharesRead = fetchVaultShares(chainConfig, asset, vaultAddress, blockNumber);
 
     // ERC4626 vault - use totalAssets() to get the real value
-    // The vault invests USDC into AAVE, so USDC.balanceOf(vault) would be 0
+    // The vault invests its asset into AAVE, so asset.balanceOf(vault) would be 0
     // totalAssets() returns the total value of all assets managed by the vault
-    const VAULT_ABI = [
-      'function totalAssets() view returns (uint256)',
-    ];
-    
-    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, provider);
     let totalAssets: bigint;
-    
+
     try {
-      totalAssets = await vault.totalAssets();
-      logger.info(`Vault totalAssets on ${chainConfig.name}: ${ethers.formatUnits(totalAssets, 6)} USDC`);
+      totalAssets = await multicallRead(chainConfig, vaultAddress, VAULT_ABI, 'totalAssets', [], blockNumber);
+      logger.info(`Vault totalAssets on ${chainConfig.name}: ${ethers.formatUnits(totalAssets, decimals)} ${asset.symbol}`);
     } catch (error: any) {
       logger.warn(`Failed to call totalAssets on ${chainConfig.name}, falling back to token balances`);
       // Fallback to old method if vault doesn't support totalAssets
-      const [usdcBalance, aTokenBalance] = await Promise.all([
-        fetchVaultUSDCBalance(chainConfig, vaultAddress),
-        fetchVaultATokenBalance(chainConfig, vaultAddress),
+      const [idleBalance, aTokenBalance] = await Promise.all([
+        fetchVaultIdleBalance(chainConfig, asset, vaultAddress, blockNumber),
+        fetchVaultATokenBalance(chainConfig, asset, vaultAddress, blockNumber),
       ]);
       return {
         chainId: chainConfig.chainId,
         chainName: chainConfig.name,
         vaultAddress,
-        usdcBalance,
+        asset: asset.symbol,
+        assetAddress: asset.address,
+        decimals,
+        idleBalance,
         aTokenBalance,
+        ...(await sharesRead),
         blockNumber,
+        blockHash,
         timestamp: Math.floor(Date.now() / 1000),
       };
     }
@@ -253,61 +329,95 @@ export async function fetchVaultBalance(
       chainId: chainConfig.chainId,
       chainName: chainConfig.name,
       vaultAddress,
-      usdcBalance: '0', // USDC is invested, not sitting idle
+      asset: asset.symbol,
+      assetAddress: asset.address,
+      decimals,
+      idleBalance: '0', // Asset is invested, not sitting idle
       aTokenBalance: totalAssets.toString(), // Total vault value
+      ...(await sharesRead),
       blockNumber,
+      blockHash,
       timestamp: Math.floor(Date.now() / 1000),
     };
   } catch (error) {
     logger.error(`Failed to fetch vault balance on ${chainConfig.name}:`, error);
-    throw new Error(`Failed to fetch vault balance on ${chainConfig.name}: ${error}`);
+    throw toRpcError(`Failed to fetch vault balance on ${chainConfig.name}`, error);
   }
 }
 
 /**
- * Fetch balances across all chains for a given agent address
+ * Fetch balances of every configured asset across all chains for a given agent address
+ * Pass pinned blocks to read every chain at the snapshot's blocks
  */
-export async function fetchChainBalances(agentAddress: string): Promise<ChainBalance[]> {
+export async function fetchChainBalances(
+  agentAddress: string,
+  blocks?: Map<number, PinnedBlock>
+): Promise<ChainBalance[]> {
   // Import dynamically to avoid circular dependency
   const { getAllChains } = await import('../config/chains');
   const chains = getAllChains();
-  
+
   logger.info(`Fetching balances across ${chains.length} chains for agent ${agentAddress}`);
 
   const balances = await Promise.all(
-    chains.map(async (chain) => {
+    chains.flatMap(chain => chain.assets.map(async (asset) => {
       try {
         // fetchATokenBalance returns full ChainBalance
-        return await fetchATokenBalance(chain, agentAddress);
+        return await fetchATokenBalance(chain, asset, agentAddress, blocks?.get(chain.chainId));
       } catch (error) {
-        logger.error(`Failed to fetch balance on ${chain.name}:`, error);
+        logger.error(`Failed to fetch ${asset.symbol} balance on ${chain.name}:`, error);
         throw error;
       }
-    })
+    }))
   );
 
   return balances;
 }
 
+/**
+ * Fetch every balance on one chain at a pinned block: each agent's aTokens per asset and the vault, if any
+ */
+export async function fetchChainState(
+  chainConfig: ChainConfig,
+  agentAddresses: string[],
+  block: PinnedBlock
+): Promise<ChainState> {
+  const [chainBalances, vaultBalance] = await Promise.all([
+    Promise.all(agentAddresses.flatMap(agentAddress =>
+      chainConfig.assets.map(asset => fetchATokenBalance(chainConfig, asset, agentAddress, block))
+    )),
+    chainConfig.vault ? fetchVaultBalance(chainConfig, chainConfig.vault.address, block) : undefined,
+  ]);
+
+  return {
+    chainId: chainConfig.chainId,
+    chainName: chainConfig.name,
+    block,
+    chainBalances,
+    vaultBalance,
+  };
+}
+
 /**
  * Fetch balances across all vaults
+ * Pass pinned blocks to read every vault at the snapshot's blocks
  */
-export async function fetchVaultBalances(): Promise<VaultBalance[]> {
+export async function fetchVaultBalances(blocks?: Map<number, PinnedBlock>): Promise<VaultBalance[]> {
   // Import dynamically to avoid circular dependency
   const { getAllVaults, getChainById } = await import('../config/chains');
   const vaults = getAllVaults();
-  
+
   logger.info(`Fetching balances across ${vaults.length} vaults`);
 
   const balances = await Promise.all(
     vaults.map(async ({ chainId, vaultAddress }) => {
       const chain = getChainById(chainId);
       if (!chain) {
-        throw new Error(`Chain ${chainId} not found`);
+        throw new ConfigError(`Chain ${chainId} not found`);
       }
 
       try {
-        return await fetchVaultBalance(chain, vaultAddress);
+        return await fetchVaultBalance(chain, vaultAddress, blocks?.get(chainId));
       } catch (error) {
         logger.error(`Failed to fetch vault balance on ${chain.name}:`, error);
         throw error;
@@ -319,41 +429,72 @@ export async function fetchVaultBalances(): Promise<VaultBalance[]> {
 }
 
 /**
- * Aggregate all balances across chains
+ * Aggregate all balances across chains, per asset
  */
 export function aggregateBalances(
   chainBalances: ChainBalance[],
   vaultBalances: VaultBalance[]
 ): Omit<AggregatedBalances, 'agentAddress'> {
-  // Sum all vault aToken balances (invested in AAVE)
-  const totalVaultATokens = vaultBalances.reduce((sum, vault) => {
-    return sum + BigInt(vault.aTokenBalance);
-  }, BigInt(0));
-
-  // Sum all vault USDC balances (idle in vaults)
-  const totalVaultUSDC = vaultBalances.reduce((sum, vault) => {
-    return sum + BigInt(vault.usdcBalance);
-  }, BigInt(0));
-
-  // Total aTokens across all chains (only from vaults, since agent doesn't hold aTokens directly)
-  const totalATokens = totalVaultATokens;
+  // Sum vault aToken (invested in AAVE) and idle balances per asset
+  const totalsByAsset = new Map<string, { decimals: number; aTokens: bigint; idle: bigint }>();
+  for (const vault of vaultBalances) {
+    const totals = totalsByAsset.get(vault.asset) || { decimals: vault.decimals, aTokens: 0n, idle: 0n };
+    if (totals.decimals !== vault.decimals) {
+      throw new ConfigError(
+        `${vault.asset} has ${vault.decimals} decimals on ${vault.chainName} but ${totals.decimals} elsewhere`
+      );
+    }
+    totals.aTokens += BigInt(vault.aTokenBalance);
+    totals.idle += BigInt(vault.idleBalance);
+    totalsByAsset.set(vault.asset, totals);
+  }
 
-  // Total value = all aTokens + vault USDC
-  const totalValue = totalATokens + totalVaultUSDC;
+  // Total aTokens per asset are only from vaults, since agent doesn't hold aTokens directly
+  // Total value = all aTokens + vault idle balance
+  const assets: AssetTotals[] = Array.from(totalsByAsset.entries()).map(([asset, totals]) => ({
+    asset,
+    decimals: totals.decimals,
+    totalATokens: totals.aTokens.toString(),
+    totalIdle: totals.idle.toString(),
+    totalValue: (totals.aTokens + totals.idle).toString(),
+  }));
 
   logger.info('Balance Aggregation:');
-  logger.info(`   Vault aTokens: ${ethers.formatUnits(totalVaultATokens, 6)}`);
-  logger.info(`   Vault USDC: ${ethers.formatUnits(totalVaultUSDC, 6)}`);
-  logger.info(`   Total aTokens: ${ethers.formatUnits(totalATokens, 6)}`);
-  logger.info(`   Total Value: ${ethers.formatUnits(totalValue, 6)}`);
+  for (const totals of assets) {
+    logger.info(`   ${totals.asset} aTokens: ${ethers.formatUnits(totals.totalATokens, totals.decimals)}`);
+    logger.info(`   ${totals.asset} idle: ${ethers.formatUnits(totals.totalIdle, totals.decimals)}`);
+    logger.info(`   ${totals.asset} total value: ${ethers.formatUnits(totals.totalValue, totals.decimals)}`);
+  }
+
+  // Top-level totals are for the primary asset
+  const primary = assets.find(totals => totals.asset === getPrimaryAsset());
 
   return {
-    totalATokens: totalATokens.toString(),
-    totalUSDC: totalVaultUSDC.toString(),
-    totalValue: totalValue.toString(),
+    totalATokens: primary?.totalATokens ?? '0',
+    totalIdle: primary?.totalIdle ?? '0',
+    totalValue: primary?.totalValue ?? '0',
+    assets,
     chainBalances,
     vaultBalances,
     timestamp: Math.floor(Date.now() / 1000),
   };
 }
 
+/**
+ * Sum the aTokens each agent address holds per asset across chains
+ */
+export function aggregateAgentHoldings(chainBalances: ChainBalance[]): AgentHoldings[] {
+  const holdings = new Map<string, AgentHoldings>();
+  for (const balance of chainBalances) {
+    const key = `${balance.holder.toLowerCase()}-${balance.asset}`;
+    const totals = holdings.get(key) || { agentAddress: balance.holder, asset: balance.asset, decimals: balance.decimals, aTokens: '0' };
+    if (totals.decimals !== balance.decimals) {
+      throw new ConfigError(
+        `${balance.asset} has ${balance.decimals} decimals on ${balance.chainName} but ${totals.decimals} elsewhere`
+      );
+    }
+    totals.aTokens = (BigInt(totals.aTokens) + BigInt(balance.aTokenBalance)).toString();
+    holdings.set(key, totals);
+  }
+  return [...holdings.values()];
+}
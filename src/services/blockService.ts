@@ -0,0 +1,65 @@
+import { ChainConfig, FinalityPolicy, PinnedBlock } from '../types';
+import { logger } from '../utils/logger';
+import { getProviderPool, toRpcError } from './providerPool';
+import { UpstreamRpcError } from '../utils/errors';
+
+// Describe a finality policy for logs and responses
+export function describeFinality(finality: FinalityPolicy): string {
+  return typeof finality === 'string' ? finality : `${finality.confirmations}-confirmations`;
+}
+
+/**
+ * Resolve the block a chain's reads are pinned to, according to its finality policy
+ */
+export async function resolveSnapshotBlock(chainConfig: ChainConfig): Promise<PinnedBlock> {
+  try {
+    const { finality } = chainConfig;
+
+    // Head and block are read through the same endpoint so the offset is consistent
+    const block = await getProviderPool(chainConfig).execute(async (provider) => {
+      if (typeof finality === 'string') {
+        return provider.getBlock(finality);
+      }
+      const head = await provider.getBlockNumber();
+      return provider.getBlock(Math.max(head - finality.confirmations, 0));
+    }, 'getBlock');
+
+    if (!block || !block.hash) {
+      throw new UpstreamRpcError(`Block not available for finality ${describeFinality(finality)}`);
+    }
+
+    const pinned: PinnedBlock = {
+      chainId: chainConfig.chainId,
+      blockNumber: block.number,
+      blockHash: block.hash,
+      blockTimestamp: block.timestamp,
+      finality: describeFinality(finality),
+    };
+
+    logger.debug(`Pinned ${chainConfig.name} to block ${pinned.blockNumber} (${pinned.finality})`);
+    return pinned;
+  } catch (error) {
+    logger.error(`Failed to resolve snapshot block on ${chainConfig.name}:`, error);
+    throw toRpcError(`Failed to resolve snapshot block on ${chainConfig.name}`, error);
+  }
+}
+
+/**
+ * Check a pinned block is still on the canonical chain after reading from it
+ *
+ * Reads are pinned by number, so a reorg at that height would go unnoticed in the values read.
+ */
+export async function verifyPinnedBlock(chainConfig: ChainConfig, pinned: PinnedBlock): Promise<void> {
+  const block = await getProviderPool(chainConfig)
+    .execute(provider => provider.getBlock(pinned.blockNumber), 'getBlock')
+    .catch(error => {
+      throw toRpcError(`Failed to recheck block ${pinned.blockNumber} on ${chainConfig.name}`, error);
+    });
+
+  if (!block || block.hash !== pinned.blockHash) {
+    throw new UpstreamRpcError(
+      `Block ${pinned.blockNumber} on ${chainConfig.name} was reorged while it was read ` +
+      `(${pinned.blockHash} is now ${block?.hash ?? 'missing'})`
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { ChainConfig, ChainReadStatus, ChainState } from '../types';
+import { resolveSnapshotBlock, verifyPinnedBlock } from './blockService';
+import { fetchChainState } from './balanceFetcher';
+import { logger } from '../utils/logger';
+import { OracleError } from '../utils/errors';
+
+/**
+ * Chain quorum - Reads every chain, tolerating failures on chains that are not required
+ *
+ * A chain whose pinned block is reorged while it is read counts as a failed read.
+ * A required chain that cannot be read fails the whole read. Any other chain falls back to
+ * its last successful read, marked stale, as long as that read is younger than
+ * CHAIN_STALE_MAX_AGE_SECONDS (default 3600); otherwise it is reported unavailable and left out.
+ */
+
+export interface QuorumRead {
+  states: ChainState[];
+  chains: ChainReadStatus[];
+  stale: boolean;
+}
+
+export class ChainUnavailableError extends OracleError {
+  constructor(readonly chains: ChainReadStatus[]) {
+    super(
+      `Required chains unavailable: ${chains.map(chain => `${chain.chainName} (${chain.error})`).join(', ')}`,
+      'CHAINS_UNAVAILABLE',
+      503,
+      true
+    );
+    this.name = 'ChainUnavailableError';
+  }
+
+  get details(): Record<string, unknown> {
+    return { chains: this.chains };
+  }
+}
+
+interface LastKnownGood {
+  state: ChainState;
+  fetchedAt: number;
+}
+
+const DEFAULT_STALE_MAX_AGE_SECONDS = 3600;
+
+// Last successful read per chain and set of agents
+const lastKnownGood: Map<string, LastKnownGood> = new Map();
+
+function getStaleMaxAgeSeconds(): number {
+  const value = parseInt(process.env.CHAIN_STALE_MAX_AGE_SECONDS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_STALE_MAX_AGE_SECONDS;
+}
+
+function cacheKey(chainId: number, agentAddresses: string[]): string {
+  return `${chainId}-${agentAddresses.map(address => address.toLowerCase()).sort().join(',')}`;
+}
+
+/**
+ * Read every chain at its own pinned block, with the aTokens held by each agent address
+ *
+ * isRequired decides which chains must be read fresh; the others may be served stale.
+ */
+export async function readChainsWithQuorum(
+  chains: ChainConfig[],
+  agentAddresses: string[],
+  isRequired: (chain: ChainConfig) => boolean
+): Promise<QuorumRead> {
+  const now = Math.floor(Date.now() / 1000);
+  const maxAge = getStaleMaxAgeSeconds();
+
+  const results = await Promise.all(chains.map(async (chain) => {
+    const required = isRequired(chain);
+    const key = cacheKey(chain.chainId, agentAddresses);
+
+    try {
+      const block = await resolveSnapshotBlock(chain);
+      const state = await fetchChainState(chain, agentAddresses, block);
+      await verifyPinnedBlock(chain, block);
+      lastKnownGood.set(key, { state, fetchedAt: now });
+
+      const status: ChainReadStatus = {
+        chainId: chain.chainId,
+        chainName: chain.name,
+        status: 'fresh',
+        critical: required,
+        blockNumber: block.blockNumber,
+        ageSeconds: 0,
+      };
+      return { state, status };
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const cached = lastKnownGood.get(key);
+      const ageSeconds = cached ? now - cached.fetchedAt : 0;
+
+      if (!required && cached && ageSeconds <= maxAge) {
+        logger.warn(`${chain.name} unavailable, serving last known good data from ${ageSeconds}s ago: ${message}`);
+        const status: ChainReadStatus = {
+          chainId: chain.chainId,
+          chainName: chain.name,
+          status: 'stale',
+          critical: required,
+          blockNumber: cached.state.block.blockNumber,
+          ageSeconds,
+          error: message,
+        };
+        return { state: cached.state, status };
+      }
+
+      logger.warn(`${chain.name} unavailable${required ? ' (required)' : ''}: ${message}`);
+      const status: ChainReadStatus = {
+        chainId: chain.chainId,
+        chainName: chain.name,
+        status: 'unavailable',
+        critical: required,
+        blockNumber: null,
+        ageSeconds,
+        error: message,
+      };
+      return { state: undefined, status };
+    }
+  }));
+
+  const statuses = results.map(result => result.status);
+
+  const missingRequired = statuses.filter(status => status.critical && status.status !== 'fresh');
+  if (missingRequired.length > 0) {
+    throw new ChainUnavailableError(missingRequired);
+  }
+
+  return {
+    states: results.flatMap(result => (result.state ? [result.state] : [])),
+    chains: statuses,
+    stale: statuses.some(status => status.status !== 'fresh'),
+  };
+}
+
+// Forget every last known good read (tests and registry reloads)
+export function clearLastKnownGood(): void {
+  lastKnownGood.clear();
+}
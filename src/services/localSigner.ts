@@ -0,0 +1,113 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { ConfigError, OracleError } from '../utils/errors';
+import {
+  AgentDerivation,
+  ComponentReadiness,
+  CrossChainBalanceSnapshot,
+  CrossChainWithdrawSnapshot,
+  EIP712Domain,
+  MpcSignatureResponse,
+  NearBalance,
+  SignatureSubmission,
+  SnapshotSigner,
+} from '../types';
+import { CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES } from '../config/eip712';
+
+// The key is in memory, so a local signature only fails on a snapshot or domain the oracle built wrong
+function toLocalSigningError(error: unknown): OracleError {
+  return error instanceof OracleError ? error : new ConfigError(`Local signing failed: ${error}`, error);
+}
+
+/**
+ * Local Signer - Signs balance and withdraw snapshots with a private key held by the oracle
+ * For staging and local development only: no NEAR deposit is spent. Every vault shares the
+ * one key, so per-vault MPC paths and key versions are ignored.
+ */
+export class LocalSigner implements SnapshotSigner {
+  readonly backend = 'local' as const;
+  private wallet: ethers.Wallet;
+
+  constructor() {
+    if (!process.env.LOCAL_SIGNER_PRIVATE_KEY) {
+      throw new ConfigError('LOCAL_SIGNER_PRIVATE_KEY required in .env for the local signer backend');
+    }
+
+    this.wallet = new ethers.Wallet(process.env.LOCAL_SIGNER_PRIVATE_KEY);
+
+    logger.warn('Local signer enabled - do not use in production');
+    logger.info(`Agent address: ${this.wallet.address}`);
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async getAgentAddress(): Promise<string> {
+    return this.wallet.address;
+  }
+
+  async getAgentDerivation(): Promise<AgentDerivation | null> {
+    // The key is configured directly, not derived through MPC
+    return null;
+  }
+
+  async checkReadiness(): Promise<ComponentReadiness[]> {
+    // The key is in memory; there is nothing external to check
+    return [];
+  }
+
+  async checkBalance(): Promise<NearBalance | null> {
+    // No NEAR account pays for local signatures
+    return null;
+  }
+
+  async signBalanceSnapshot(
+    snapshot: CrossChainBalanceSnapshot,
+    domain: EIP712Domain
+  ): Promise<MpcSignatureResponse> {
+    try {
+      logger.info('Signing balance snapshot with local key');
+
+      const signature = await this.wallet.signTypedData(domain, CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, {
+        ...snapshot,
+        receiver: ethers.getAddress(snapshot.receiver),
+      });
+
+      return {
+        signature,
+        agentAddress: this.wallet.address,
+      };
+    } catch (error) {
+      logger.error('Failed to sign balance snapshot with local key:', error);
+      throw toLocalSigningError(error);
+    }
+  }
+
+  async signWithdrawSnapshot(
+    snapshot: CrossChainWithdrawSnapshot,
+    domain: EIP712Domain
+  ): Promise<MpcSignatureResponse> {
+    try {
+      logger.info('Signing withdraw snapshot with local key');
+
+      const signature = await this.wallet.signTypedData(domain, CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES, {
+        ...snapshot,
+        owner: ethers.getAddress(snapshot.owner),
+      });
+
+      return {
+        signature,
+        agentAddress: this.wallet.address,
+      };
+    } catch (error) {
+      logger.error('Failed to sign withdraw snapshot with local key:', error);
+      throw toLocalSigningError(error);
+    }
+  }
+
+  async resumeSignature(submission: SignatureSubmission): Promise<MpcSignatureResponse> {
+    // Signing is synchronous; nothing is ever submitted
+    throw new ConfigError(`The local signer cannot resume NEAR transaction ${submission.txHash}`);
+  }
+}
@@ -0,0 +1,141 @@
+import { ethers } from 'ethers';
+import { MULTICALL3_ABI } from '../config/abis';
+import { getChainById } from '../config/chains';
+import { logger } from '../utils/logger';
+import { ChainProviderPool, RpcChain, getProviderPool } from './providerPool';
+
+/**
+ * Multicall - Batches view calls into one Multicall3 aggregate3 call per chain and block
+ *
+ * Calls queued in the same tick for the same chain and block tag are sent together.
+ * Each call resolves or rejects on its own, with the same errors a direct contract call
+ * would raise (BAD_DATA for empty return data, CALL_EXCEPTION for reverts).
+ */
+
+// Canonical Multicall3 deployment (same address on every EVM chain)
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+type BlockTag = number | 'latest';
+
+interface PendingCall {
+  target: string;
+  iface: ethers.Interface;
+  functionName: string;
+  callData: string;
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+}
+
+interface PendingBatch {
+  chain: RpcChain;
+  blockTag: BlockTag;
+  calls: PendingCall[];
+}
+
+const pendingBatches: Map<string, PendingBatch> = new Map();
+
+function getMulticallAddress(chainId: number): string {
+  return getChainById(chainId)?.multicall3Address || MULTICALL3_ADDRESS;
+}
+
+// Decode a call's return data, unwrapping single return values
+function decodeResult(call: PendingCall, returnData: string): any {
+  const result = call.iface.decodeFunctionResult(call.functionName, returnData);
+  return result.length === 1 ? result[0] : result;
+}
+
+function settleCall(call: PendingCall, success: boolean, returnData: string): void {
+  try {
+    if (!success) {
+      throw call.iface.makeError(returnData, { to: call.target, data: call.callData });
+    }
+    call.resolve(decodeResult(call, returnData));
+  } catch (error) {
+    call.reject(error);
+  }
+}
+
+// Send calls one by one (when Multicall3 is not available on a chain)
+async function executeIndividually(pool: ChainProviderPool, batch: PendingBatch): Promise<void> {
+  await Promise.all(batch.calls.map(async (call) => {
+    try {
+      const returnData = await pool.execute(
+        provider => provider.call({ to: call.target, data: call.callData, blockTag: batch.blockTag }),
+        call.functionName
+      );
+      settleCall(call, true, returnData);
+    } catch (error: any) {
+      if (error.code === 'CALL_EXCEPTION' && error.data) {
+        settleCall(call, false, error.data);
+      } else {
+        call.reject(error);
+      }
+    }
+  }));
+}
+
+async function executeBatch(batch: PendingBatch): Promise<void> {
+  const { chain, blockTag, calls } = batch;
+  const pool = getProviderPool(chain);
+
+  if (calls.length === 1) {
+    return executeIndividually(pool, batch);
+  }
+
+  const multicallAddress = getMulticallAddress(chain.chainId);
+
+  logger.debug(`Multicall: ${calls.length} calls on chain ${chain.chainId} at block ${blockTag}`);
+
+  let results: Array<{ success: boolean; returnData: string }>;
+  try {
+    results = await pool.execute(
+      provider => new ethers.Contract(multicallAddress, MULTICALL3_ABI, provider).aggregate3.staticCall(
+        calls.map(call => ({ target: call.target, allowFailure: true, callData: call.callData })),
+        { blockTag }
+      ),
+      'aggregate3'
+    );
+  } catch (error: any) {
+    // Multicall3 not deployed (empty data) or reverted as a whole: fall back to direct calls
+    if (error.code === 'BAD_DATA' || error.code === 'CALL_EXCEPTION') {
+      logger.warn(`Multicall3 unavailable on chain ${chain.chainId} (${multicallAddress}), sending calls individually`);
+      return executeIndividually(pool, batch);
+    }
+    calls.forEach(call => call.reject(error));
+    return;
+  }
+
+  results.forEach((result, index) => settleCall(calls[index], result.success, result.returnData));
+}
+
+/**
+ * Queue a view call to be sent in the next Multicall3 batch for its chain and block
+ */
+export function multicallRead<T = any>(
+  chain: RpcChain,
+  target: string,
+  abi: ethers.InterfaceAbi,
+  functionName: string,
+  args: any[] = [],
+  blockTag: BlockTag = 'latest'
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const iface = new ethers.Interface(abi);
+    const callData = iface.encodeFunctionData(functionName, args);
+
+    const key = `${chain.chainId}-${blockTag}`;
+    let batch = pendingBatches.get(key);
+    if (!batch) {
+      batch = { chain, blockTag, calls: [] };
+      pendingBatches.set(key, batch);
+
+      // Flush once every call queued in this tick has joined the batch
+      setImmediate(() => {
+        pendingBatches.delete(key);
+        executeBatch(batch!).catch(error => batch!.calls.forEach(call => call.reject(error)));
+      });
+    }
+
+    batch.calls.push({ target, iface, functionName, callData, resolve, reject });
+  });
+}
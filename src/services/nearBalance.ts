@@ -0,0 +1,138 @@
+import { providers, utils } from 'near-api-js';
+import { NearBalance } from '../types';
+import { logger } from '../utils/logger';
+import { sendAlert } from '../utils/alerts';
+import { ConfigError, PolicyError } from '../utils/errors';
+import { nearAccountBalance, toNear } from '../utils/metrics';
+
+/**
+ * NEAR balance - Watches the spendable balance of the account paying for signing transactions
+ *
+ * Every MPC signature costs a deposit plus gas. Below NEAR_BALANCE_WARN_NEAR (default 5) an alert
+ * is raised; below NEAR_BALANCE_MIN_NEAR (default 1), or when the next deposit would take the
+ * balance there, signing is refused with NEAR_BALANCE_LOW. The balance is read before every
+ * signature and every NEAR_BALANCE_CHECK_INTERVAL_SECONDS (default 60, 0 disables) in between.
+ */
+
+export class NearBalanceLowError extends PolicyError {
+  constructor(readonly nearBalance: NearBalance, deposit: bigint) {
+    super(
+      `NEAR account ${nearBalance.accountId} has ${formatNear(nearBalance.balance)} NEAR available; ` +
+      `signing with a ${formatNear(deposit)} NEAR deposit would leave less than ${formatNear(nearBalance.minBalance)} NEAR`,
+      'NEAR_BALANCE_LOW',
+      503,
+      false
+    );
+    this.name = 'NearBalanceLowError';
+  }
+
+  get details(): Record<string, unknown> {
+    return { nearBalance: this.nearBalance };
+  }
+}
+
+// Storage staking: yoctoNEAR locked per byte of account storage
+const STORAGE_BYTE_COST = 10n ** 19n;
+
+// Latest status per account, to alert on changes only
+const lastStatus = new Map<string, NearBalance['status']>();
+
+export function formatNear(yocto: string | bigint): string {
+  return utils.format.formatNearAmount(yocto.toString(), 4);
+}
+
+function parseNearEnv(name: string, fallback: string): bigint {
+  const value = process.env[name] || fallback;
+  const yocto = /^\d+(\.\d+)?$/.test(value) ? utils.format.parseNearAmount(value) : null;
+  if (yocto === null) {
+    throw new ConfigError(`Invalid ${name}: ${value}. Expected an amount of NEAR`);
+  }
+  return BigInt(yocto);
+}
+
+export function getNearBalanceThresholds(): { warnBelow: bigint; minBalance: bigint } {
+  return {
+    warnBelow: parseNearEnv('NEAR_BALANCE_WARN_NEAR', '5'),
+    minBalance: parseNearEnv('NEAR_BALANCE_MIN_NEAR', '1'),
+  };
+}
+
+/**
+ * Read an account's spendable balance, update its gauge and alert when it drops below a threshold
+ */
+export async function checkNearBalance(provider: providers.JsonRpcProvider, accountId: string): Promise<NearBalance> {
+  const account: any = await provider.query({ request_type: 'view_account', finality: 'final', account_id: accountId });
+
+  // Storage staking is taken from the unlocked amount once staking no longer covers it
+  const storageLocked = BigInt(account.storage_usage ?? 0) * STORAGE_BYTE_COST;
+  const locked = BigInt(account.locked ?? 0);
+  const available = BigInt(account.amount) - (storageLocked > locked ? storageLocked - locked : 0n);
+
+  const { warnBelow, minBalance } = getNearBalanceThresholds();
+  const status = available < minBalance ? 'insufficient' : available < warnBelow ? 'low' : 'ok';
+  const nearBalance: NearBalance = {
+    accountId,
+    balance: available.toString(),
+    status,
+    warnBelow: warnBelow.toString(),
+    minBalance: minBalance.toString(),
+    checkedAt: new Date().toISOString(),
+  };
+  nearAccountBalance.set({ account: accountId }, toNear(available));
+
+  const previous = lastStatus.get(accountId);
+  lastStatus.set(accountId, status);
+  if (status !== 'ok' && status !== previous) {
+    const threshold = status === 'low' ? `${formatNear(warnBelow)} NEAR` : `${formatNear(minBalance)} NEAR; signing is refused`;
+    sendAlert(
+      'near_balance_low',
+      `NEAR account ${accountId} has ${formatNear(available)} NEAR available, below ${threshold}`,
+      { ...nearBalance }
+    );
+  } else if (status === 'ok' && previous && previous !== 'ok') {
+    logger.info(`NEAR account ${accountId} is funded again: ${formatNear(available)} NEAR available`);
+  }
+
+  return nearBalance;
+}
+
+/**
+ * Refuse to sign when paying the deposit would take the account below NEAR_BALANCE_MIN_NEAR
+ */
+export async function requireSigningBalance(
+  provider: providers.JsonRpcProvider,
+  accountId: string,
+  deposit: bigint
+): Promise<void> {
+  const nearBalance = await checkNearBalance(provider, accountId);
+  if (BigInt(nearBalance.balance) - deposit < BigInt(nearBalance.minBalance)) {
+    throw new NearBalanceLowError(nearBalance, deposit);
+  }
+}
+
+function getCheckIntervalSeconds(): number {
+  const value = parseInt(process.env.NEAR_BALANCE_CHECK_INTERVAL_SECONDS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : 60;
+}
+
+/**
+ * Check the signing account's balance in the background
+ *
+ * Returns a function that stops the monitor, or null if it is disabled.
+ */
+export function startNearBalanceMonitor(checkBalance: () => Promise<unknown>): (() => void) | null {
+  const intervalSeconds = getCheckIntervalSeconds();
+  if (intervalSeconds === 0) {
+    logger.info('NEAR balance monitor disabled');
+    return null;
+  }
+
+  const check = () => {
+    checkBalance().catch(error => logger.warn('Failed to check NEAR balance:', error));
+  };
+
+  logger.info(`Checking NEAR balance every ${intervalSeconds}s`);
+  const timer = setInterval(check, intervalSeconds * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
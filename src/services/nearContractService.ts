@@ -1,55 +1,146 @@
-import { connect, keyStores, KeyPair } from 'near-api-js';
+import { KeyPair, providers } from 'near-api-js';
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
-import { CrossChainBalanceSnapshot } from './nearMpcService';
-
-export interface MpcSignatureResponse {
-  signature: string;
-  agentAddress: string;
-}
+import { ConfigError, NearSigningError, VerificationError, toNearSigningError } from '../utils/errors';
+import {
+  AgentDerivation,
+  AgentKey,
+  ComponentReadiness,
+  CrossChainBalanceSnapshot,
+  CrossChainWithdrawSnapshot,
+  EIP712Domain,
+  MpcSignatureResponse,
+  NearBalance,
+  SignatureSubmission,
+  SnapshotSigner,
+} from '../types';
+import { CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES } from '../config/eip712';
+import { recordNearTransaction } from '../utils/metrics';
+import { withSpan } from '../utils/tracing';
+import { deriveEvmAddress } from '../utils/mpcKdf';
+import { checkAccessKey, checkMpcRootKey, checkNearRpc, checkSigningBalance, fetchMpcRootPublicKey } from './nearHealth';
+import { checkNearBalance, requireSigningBalance } from './nearBalance';
+import { sendFunctionCall, waitForTransaction } from './nearTransactions';
+
+const SIGN_METHOD = 'build_and_sign_crosschain_balance_snapshot_tx';
+const SIGN_GAS = 300000000000000n;
 
 /**
  * NEAR Contract Service - Calls rebalancer-abcdefghij-57.testnet for signing
  * Uses build_and_sign_crosschain_balance_snapshot_tx which computes EIP-712 digest on-chain
+ *
+ * The contract requests MPC signatures as itself, so the agent address is derived from the
+ * MPC root key for NEAR_CONTRACT_ID and NEAR_CONTRACT_MPC_PATH (default ethereum-1).
+ * AGENT_ADDRESS, when set, must match the derived address. The contract always signs with that
+ * path and key version 0, so vaults configured with another key need SIGNER_BACKEND=mpc.
+ * Like the MPC backend, the call is reported through onSubmitted before it is sent and can be
+ * waited for again with resumeSignature().
  */
-export class NearContractService {
+export class NearContractService implements SnapshotSigner {
+  readonly backend = 'contract' as const;
+  private provider: providers.JsonRpcProvider;
   private nearContractId: string;
   private nearAccountId: string;
-  private agentAddress: string = '0x20f2747bbc52453ac0774b5b2fe0e28dc6637f30';
-  private keyStore: keyStores.InMemoryKeyStore | null = null;
+  private mpcContractId: string = process.env.MPC_CONTRACT_ID || 'v1.signer-prod.testnet';
+  private path: string = process.env.NEAR_CONTRACT_MPC_PATH || 'ethereum-1';
+  private rootPublicKey: string | null = null;
+  private agentAddress: string | null = null;
+  private keyPair: KeyPair | null = null;
   private isInitialized: boolean = false;
 
   constructor() {
     // Load NEAR credentials from environment
     if (!process.env.NEAR_ACCOUNT_ID || !process.env.NEAR_PRIVATE_KEY) {
-      throw new Error('NEAR credentials required: Set NEAR_ACCOUNT_ID and NEAR_PRIVATE_KEY in .env');
+      throw new ConfigError('NEAR credentials required: Set NEAR_ACCOUNT_ID and NEAR_PRIVATE_KEY in .env');
     }
 
     if (!process.env.NEAR_CONTRACT_ID) {
-      throw new Error('NEAR_CONTRACT_ID required in .env');
+      throw new ConfigError('NEAR_CONTRACT_ID required in .env');
     }
 
     this.nearAccountId = process.env.NEAR_ACCOUNT_ID;
     this.nearContractId = process.env.NEAR_CONTRACT_ID;
+    this.provider = new providers.JsonRpcProvider({ url: process.env.NEAR_RPC_URL || 'https://rpc.testnet.near.org' });
 
     logger.info(`NEAR contract configured: ${this.nearContractId}`);
-    logger.info(`Agent address: ${this.agentAddress}`);
   }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
-    // Set up key store
-    this.keyStore = new keyStores.InMemoryKeyStore();
-    const keyPair = KeyPair.fromString(process.env.NEAR_PRIVATE_KEY!);
-    await this.keyStore.setKey('testnet', this.nearAccountId, keyPair);
+    this.keyPair = KeyPair.fromString(process.env.NEAR_PRIVATE_KEY!);
+
+    // Derive the agent address the contract signs as
+    try {
+      this.rootPublicKey = await fetchMpcRootPublicKey(this.provider, this.mpcContractId);
+    } catch (error) {
+      throw toNearSigningError('Failed to fetch MPC root public key', error);
+    }
+    const agentAddress = deriveEvmAddress(this.rootPublicKey, this.nearContractId, this.path);
+    logger.info(`Derived agent address: ${agentAddress}`);
+    logger.info(`   From: ${this.nearContractId} + ${this.path} on ${this.mpcContractId}`);
+
+    const configured = process.env.AGENT_ADDRESS;
+    if (configured && configured.toLowerCase() !== agentAddress.toLowerCase()) {
+      throw new ConfigError(
+        `AGENT_ADDRESS ${configured} does not match the address derived for ${this.nearContractId} (${agentAddress}); ` +
+        'check NEAR_CONTRACT_ID, NEAR_CONTRACT_MPC_PATH and MPC_CONTRACT_ID'
+      );
+    }
 
+    this.agentAddress = agentAddress;
     this.isInitialized = true;
     logger.info(`NEAR Contract Service ready. Agent: ${this.agentAddress}`);
   }
 
-  async getAgentAddress(): Promise<string> {
-    return this.agentAddress;
+  // The contract chooses the key it signs with; a vault may only ask for that one
+  private requireContractKey(key: AgentKey): void {
+    if ((key.path !== undefined && key.path !== this.path) || (key.keyVersion !== undefined && key.keyVersion !== 0)) {
+      throw new ConfigError(
+        `${this.nearContractId} signs with path ${this.path} and key version 0, not ` +
+        `${key.path ?? this.path} and key version ${key.keyVersion ?? 0}; use SIGNER_BACKEND=mpc for per-vault keys`
+      );
+    }
+  }
+
+  async getAgentAddress(key: AgentKey = {}): Promise<string> {
+    this.requireContractKey(key);
+    await this.initialize();
+    return this.agentAddress!;
+  }
+
+  async getAgentDerivation(key: AgentKey = {}): Promise<AgentDerivation> {
+    this.requireContractKey(key);
+    await this.initialize();
+    return {
+      mpcContractId: this.mpcContractId,
+      rootPublicKey: `secp256k1:${this.rootPublicKey}`,
+      predecessorId: this.nearContractId,
+      path: this.path,
+      keyVersion: 0,
+    };
+  }
+
+  // NEAR RPC, the signing key's permission to call the rebalancer contract, the MPC root key and balance
+  async checkReadiness(): Promise<ComponentReadiness[]> {
+    return Promise.all([
+      checkNearRpc(this.provider),
+      checkAccessKey(this.provider, this.nearAccountId, KeyPair.fromString(process.env.NEAR_PRIVATE_KEY!), {
+        receiverId: this.nearContractId,
+        methodName: SIGN_METHOD,
+        deposit: 0n,
+      }),
+      checkMpcRootKey(this.provider, this.mpcContractId, async () => {
+        await this.initialize();
+        return this.rootPublicKey!;
+      }),
+      checkSigningBalance(this.provider, this.nearAccountId, async () => 0n),
+    ]);
+  }
+
+  // The contract pays the MPC deposit; the account only pays gas
+  async checkBalance(): Promise<NearBalance> {
+    return checkNearBalance(this.provider, this.nearAccountId);
   }
 
   /**
@@ -58,17 +149,20 @@ export class NearContractService {
    */
   async signBalanceSnapshot(
     snapshot: CrossChainBalanceSnapshot,
-    vaultAddress: string,
-    chainId: number
+    domain: EIP712Domain,
+    key: AgentKey = {},
+    onSubmitted?: (submission: SignatureSubmission) => void
   ): Promise<MpcSignatureResponse> {
     try {
+      this.requireContractKey(key);
       if (!this.isInitialized) {
         await this.initialize();
       }
 
       logger.info('Calling NEAR contract to sign balance snapshot...');
-      logger.info(`  Vault: ${vaultAddress}`);
-      logger.info(`  Chain ID: ${chainId}`);
+      logger.info(`  Vault: ${domain.verifyingContract}`);
+      logger.info(`  Chain ID: ${domain.chainId}`);
+      logger.info(`  Domain: ${domain.name} v${domain.version}`);
       logger.info(`  Balance: ${snapshot.balance}`);
       logger.info(`  Nonce: ${snapshot.nonce}`);
       logger.info(`  Deadline: ${snapshot.deadline}`);
@@ -78,129 +172,154 @@ export class NearContractService {
       // Build args in SnapshotDigestArgs format
       // The contract computes the EIP-712 digest on-chain
       // Note: Rust u128/u64 expect JSON numbers, String fields expect JSON strings
+      // bigints are sent as exact JSON numbers; 18-decimal balances exceed 2^53
       const args = {
         args: {
-          balance: parseInt(snapshot.balance),      // u128 - JSON number
-          chain_id: chainId,                        // u64 - JSON number
-          verifying_contract: vaultAddress,         // String
-          nonce: parseInt(snapshot.nonce),          // u64 - JSON number
-          deadline: parseInt(snapshot.deadline),    // u64 - JSON number
+          balance: BigInt(snapshot.balance),        // u128 - JSON number
+          chain_id: domain.chainId,                 // u64 - JSON number
+          verifying_contract: domain.verifyingContract, // String
+          nonce: BigInt(snapshot.nonce),            // u64 - JSON number
+          deadline: BigInt(snapshot.deadline),      // u64 - JSON number
           assets: snapshot.assets,                  // String (U256 as string)
           receiver: snapshot.receiver,              // String (address)
         },
         callback_gas_tgas: 50,                      // u64 - JSON number
       };
 
-      logger.info(`Calling ${this.nearContractId}.build_and_sign_crosschain_balance_snapshot_tx...`);
-
-      // Connect to NEAR
-      const near = await connect({
-        networkId: 'testnet',
-        keyStore: this.keyStore!,
-        nodeUrl: process.env.NEAR_RPC_URL || 'https://rpc.testnet.near.org',
-      });
-
-      const account = await near.account(this.nearAccountId);
-
-      // Call the contract
-      const result: any = await account.functionCall({
-        contractId: this.nearContractId,
-        methodName: 'build_and_sign_crosschain_balance_snapshot_tx',
-        args,
-        gas: '300000000000000' as any,
-        attachedDeposit: '0' as any,
+      // Compute the digest locally to verify the signature the contract returns
+      const digest = ethers.TypedDataEncoder.hash(domain, CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, {
+        balance: snapshot.balance,
+        nonce: snapshot.nonce,
+        deadline: snapshot.deadline,
+        assets: snapshot.assets,
+        receiver: snapshot.receiver,
       });
 
-      logger.info('NEAR transaction completed');
+      await requireSigningBalance(this.provider, this.nearAccountId, 0n);
+      logger.info(`Calling ${this.nearContractId}.${SIGN_METHOD}...`);
+
+      // Call the contract, waiting for the callback until the snapshot expires
+      const deadline = Number(snapshot.deadline);
+      const agentAddress = this.agentAddress!;
+      const attributes = { 'near.contract': this.nearContractId, 'near.method': SIGN_METHOD, 'near.signer': this.nearAccountId };
+      const result: any = await withSpan(`NEAR ${SIGN_METHOD}`, 'client', attributes, span => sendFunctionCall(
+        this.provider,
+        this.nearAccountId,
+        this.keyPair!,
+        { receiverId: this.nearContractId, methodName: SIGN_METHOD, args, gas: SIGN_GAS, deposit: 0n },
+        tx => {
+          span.setAttribute('near.transaction_hash', tx.txHash);
+          onSubmitted?.({ ...tx, digest, agentAddress, deadline, deposit: '0' });
+        },
+        deadline * 1000
+      ));
 
-      // The result should contain the return value in status.SuccessValue
-      if (!result.status?.SuccessValue) {
-        logger.error('Transaction result:', JSON.stringify(result, null, 2));
-        throw new Error('No SuccessValue in NEAR transaction result');
-      }
+      // The contract builds the digest itself, so a vault with a different domain fails verification
+      return this.parseSignResult(result, digest, agentAddress, ` (vault domain ${domain.name} v${domain.version})`);
+    } catch (error) {
+      logger.error('Failed to sign balance snapshot with NEAR contract:', error);
+      throw toNearSigningError('NEAR contract signing failed', error);
+    }
+  }
 
-      // Parse the signature from the return value
-      // The callback returns Vec<u8> with 65 bytes: [r(32) + s(32) + v(1)]
-      // NEAR RPC JSON-serializes Vec<u8> as a string like "[10,125,117,...]"
-      const returnValue = Buffer.from(result.status.SuccessValue, 'base64');
-      const returnString = returnValue.toString('utf8');
-      logger.info(`Callback returned string: ${returnString.slice(0, 50)}...`);
-
-      // Parse the JSON array of bytes
-      const signatureArray = JSON.parse(returnString);
-      if (!Array.isArray(signatureArray)) {
-        throw new Error('Expected signature to be an array of bytes');
-      }
+  /**
+   * Wait for a signing call submitted earlier, possibly by a previous run of the oracle
+   */
+  async resumeSignature(submission: SignatureSubmission): Promise<MpcSignatureResponse> {
+    try {
+      logger.info(`Waiting for ${this.nearContractId}.${SIGN_METHOD} transaction ${submission.txHash}`);
+      const attributes = {
+        'near.contract': this.nearContractId,
+        'near.method': SIGN_METHOD,
+        'near.signer': this.nearAccountId,
+        'near.transaction_hash': submission.txHash,
+      };
+      const result: any = await withSpan(`NEAR ${SIGN_METHOD}`, 'client', attributes, () =>
+        waitForTransaction(this.provider, submission, submission.deadline * 1000)
+      );
+      return this.parseSignResult(result, submission.digest, submission.agentAddress);
+    } catch (error) {
+      logger.error('Failed to resume NEAR contract signature:', error);
+      throw toNearSigningError('NEAR contract signing failed', error);
+    }
+  }
 
-      const signatureBytes = Buffer.from(signatureArray);
+  // Turn the contract's callback result into an Ethereum signature that recovers to the agent address
+  private parseSignResult(result: any, digest: string, agentAddress: string, context = ''): MpcSignatureResponse {
+    logger.info('NEAR transaction completed');
+    const nearCost = recordNearTransaction(this.backend, this.nearContractId, 0n, result);
 
-      if (signatureBytes.length !== 65) {
-        throw new Error(`Invalid signature length: ${signatureBytes.length}, expected 65`);
-      }
+    // The result should contain the return value in status.SuccessValue
+    if (!result.status?.SuccessValue) {
+      logger.error('Transaction result:', JSON.stringify(result, null, 2));
+      throw new NearSigningError('No SuccessValue in NEAR transaction result');
+    }
 
-      // Extract r, s, v
-      // The contract returns v as recovery_id (0 or 1), we need to convert to Ethereum format (27 or 28)
-      const r = signatureBytes.subarray(0, 32);
-      const s = signatureBytes.subarray(32, 64);
-      const recoveryId = signatureBytes[64];
-      const v = recoveryId + 27; // Convert recovery_id to Ethereum v
-
-      logger.info(`Signature components:`);
-      logger.info(`  r: ${ethers.hexlify(r)}`);
-      logger.info(`  s: ${ethers.hexlify(s)}`);
-      logger.info(`  recovery_id: ${recoveryId} -> v: ${v}`);
-
-      // Concatenate into Ethereum signature format with corrected v
-      const signature65 = ethers.hexlify(ethers.concat([r, s, new Uint8Array([v])]));
-      logger.info(`Final signature (65 bytes): ${signature65}`);
-
-      // Compute the digest locally for verification purposes
-      const domain = {
-        name: 'AaveVault',
-        version: '1',
-        chainId: chainId,
-        verifyingContract: vaultAddress,
-      };
+    // Parse the signature from the return value
+    // The callback returns Vec<u8> with 65 bytes: [r(32) + s(32) + v(1)]
+    // NEAR RPC JSON-serializes Vec<u8> as a string like "[10,125,117,...]"
+    const returnValue = Buffer.from(result.status.SuccessValue, 'base64');
+    const returnString = returnValue.toString('utf8');
+    logger.info(`Callback returned string: ${returnString.slice(0, 50)}...`);
+
+    // Parse the JSON array of bytes
+    const signatureArray = JSON.parse(returnString);
+    if (!Array.isArray(signatureArray)) {
+      throw new NearSigningError('Expected signature to be an array of bytes');
+    }
 
-      const types = {
-        CrossChainBalanceSnapshot: [
-          { name: 'balance', type: 'uint256' },
-          { name: 'nonce', type: 'uint256' },
-          { name: 'deadline', type: 'uint256' },
-          { name: 'assets', type: 'uint256' },
-          { name: 'receiver', type: 'address' },
-        ],
-      };
+    const signatureBytes = Buffer.from(signatureArray);
 
-      const digest = ethers.TypedDataEncoder.hash(domain, types, {
-        balance: snapshot.balance,
-        nonce: snapshot.nonce,
-        deadline: snapshot.deadline,
-        assets: snapshot.assets,
-        receiver: snapshot.receiver,
-      });
+    if (signatureBytes.length !== 65) {
+      throw new NearSigningError(`Invalid signature length: ${signatureBytes.length}, expected 65`);
+    }
 
-      // Verify the signature
-      const recoveredAddress = ethers.recoverAddress(digest, signature65);
-      logger.info(`Recovered signer address: ${recoveredAddress}`);
-      logger.info(`Expected agent address: ${this.agentAddress}`);
+    // Extract r, s, v
+    // The contract returns v as recovery_id (0 or 1), we need to convert to Ethereum format (27 or 28)
+    const r = signatureBytes.subarray(0, 32);
+    const s = signatureBytes.subarray(32, 64);
+    const recoveryId = signatureBytes[64];
+    const v = recoveryId + 27; // Convert recovery_id to Ethereum v
+
+    logger.info(`Signature components:`);
+    logger.info(`  r: ${ethers.hexlify(r)}`);
+    logger.info(`  s: ${ethers.hexlify(s)}`);
+    logger.info(`  recovery_id: ${recoveryId} -> v: ${v}`);
+
+    // Concatenate into Ethereum signature format with corrected v
+    const signature65 = ethers.hexlify(ethers.concat([r, s, new Uint8Array([v])]));
+    logger.info(`Final signature (65 bytes): ${signature65}`);
+
+    // Verify the signature
+    const recoveredAddress = ethers.recoverAddress(digest, signature65);
+    logger.info(`Recovered signer address: ${recoveredAddress}`);
+    logger.info(`Expected agent address: ${agentAddress}`);
+
+    if (recoveredAddress.toLowerCase() !== agentAddress.toLowerCase()) {
+      throw new VerificationError(
+        `Signature verification failed! Recovered ${recoveredAddress}, expected ${agentAddress}${context}`
+      );
+    }
 
-      if (recoveredAddress.toLowerCase() !== this.agentAddress.toLowerCase()) {
-        throw new Error(
-          `Signature verification failed! Recovered ${recoveredAddress}, expected ${this.agentAddress}`
-        );
-      }
+    logger.info('✅ Signature verified successfully!');
 
-      logger.info('✅ Signature verified successfully!');
+    return {
+      signature: signature65,
+      agentAddress,
+      nearCost,
+    };
+  }
 
-      return {
-        signature: signature65,
-        agentAddress: this.agentAddress,
-      };
-    } catch (error) {
-      logger.error('Failed to sign balance snapshot with NEAR contract:', error);
-      throw error;
-    }
+  /**
+   * The rebalancer contract only builds deposit snapshot digests
+   */
+  async signWithdrawSnapshot(
+    snapshot: CrossChainWithdrawSnapshot,
+    domain: EIP712Domain
+  ): Promise<MpcSignatureResponse> {
+    throw new ConfigError(
+      `${this.nearContractId} cannot sign withdraw snapshots; use SIGNER_BACKEND=mpc (or local for development)`
+    );
   }
 }
 
@@ -0,0 +1,140 @@
+import { KeyPair, providers } from 'near-api-js';
+import { ComponentReadiness } from '../types';
+import { CheckFailure, checkComponent, checkHeadAge } from '../utils/readiness';
+import { checkNearBalance, formatNear } from './nearBalance';
+
+/**
+ * NEAR health - MPC contract lookups and readiness checks shared by the NEAR signer backends
+ */
+
+export interface SigningCall {
+  receiverId: string; // Contract the signer calls
+  methodName: string;
+  deposit: bigint;    // yoctoNEAR attached to each call
+}
+
+/**
+ * Fetch the MPC contract's root public key, without the secp256k1: prefix
+ *
+ * Key versions above 0 are the contract's later domains and are asked for by domain_id.
+ */
+export async function fetchMpcRootPublicKey(
+  provider: providers.JsonRpcProvider,
+  mpcContractId: string,
+  keyVersion = 0
+): Promise<string> {
+  const args = keyVersion > 0 ? { domain_id: keyVersion } : {};
+  const result: any = await provider.query({
+    request_type: 'call_function',
+    finality: 'final',
+    account_id: mpcContractId,
+    method_name: 'public_key',
+    args_base64: Buffer.from(JSON.stringify(args)).toString('base64'),
+  });
+
+  const publicKeyStr = JSON.parse(Buffer.from(result.result).toString());
+  return publicKeyStr.replace('secp256k1:', '');
+}
+
+/**
+ * Deposit the MPC contract currently asks for with each sign() call, in yoctoNEAR
+ */
+export async function fetchSignatureDeposit(provider: providers.JsonRpcProvider, mpcContractId: string): Promise<bigint> {
+  const result: any = await provider.query({
+    request_type: 'call_function',
+    finality: 'final',
+    account_id: mpcContractId,
+    method_name: 'experimental_signature_deposit',
+    args_base64: Buffer.from('{}').toString('base64'),
+  });
+
+  return BigInt(JSON.parse(Buffer.from(result.result).toString()));
+}
+
+/**
+ * The MPC root public key is still the one the agent address was derived from
+ */
+export function checkMpcRootKey(
+  provider: providers.JsonRpcProvider,
+  mpcContractId: string,
+  startupRootPublicKey: () => Promise<string>
+): Promise<ComponentReadiness> {
+  return checkComponent('mpc-root-key', true, async () => {
+    const [expected, rootPublicKey] = await Promise.all([startupRootPublicKey(), fetchMpcRootPublicKey(provider, mpcContractId)]);
+    const details = { mpcContractId, rootPublicKey: `secp256k1:${rootPublicKey}` };
+    if (rootPublicKey !== expected) {
+      throw new CheckFailure('MPC root public key changed since startup; the derived agent address is stale', details);
+    }
+    return { details };
+  });
+}
+
+/**
+ * The NEAR RPC answers and its final block is fresh
+ */
+export function checkNearRpc(provider: providers.JsonRpcProvider): Promise<ComponentReadiness> {
+  return checkComponent('near-rpc', true, async () => {
+    const block: any = await provider.block({ finality: 'final' });
+    const timestampNs = BigInt(block.header.timestamp_nanosec ?? block.header.timestamp);
+    return checkHeadAge(Number(timestampNs / 1_000_000_000n), { blockHeight: block.header.height });
+  });
+}
+
+/**
+ * The signing key is still an access key of the account and may make the signing call
+ *
+ * Function-call access keys are limited to one receiver and some methods, and can never
+ * attach a deposit.
+ */
+export function checkAccessKey(
+  provider: providers.JsonRpcProvider,
+  accountId: string,
+  keyPair: KeyPair,
+  call: SigningCall
+): Promise<ComponentReadiness> {
+  return checkComponent('near-access-key', true, async () => {
+    const publicKey = keyPair.getPublicKey().toString();
+    const accessKey: any = await provider.query({
+      request_type: 'view_access_key',
+      finality: 'final',
+      account_id: accountId,
+      public_key: publicKey,
+    });
+    const details: Record<string, unknown> = { accountId, publicKey };
+
+    if (accessKey.permission === 'FullAccess') {
+      return { details: { ...details, permission: 'FullAccess' } };
+    }
+
+    const { receiver_id: receiverId, method_names: methodNames, allowance } = accessKey.permission.FunctionCall;
+    Object.assign(details, { permission: 'FunctionCall', receiverId, methodNames, allowance });
+    if (receiverId !== call.receiverId) {
+      throw new CheckFailure(`access key may only call ${receiverId}, not ${call.receiverId}`, details);
+    }
+    if (methodNames.length > 0 && !methodNames.includes(call.methodName)) {
+      throw new CheckFailure(`access key may not call ${call.methodName}`, details);
+    }
+    if (call.deposit > 0n) {
+      throw new CheckFailure(`function-call access keys cannot attach the deposit ${call.methodName} requires`, details);
+    }
+    return { details };
+  });
+}
+
+/**
+ * The signing account can pay for the next signing call without dropping below NEAR_BALANCE_MIN_NEAR
+ */
+export function checkSigningBalance(
+  provider: providers.JsonRpcProvider,
+  accountId: string,
+  deposit: () => Promise<bigint>
+): Promise<ComponentReadiness> {
+  return checkComponent('near-balance', true, async () => {
+    const [nearBalance, nextDeposit] = await Promise.all([checkNearBalance(provider, accountId), deposit()]);
+    const details = { ...nearBalance, deposit: nextDeposit.toString() };
+    if (BigInt(nearBalance.balance) - nextDeposit < BigInt(nearBalance.minBalance)) {
+      throw new CheckFailure(`balance ${formatNear(nearBalance.balance)} NEAR is below the signing minimum`, details);
+    }
+    return { details };
+  });
+}
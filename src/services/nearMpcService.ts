@@ -2,37 +2,60 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
-import { connect, keyStores, KeyPair, Contract, providers, transactions, utils } from 'near-api-js';
+import { KeyPair, providers } from 'near-api-js';
 import { ethers } from 'ethers';
-import * as crypto from 'crypto';
 import { logger } from '../utils/logger';
-import BN from 'bn.js';
-import * as secp256k1 from 'secp256k1';
-import { SHA3 } from 'sha3';
-import { keccak256 } from 'js-sha3';
-
-export interface CrossChainBalanceSnapshot {
-  balance: string;
-  nonce: string;
-  deadline: string;
-  assets: string;
-  receiver: string;
-}
-
-export interface MpcSignatureResponse {
-  signature: string;
-  agentAddress: string;
-}
+import { ConfigError, NearSigningError, VerificationError, toNearSigningError } from '../utils/errors';
+import { deriveEvmAddress } from '../utils/mpcKdf';
+import {
+  AgentDerivation,
+  AgentKey,
+  ComponentReadiness,
+  CrossChainBalanceSnapshot,
+  CrossChainWithdrawSnapshot,
+  EIP712Domain,
+  MpcSignatureResponse,
+  NearBalance,
+  SignatureSubmission,
+  SnapshotSigner,
+} from '../types';
+import { CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES } from '../config/eip712';
+import { recordNearTransaction } from '../utils/metrics';
+import { withSpan } from '../utils/tracing';
+import {
+  checkAccessKey,
+  checkMpcRootKey,
+  checkNearRpc,
+  checkSigningBalance,
+  fetchMpcRootPublicKey,
+  fetchSignatureDeposit,
+} from './nearHealth';
+import { checkNearBalance, formatNear, requireSigningBalance } from './nearBalance';
+import { sendFunctionCall, waitForTransaction } from './nearTransactions';
+
+// Deposit attached to sign() when the MPC contract cannot be asked for its current one (0.25 NEAR)
+const FALLBACK_SIGN_DEPOSIT = 250000000000000000000000n;
+const MPC_SIGN_GAS = 300000000000000n;
 
 /**
  * NEAR MPC Service - Calls v1.signer-prod.testnet to sign balance snapshots
+ *
+ * Each vault may sign with its own derivation path and key version; vaults without one use
+ * MPC_PATH (default ethereum-1) and key version 0. The sign() transaction is reported through
+ * onSubmitted before it is sent and its outcome is polled until the snapshot deadline, so a
+ * caller that persisted the submission can wait for it again with resumeSignature().
+ * The deposit is the one the MPC contract asks for at the time of each call, and signing is
+ * refused when paying it would take the NEAR account below NEAR_BALANCE_MIN_NEAR.
  */
-export class NearMpcService {
+export class NearMpcService implements SnapshotSigner {
+  readonly backend = 'mpc' as const;
   private provider: providers.JsonRpcProvider;
-  private mpcContractId: string = 'v1.signer-prod.testnet';
-  private path: string = 'ethereum-1';
+  private mpcContractId: string = process.env.MPC_CONTRACT_ID || 'v1.signer-prod.testnet';
+  private path: string = process.env.MPC_PATH || 'ethereum-1';
   private rootPublicKey: string | null = null;
   private agentAddress: string | null = null;
+  private rootPublicKeys = new Map<number, Promise<string>>(); // Root keys of key versions above 0
+  private agentAddresses = new Map<string, string>();          // Derived addresses by key version and path
   private isInitialized: boolean = false;
   private nearAccountId: string;
   private nearKeyPair: KeyPair;
@@ -43,7 +66,7 @@ export class NearMpcService {
 
     // Load NEAR credentials from environment
     if (!process.env.NEAR_ACCOUNT_ID || !process.env.NEAR_PRIVATE_KEY) {
-      throw new Error('NEAR credentials required: Set NEAR_ACCOUNT_ID and NEAR_PRIVATE_KEY in .env');
+      throw new ConfigError('NEAR credentials required: Set NEAR_ACCOUNT_ID and NEAR_PRIVATE_KEY in .env');
     }
     
     this.nearAccountId = process.env.NEAR_ACCOUNT_ID;
@@ -59,88 +82,61 @@ export class NearMpcService {
       logger.info('Connecting to NEAR MPC signer');
 
       // Get root public key from MPC contract
-      const result: any = await this.provider.query({
-        request_type: 'call_function',
-        finality: 'final',
-        account_id: this.mpcContractId,
-        method_name: 'public_key',
-        args_base64: Buffer.from(JSON.stringify({})).toString('base64'),
-      });
-
-      const publicKeyStr = JSON.parse(Buffer.from(result.result).toString());
-      this.rootPublicKey = publicKeyStr.replace('secp256k1:', '');
+      this.rootPublicKey = await fetchMpcRootPublicKey(this.provider, this.mpcContractId);
 
       logger.info(`MPC Root public key: ${this.rootPublicKey?.substring(0, 16)}...`);
 
       // Derive agent's EVM address
-      this.agentAddress = await this.deriveEVMAddress();
+      this.agentAddress = this.deriveEVMAddress(this.rootPublicKey, this.path);
+      this.agentAddresses.set(`0:${this.path}`, this.agentAddress);
 
       this.isInitialized = true;
       logger.info(`Connected to NEAR MPC. Agent address: ${this.agentAddress}`);
     } catch (error) {
       logger.error('Failed to initialize NEAR MPC connection:', error);
-      throw error;
+      throw toNearSigningError('Failed to initialize NEAR MPC connection', error);
     }
   }
 
-  // Derive EVM address from root public key + account + path using NEAR MPC KDF
-  private async deriveEVMAddress(): Promise<string> {
-    if (!this.rootPublicKey) {
-      throw new Error('Root public key not initialized');
+  // NEAR RPC, signing key, MPC root key and balance; a changed root key means the agent address is stale
+  async checkReadiness(): Promise<ComponentReadiness[]> {
+    return Promise.all([
+      checkNearRpc(this.provider),
+      checkAccessKey(this.provider, this.nearAccountId, this.nearKeyPair, {
+        receiverId: this.mpcContractId,
+        methodName: 'sign',
+        deposit: FALLBACK_SIGN_DEPOSIT,
+      }),
+      checkMpcRootKey(this.provider, this.mpcContractId, async () => {
+        await this.initialize();
+        return this.rootPublicKey!;
+      }),
+      checkSigningBalance(this.provider, this.nearAccountId, () => this.getSignDeposit()),
+    ]);
+  }
+
+  async checkBalance(): Promise<NearBalance> {
+    return checkNearBalance(this.provider, this.nearAccountId);
+  }
+
+  // The deposit the MPC contract currently asks for with sign()
+  private async getSignDeposit(): Promise<bigint> {
+    try {
+      return await fetchSignatureDeposit(this.provider, this.mpcContractId);
+    } catch (error) {
+      logger.warn(`Could not read the signature deposit from ${this.mpcContractId}, attaching ${formatNear(FALLBACK_SIGN_DEPOSIT)} NEAR: ${error}`);
+      return FALLBACK_SIGN_DEPOSIT;
     }
+  }
 
+  // Derive EVM address from root public key + account + path using NEAR MPC KDF
+  private deriveEVMAddress(rootPublicKey: string, path: string): string {
     try {
-      // Derive epsilon using SHA3-256 (not Ethereum keccak256)
-      // epsilon = SHA3-256("near-mpc-recovery v0.1.0 epsilon derivation:" + predecessor_id + "," + path)
-      const EPSILON_DERIVATION_PREFIX = 'near-mpc-recovery v0.1.0 epsilon derivation:';
-      const derivationString = `${EPSILON_DERIVATION_PREFIX}${this.nearAccountId},${this.path}`;
-      
-      logger.debug(`Derivation string: ${derivationString}`);
-      
-      // Use proper FIPS SHA3-256
-      const sha3 = new SHA3(256);
-      sha3.update(derivationString);
-      const epsilonHash = Buffer.from(sha3.digest());
-      logger.debug(`Epsilon: ${epsilonHash.toString('hex').slice(0, 32)}...`);
-      
-      // Step 2: Parse root public key (decode base58)
-      const rootPkBase58 = this.rootPublicKey;
-      let rootPkBytes = utils.serialize.base_decode(rootPkBase58);
-      logger.debug(`Root PK bytes length (raw): ${rootPkBytes.length}`);
-      logger.debug(`Root PK first bytes: ${Buffer.from(rootPkBytes).toString('hex').slice(0, 20)}...`);
-      
-      // Ensure root PK is in uncompressed format (65 bytes starting with 0x04)
-      if (rootPkBytes.length === 64) {
-        // Missing the 0x04 prefix, add it
-        rootPkBytes = Buffer.concat([Buffer.from([0x04]), Buffer.from(rootPkBytes)]);
-        logger.debug(`Added 0x04 prefix, new length: ${rootPkBytes.length}`);
-      } else if (rootPkBytes.length === 33) {
-        // Compressed format, convert to uncompressed
-        rootPkBytes = secp256k1.publicKeyConvert(rootPkBytes, false);
-        logger.debug(`Converted to uncompressed, new length: ${rootPkBytes.length}`);
-      }
-      
-      // Step 3: Derive public key using elliptic curve arithmetic
-      // derived_pk = G * epsilon + root_pk
-      // First, multiply generator point by epsilon (this gives us G * epsilon)
-      const epsilonPoint = secp256k1.publicKeyCreate(epsilonHash, false); // Uncompressed
-      logger.debug(`Epsilon point length: ${epsilonPoint.length}`);
-      
-      // Then add root_pk (elliptic curve point addition)
-      // derived_pk = root_pk + (G * epsilon)
-      const derivedPkBytes = secp256k1.publicKeyCombine([Buffer.from(rootPkBytes), Buffer.from(epsilonPoint)], false);
-      logger.debug(`Derived PK: ${Buffer.from(derivedPkBytes).toString('hex').slice(0, 32)}...`);
-      
-      // Step 4: Convert to EVM address
-      // EVM address = keccak256(uncompressed_public_key)[12:]
-      // Skip first byte (0x04) of uncompressed public key
-      const pkForHashing = derivedPkBytes.slice(1);
-      const addressHash = Buffer.from(keccak256.create().update(pkForHashing).digest());
-      const address = '0x' + addressHash.slice(-20).toString('hex');
-      
+      const address = deriveEvmAddress(rootPublicKey, this.nearAccountId, path);
+
       logger.info(`Derived EVM address: ${address}`);
-      logger.info(`   From: ${this.nearAccountId} + ${this.path}`);
-      
+      logger.info(`   From: ${this.nearAccountId} + ${path}`);
+
       return address;
     } catch (error) {
       logger.error('Failed to derive EVM address:', error);
@@ -148,11 +144,50 @@ export class NearMpcService {
     }
   }
 
+  // Fill in the default path and key version
+  private resolveKey(key: AgentKey): Required<AgentKey> {
+    return { path: key.path ?? this.path, keyVersion: key.keyVersion ?? 0 };
+  }
+
+  // Root public key of a key version, fetched once
+  private async getRootPublicKey(keyVersion: number): Promise<string> {
+    await this.initialize();
+    if (keyVersion === 0) {
+      return this.rootPublicKey!;
+    }
+
+    let rootPublicKey = this.rootPublicKeys.get(keyVersion);
+    if (!rootPublicKey) {
+      rootPublicKey = fetchMpcRootPublicKey(this.provider, this.mpcContractId, keyVersion);
+      this.rootPublicKeys.set(keyVersion, rootPublicKey);
+      // A failed lookup is retried by the next caller
+      rootPublicKey.catch(() => this.rootPublicKeys.delete(keyVersion));
+    }
+    try {
+      return await rootPublicKey;
+    } catch (error) {
+      throw toNearSigningError(`Failed to fetch MPC root public key for key version ${keyVersion}`, error);
+    }
+  }
+
+  // Agent address of a vault's key
+  private async deriveAgentAddress(key: Required<AgentKey>): Promise<string> {
+    const rootPublicKey = await this.getRootPublicKey(key.keyVersion);
+    const cacheKey = `${key.keyVersion}:${key.path}`;
+    let address = this.agentAddresses.get(cacheKey);
+    if (!address) {
+      address = this.deriveEVMAddress(rootPublicKey, key.path);
+      this.agentAddresses.set(cacheKey, address);
+    }
+    return address;
+  }
+
   // Sign balance snapshot using NEAR MPC (creates EIP-712 hash and requests signature)
   async signBalanceSnapshot(
     snapshot: CrossChainBalanceSnapshot,
-    vaultAddress: string,
-    chainId: number
+    domain: EIP712Domain,
+    key: AgentKey = {},
+    onSubmitted?: (submission: SignatureSubmission) => void
   ): Promise<MpcSignatureResponse> {
     await this.initialize();
 
@@ -174,124 +209,189 @@ export class NearMpcService {
       });
 
       // Create EIP-712 hash
-      const domain = {
-        name: 'AaveVault',
-        version: '1',
-        chainId,
-        verifyingContract: vaultAddress,
-      };
+      const hash = ethers.TypedDataEncoder.hash(domain, CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, normalizedSnapshot);
+      logger.debug(`EIP-712 hash: ${hash}`);
 
-      const types = {
-        CrossChainBalanceSnapshot: [
-          { name: 'balance', type: 'uint256' },
-          { name: 'nonce', type: 'uint256' },
-          { name: 'deadline', type: 'uint256' },
-          { name: 'assets', type: 'uint256' },
-          { name: 'receiver', type: 'address' },
-        ],
-      };
+      return await this.signHash(hash, this.resolveKey(key), Number(snapshot.deadline), onSubmitted);
+    } catch (error) {
+      logger.error('Failed to get MPC signature:', error);
+      throw toNearSigningError('MPC signing failed', error);
+    }
+  }
 
-      const hash = ethers.TypedDataEncoder.hash(domain, types, normalizedSnapshot);
-      logger.debug(`EIP-712 hash: ${hash}`);
+  // Sign withdraw snapshot using NEAR MPC (same signing path as balance snapshots)
+  async signWithdrawSnapshot(
+    snapshot: CrossChainWithdrawSnapshot,
+    domain: EIP712Domain,
+    key: AgentKey = {},
+    onSubmitted?: (submission: SignatureSubmission) => void
+  ): Promise<MpcSignatureResponse> {
+    await this.initialize();
 
-      // Convert hash to payload for NEAR MPC
-      const hashBytes = ethers.getBytes(hash);
-      const payload = Array.from(hashBytes);
+    try {
+      logger.info('Requesting MPC signature for withdraw snapshot');
 
-      logger.info('Sending NEAR transaction to MPC contract');
-      
-      // Prepare transaction arguments
-      const args = {
-        request: {
-          payload,
-          path: this.path,
-          key_version: 0,
-        },
+      const normalizedSnapshot = {
+        ...snapshot,
+        owner: ethers.getAddress(snapshot.owner),
       };
 
-      // Connect to NEAR and call the MPC contract
-      const keyStore = new keyStores.InMemoryKeyStore();
-      await keyStore.setKey('testnet', this.nearAccountId, this.nearKeyPair);
+      const hash = ethers.TypedDataEncoder.hash(domain, CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES, normalizedSnapshot);
+      logger.debug(`EIP-712 hash: ${hash}`);
 
-      const near = await connect({
-        networkId: 'testnet',
-        keyStore,
-        nodeUrl: process.env.NEAR_RPC_URL || 'https://rpc.testnet.near.org',
-      });
+      return await this.signHash(hash, this.resolveKey(key), Number(snapshot.deadline), onSubmitted);
+    } catch (error) {
+      logger.error('Failed to get MPC signature:', error);
+      throw toNearSigningError('MPC signing failed', error);
+    }
+  }
 
-      const account = await near.account(this.nearAccountId);
+  // Request an MPC signature over an EIP-712 hash and check it recovers to the key's agent address
+  private async signHash(
+    hash: string,
+    key: Required<AgentKey>,
+    deadline: number,
+    onSubmitted?: (submission: SignatureSubmission) => void
+  ): Promise<MpcSignatureResponse> {
+    const agentAddress = await this.deriveAgentAddress(key);
 
-      // Call MPC sign method
-      logger.info(`Calling ${this.mpcContractId}.sign()`);
-      logger.info(`  Payload hash: ${hash}`);
-      logger.info(`  Payload bytes: [${payload.slice(0, 8).join(', ')}...]`);
-      logger.info(`  Path: ${this.path}`);
-      logger.info(`  Key version: 0`);
-      
-      const result: any = await account.functionCall({
-        contractId: this.mpcContractId,
-        methodName: 'sign',
-        args,
-        gas: new BN('300000000000000'),
-        attachedDeposit: new BN('250000000000000000000000'),
-      });
+    // Convert hash to payload for NEAR MPC
+    const hashBytes = ethers.getBytes(hash);
+    const payload = Array.from(hashBytes);
 
-      logger.info('NEAR transaction successful');
-      logger.debug('Full transaction result:', JSON.stringify(result, null, 2));
+    logger.info('Sending NEAR transaction to MPC contract');
+    
+    // Prepare transaction arguments
+    const args = {
+      request: {
+        payload,
+        path: key.path,
+        key_version: key.keyVersion,
+      },
+    };
+
+    // Call MPC sign method
+    logger.info(`Calling ${this.mpcContractId}.sign()`);
+    logger.info(`  Payload hash: ${hash}`);
+    logger.info(`  Payload bytes: [${payload.slice(0, 8).join(', ')}...]`);
+    logger.info(`  Path: ${key.path}`);
+    logger.info(`  Key version: ${key.keyVersion}`);
+
+    // Pay what the contract asks for now, if the account can afford it
+    const deposit = await this.getSignDeposit();
+    await requireSigningBalance(this.provider, this.nearAccountId, deposit);
+    logger.info(`  Deposit: ${formatNear(deposit)} NEAR`);
+    
+    // The outcome is waited for until the snapshot expires; a signature after that is useless
+    const attributes = { 'near.contract': this.mpcContractId, 'near.method': 'sign', 'near.signer': this.nearAccountId };
+    const result: any = await withSpan('NEAR sign', 'client', attributes, span => sendFunctionCall(
+      this.provider,
+      this.nearAccountId,
+      this.nearKeyPair,
+      { receiverId: this.mpcContractId, methodName: 'sign', args, gas: MPC_SIGN_GAS, deposit },
+      tx => {
+        span.setAttribute('near.transaction_hash', tx.txHash);
+        onSubmitted?.({ ...tx, digest: hash, agentAddress, deadline, deposit: deposit.toString() });
+      },
+      deadline * 1000
+    ));
+
+    return this.parseSignResult(result, hash, agentAddress, deposit);
+  }
 
-      // Parse the return value from transaction outcome
-      if (!result.status || !result.status.SuccessValue) {
-        throw new Error(`Transaction failed: ${JSON.stringify(result.status)}`);
-      }
+  // Wait for a sign() transaction submitted earlier, possibly by a previous run of the oracle
+  async resumeSignature(submission: SignatureSubmission): Promise<MpcSignatureResponse> {
+    try {
+      logger.info(`Waiting for MPC sign transaction ${submission.txHash}`);
+      const attributes = {
+        'near.contract': this.mpcContractId,
+        'near.method': 'sign',
+        'near.signer': this.nearAccountId,
+        'near.transaction_hash': submission.txHash,
+      };
+      const result: any = await withSpan('NEAR sign', 'client', attributes, () =>
+        waitForTransaction(this.provider, submission, submission.deadline * 1000)
+      );
+      return this.parseSignResult(result, submission.digest, submission.agentAddress, BigInt(submission.deposit));
+    } catch (error) {
+      logger.error('Failed to resume MPC signature:', error);
+      throw toNearSigningError('MPC signing failed', error);
+    }
+  }
 
-      const returnValue = Buffer.from(result.status.SuccessValue, 'base64').toString();
-      const signatureResponse = JSON.parse(returnValue);
-      logger.info('MPC signature response received');
-      logger.debug('Full MPC response:', signatureResponse);
+  // Turn the sign() outcome into an Ethereum signature that recovers to the agent address
+  private parseSignResult(result: any, hash: string, agentAddress: string, deposit: bigint): MpcSignatureResponse {
+    logger.info('NEAR transaction successful');
+    logger.debug('Full transaction result:', JSON.stringify(result, null, 2));
+    const nearCost = recordNearTransaction(this.backend, this.mpcContractId, deposit, result);
 
-      // Parse signature components from MPC response
-      const affinePointHex = signatureResponse.big_r.affine_point;
-      const sScalarHex = signatureResponse.s.scalar;
-      const recoveryId = signatureResponse.recovery_id;
-      
-      logger.info(`  Affine point: ${affinePointHex.slice(0, 20)}...`);
-      logger.info(`  S scalar: ${sScalarHex.slice(0, 20)}...`);
-      logger.info(`  Recovery ID: ${recoveryId}`);
-      
-      // Extract r from affine point (skip format byte, take next 32 bytes)
-      const rHex = affinePointHex.slice(2, 66);
-      const sHex = sScalarHex;
-      // Convert recovery_id (0 or 1) to Ethereum v (27 or 28)
-      const v = recoveryId + 27;
-
-      // Format signature using ethers.js for OpenZeppelin compatibility
-      const sig = ethers.Signature.from({
-        r: '0x' + rHex,
-        s: '0x' + sHex,
-        v: v
-      });
-      
-      const mpcSignature = sig.serialized;
+    // Parse the return value from transaction outcome
+    if (!result.status || !result.status.SuccessValue) {
+      throw new NearSigningError(`Transaction failed: ${JSON.stringify(result.status)}`);
+    }
 
-      logger.info('MPC signature generated successfully');
-      logger.info(`  Signature: ${mpcSignature.slice(0, 20)}...${mpcSignature.slice(-6)}`);
-      logger.info(`  v = ${v} (recovery_id ${recoveryId} + 27)`);
-      logger.info(`  Using ethers.Signature.serialized format`);
+    const returnValue = Buffer.from(result.status.SuccessValue, 'base64').toString();
+    const signatureResponse = JSON.parse(returnValue);
+    logger.info('MPC signature response received');
+    logger.debug('Full MPC response:', signatureResponse);
 
-      return {
-        signature: mpcSignature,
-        agentAddress: this.agentAddress!,
-      };
-    } catch (error) {
-      logger.error('Failed to get MPC signature:', error);
-      throw new Error(`MPC signing failed: ${error}`);
+    // Parse signature components from MPC response
+    const affinePointHex = signatureResponse.big_r.affine_point;
+    const sScalarHex = signatureResponse.s.scalar;
+    const recoveryId = signatureResponse.recovery_id;
+    
+    logger.info(`  Affine point: ${affinePointHex.slice(0, 20)}...`);
+    logger.info(`  S scalar: ${sScalarHex.slice(0, 20)}...`);
+    logger.info(`  Recovery ID: ${recoveryId}`);
+    
+    // Extract r from affine point (skip format byte, take next 32 bytes)
+    const rHex = affinePointHex.slice(2, 66);
+    const sHex = sScalarHex;
+    // Convert recovery_id (0 or 1) to Ethereum v (27 or 28)
+    const v = recoveryId + 27;
+
+    // Format signature using ethers.js for OpenZeppelin compatibility
+    const sig = ethers.Signature.from({
+      r: '0x' + rHex,
+      s: '0x' + sHex,
+      v: v
+    });
+    
+    const mpcSignature = sig.serialized;
+
+    logger.info('MPC signature generated successfully');
+    logger.info(`  Signature: ${mpcSignature.slice(0, 20)}...${mpcSignature.slice(-6)}`);
+    logger.info(`  v = ${v} (recovery_id ${recoveryId} + 27)`);
+    logger.info(`  Using ethers.Signature.serialized format`);
+
+    // Verify the signature before handing it out
+    const recoveredAddress = ethers.recoverAddress(hash, mpcSignature);
+    if (recoveredAddress.toLowerCase() !== agentAddress.toLowerCase()) {
+      throw new VerificationError(
+        `Signature verification failed! Recovered ${recoveredAddress}, expected ${agentAddress}`
+      );
     }
+
+    return {
+      signature: mpcSignature,
+      agentAddress,
+      nearCost,
+    };
   }
 
-  // Get agent's EVM address
-  async getAgentAddress(): Promise<string> {
-    await this.initialize();
-    return this.agentAddress!;
+  // Get agent's EVM address for a vault's key (the default key when none is given)
+  async getAgentAddress(key: AgentKey = {}): Promise<string> {
+    return this.deriveAgentAddress(this.resolveKey(key));
+  }
+
+  async getAgentDerivation(key: AgentKey = {}): Promise<AgentDerivation> {
+    const resolved = this.resolveKey(key);
+    return {
+      mpcContractId: this.mpcContractId,
+      rootPublicKey: `secp256k1:${await this.getRootPublicKey(resolved.keyVersion)}`,
+      predecessorId: this.nearAccountId,
+      ...resolved,
+    };
   }
 }
 
@@ -0,0 +1,187 @@
+import { InMemorySigner, KeyPair, providers, transactions, utils } from 'near-api-js';
+import BN from 'bn.js';
+import { logger } from '../utils/logger';
+import { NearTimeoutError } from '../utils/errors';
+
+/**
+ * NEAR transactions - Sign function calls locally, broadcast without waiting, poll the outcome by hash
+ *
+ * broadcast_tx_commit blocks until the MPC network answers; when the RPC times out or the oracle
+ * restarts, the call (and its deposit) is lost track of. Here the signed transaction is handed to
+ * the caller before it is broadcast, so its hash can be persisted and waited on again later.
+ * A transaction the node does not know is broadcast again; its hash and nonce make that safe.
+ *
+ * NEAR_TX_POLL_INTERVAL_MS: delay between transaction status polls (default 1000)
+ */
+
+export interface FunctionCallRequest {
+  receiverId: string;
+  methodName: string;
+  args: object; // bigint values are sent as JSON integers at full precision
+  gas: bigint;
+  deposit: bigint; // yoctoNEAR
+}
+
+export interface SubmittedTransaction {
+  txHash: string;            // base58
+  signerId: string;
+  receiverId: string;
+  signedTransaction: string; // base64 borsh, broadcast again if the node lost it
+}
+
+// Stands in for a bigint while the args are stringified
+const BIGINT_MARKER = '__bigint__:';
+
+// Last nonce used per access key: the chain's nonce lags behind transactions still in flight
+const lastNonces = new Map<string, bigint>();
+
+// NEAR network the signing account lives on (testnet, mainnet)
+function getNetworkId(): string {
+  return process.env.NEAR_NETWORK_ID || 'testnet';
+}
+
+function getPollIntervalMs(): number {
+  const value = parseInt(process.env.NEAR_TX_POLL_INTERVAL_MS || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : 1000;
+}
+
+/**
+ * Serialize function call args as JSON, writing bigints as integer literals
+ *
+ * Rust u64/u128 arguments take JSON numbers, which a JS number cannot hold exactly above 2^53.
+ */
+export function serializeArgs(args: object): Uint8Array {
+  const json = JSON.stringify(args, (_key, value) => (typeof value === 'bigint' ? `${BIGINT_MARKER}${value}` : value));
+  return Buffer.from(json.replace(new RegExp(`"${BIGINT_MARKER}(-?\\d+)"`, 'g'), '$1'));
+}
+
+/**
+ * Sign a function call with the account's key, without sending it
+ */
+export async function signFunctionCall(
+  provider: providers.JsonRpcProvider,
+  accountId: string,
+  keyPair: KeyPair,
+  call: FunctionCallRequest
+): Promise<SubmittedTransaction> {
+  const publicKey = keyPair.getPublicKey().toString();
+  const [accessKey, block]: any[] = await Promise.all([
+    provider.query({ request_type: 'view_access_key', finality: 'final', account_id: accountId, public_key: publicKey }),
+    provider.block({ finality: 'final' }),
+  ]);
+
+  const nonceKey = `${accountId}:${publicKey}`;
+  const chainNonce = BigInt(accessKey.nonce) + 1n;
+  const lastNonce = lastNonces.get(nonceKey);
+  const nonce = lastNonce !== undefined && lastNonce >= chainNonce ? lastNonce + 1n : chainNonce;
+  lastNonces.set(nonceKey, nonce);
+
+  const networkId = getNetworkId();
+  const signer = await InMemorySigner.fromKeyPair(networkId, accountId, keyPair);
+  const action = transactions.functionCall(
+    call.methodName,
+    serializeArgs(call.args),
+    new BN(call.gas.toString()),
+    new BN(call.deposit.toString())
+  );
+  const [hash, signedTransaction] = await transactions.signTransaction(
+    call.receiverId,
+    new BN(nonce.toString()),
+    [action],
+    utils.serialize.base_decode(block.header.hash),
+    signer,
+    accountId,
+    networkId
+  );
+
+  return {
+    txHash: utils.serialize.base_encode(hash),
+    signerId: accountId,
+    receiverId: call.receiverId,
+    signedTransaction: Buffer.from(signedTransaction.encode()).toString('base64'),
+  };
+}
+
+/**
+ * Broadcast a signed transaction without waiting for it to execute
+ */
+export async function broadcastTransaction(provider: providers.JsonRpcProvider, tx: SubmittedTransaction): Promise<void> {
+  await provider.sendJsonRpc('broadcast_tx_async', [tx.signedTransaction]);
+}
+
+// The RPC answers this way for transactions it has not seen (yet)
+function isUnknownTransaction(error: any): boolean {
+  return /UNKNOWN_TRANSACTION|doesn't exist|does not exist|not found/i.test(`${error?.type ?? ''} ${error?.message ?? ''}`);
+}
+
+function hasFinalStatus(outcome: any): boolean {
+  const status = outcome?.status;
+  return typeof status === 'object' && status !== null && ('SuccessValue' in status || 'Failure' in status);
+}
+
+/**
+ * Poll a transaction's status until it has executed or until (Unix ms) has passed
+ *
+ * Throws NearTimeoutError when it has not executed in time; the transaction may still execute.
+ */
+export async function waitForTransaction(
+  provider: providers.JsonRpcProvider,
+  tx: SubmittedTransaction,
+  until: number
+): Promise<providers.FinalExecutionOutcome> {
+  const intervalMs = getPollIntervalMs();
+  let lastError: unknown;
+
+  for (;;) {
+    try {
+      // With its receipts, so deposit refunds can be counted
+      const outcome = await provider.txStatusReceipts(tx.txHash, tx.signerId);
+      if (hasFinalStatus(outcome)) {
+        return outcome;
+      }
+    } catch (error) {
+      lastError = error;
+      if (isUnknownTransaction(error)) {
+        logger.debug(`NEAR transaction ${tx.txHash} not known to the RPC, broadcasting it again`);
+        await broadcastTransaction(provider, tx).catch(broadcastError => {
+          logger.debug(`Re-broadcast of ${tx.txHash} failed: ${broadcastError}`);
+        });
+      } else {
+        logger.debug(`NEAR transaction ${tx.txHash} status unavailable: ${error}`);
+      }
+    }
+
+    if (Date.now() + intervalMs > until) {
+      throw new NearTimeoutError(`NEAR transaction ${tx.txHash} has not executed yet`, lastError);
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Sign a function call, hand it to onSubmitted, broadcast it and wait for its outcome
+ *
+ * onSubmitted runs before the broadcast, so a persisted hash never misses a sent transaction.
+ */
+export async function sendFunctionCall(
+  provider: providers.JsonRpcProvider,
+  accountId: string,
+  keyPair: KeyPair,
+  call: FunctionCallRequest,
+  onSubmitted: (tx: SubmittedTransaction) => void,
+  until: number
+): Promise<providers.FinalExecutionOutcome> {
+  const tx = await signFunctionCall(provider, accountId, keyPair, call);
+  onSubmitted(tx);
+
+  try {
+    await broadcastTransaction(provider, tx);
+  } catch (error) {
+    // Possibly received anyway: waiting broadcasts it again if the node does not know it
+    logger.warn(`Broadcast of NEAR transaction ${tx.txHash} failed, polling its status: ${error}`);
+  }
+  logger.info(`NEAR transaction ${tx.txHash} submitted to ${call.receiverId}.${call.methodName}`);
+
+  return waitForTransaction(provider, tx, until);
+}
+
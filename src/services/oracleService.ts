@@ -1,12 +1,52 @@
+import crypto from 'crypto';
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
-import { getNearContract } from './nearContractService';
-import { CrossChainBalanceSnapshot } from './nearMpcService';
-import { fetchChainBalances, fetchVaultBalances, aggregateBalances } from './balanceFetcher';
-import { getVaultNonce, getCrossChainInvestedAssets } from './vaultService';
-import { getChainById } from '../config/chains';
+import { OracleError, ValidationError } from '../utils/errors';
+import { getSigner } from './signerService';
+import {
+  AgentDerivation,
+  AgentHoldings,
+  AgentKey,
+  AssetTotals,
+  ChainConfig,
+  ChainReadStatus,
+  CrossChainBalanceSnapshot,
+  CrossChainWithdrawSnapshot,
+  EIP712Domain,
+  PinnedBlock,
+  SignatureSubmission,
+  VaultBalance,
+} from '../types';
+import { aggregateAgentHoldings, aggregateBalances } from './balanceFetcher';
+import {
+  getVaultNonce,
+  getCrossChainInvestedAssets,
+  getVaultEip712Domain,
+  calculatePricePerUnit,
+  calculateApy,
+} from './vaultService';
+import { getAllChains, getChainById, getPrimaryAsset, getVaultAgentKey, getVaultValidity } from '../config/chains';
+import { getVaultDomain } from '../config/eip712';
+import { ChainUnavailableError, QuorumRead, readChainsWithQuorum } from './chainQuorum';
+import { verifyPinnedBlock } from './blockService';
+import { BalanceSanityCheck, checkCrossChainBalance } from './signingGuard';
+import { VaultAgentCheck, getVaultAgentChecks, requireSignableVault } from './agentVerification';
+import { CacheLookup, TtlCache } from '../utils/ttlCache';
+import { SnapshotRecord, SnapshotRequest, getSnapshotLedger, snapshotRequestKey } from './snapshotLedger';
+import { PendingSnapshot, completePendingSignature, getPendingSignatures, toPendingSnapshot } from './pendingSignatures';
+import { getPoolValueHistory } from './poolValueHistory';
+import {
+  signingDuration,
+  signingFailures,
+  snapshotsIssued,
+  vaultCrossChainInvestedAssets,
+  vaultTotalAssets,
+} from '../utils/metrics';
+import { withSpan } from '../utils/tracing';
 
 export interface SignedBalanceSnapshot {
+  snapshotId: string;
+  reused: boolean; // An earlier signature for the same receiver/assets/nonce was returned
   balance: string;
   nonce: string;
   deadline: string;
@@ -14,26 +54,219 @@ export interface SignedBalanceSnapshot {
   receiver: string;
   signature: string;
   agentAddress: string;
+  domain: EIP712Domain; // Domain the signature is over
+  sourceBlocks: PinnedBlock[];
+  chains: ChainReadStatus[];
+  sanityCheck: BalanceSanityCheck; // Signed balance against observed holdings, at request time
+}
+
+export interface SignedWithdrawSnapshot {
+  snapshotId: string;
+  reused: boolean; // An earlier signature for the same owner/shares/assets/nonce was returned
+  balance: string;
+  nonce: string;
+  deadline: string;
+  shares: string;
+  assets: string;
+  owner: string;
+  signature: string;
+  agentAddress: string;
+  domain: EIP712Domain; // Domain the signature is over
+  sourceBlocks: PinnedBlock[];
+  chains: ChainReadStatus[];
+  sanityCheck: BalanceSanityCheck; // Signed balance against observed holdings, at request time
+}
+
+// Vault state a snapshot is signed over
+interface VaultSigningState {
+  vaultChain: ChainConfig;
+  vaultAddress: string;
+  agentKey: AgentKey;
+  agentAddress: string;
+  domain: EIP712Domain;
+  quorum: QuorumRead;
+  crossChainBalance: bigint;
+  nonce: bigint;
+  sanityCheck: BalanceSanityCheck;
+}
+
+// Realized APY over trailing windows, from recorded share prices (0.05 is 5%)
+export interface ApyWindows {
+  '1d': number | null;
+  '7d': number | null;
+  '30d': number | null;
+}
+
+export interface VaultSharePrice {
+  chainId: number;
+  chainName: string;
+  vaultAddress: string;
+  asset: string;
+  decimals: number;
+  totalAssets: string; // totalAssets() plus cross-chain invested assets
+  totalShares: string | null;
+  shareDecimals: number | null;
+  pricePerUnit: string | null; // Null when the vault has no shares or does not expose them
+  apy: ApyWindows;
 }
 
 export interface PoolValueResponse {
+  // Totals for the registry's primary asset
+  asset: string;
+  decimals: number;
   totalATokens: string;
   totalUSDC: string;
   totalPoolValue: string;
+  assets: AssetTotals[];
   breakdown: {
     chainId: number;
     chainName: string;
+    asset: string;
+    decimals: number;
     aTokens: string;
+    idle: string;
+    /** @deprecated Same as idle; kept for clients written before breakdowns covered other assets */
     usdc: string;
   }[];
+  // Share price across the primary asset's vaults
+  totalShares: string; // Whole shares, as a decimal string
+  pricePerUnit: string | null;
+  apy: ApyWindows;
+  vaults: VaultSharePrice[];
+  agentHoldings: AgentHoldings[]; // aTokens held by each vault's agent address
+  sourceBlocks: PinnedBlock[];
+  stale: boolean; // True when any chain was served stale or left out
+  chains: ChainReadStatus[];
   timestamp: number;
 }
 
+// Signatures being requested, by snapshot request
+const signaturesInFlight: Map<string, { id: string; deadline: number; signing: Promise<SnapshotRecord> }> = new Map();
+
+// What signOnce hands back: a signed snapshot, or one whose NEAR transaction is still pending
+type SignOutcome = { record: SnapshotRecord; reused: boolean } | { pending: PendingSnapshot };
+
+const DEFAULT_SIGNING_RESPONSE_WAIT_SECONDS = 30;
+
+function getSigningResponseWaitSeconds(): number {
+  const value = parseInt(process.env.SIGNING_RESPONSE_WAIT_SECONDS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_SIGNING_RESPONSE_WAIT_SECONDS;
+}
+
+function toSignedSnapshot(record: SnapshotRecord, state: VaultSigningState, reused: boolean): SignedBalanceSnapshot {
+  return {
+    snapshotId: record.id,
+    reused,
+    balance: record.balance,
+    nonce: record.nonce,
+    deadline: record.deadline,
+    assets: record.assets,
+    receiver: record.receiver!,
+    signature: record.signature,
+    agentAddress: record.agentAddress,
+    domain: record.domain ?? getVaultDomain(record.chainId, record.vaultAddress),
+    sourceBlocks: record.sourceBlocks,
+    chains: state.quorum.chains,
+    sanityCheck: state.sanityCheck,
+  };
+}
+
+function toSignedWithdrawSnapshot(record: SnapshotRecord, state: VaultSigningState, reused: boolean): SignedWithdrawSnapshot {
+  return {
+    snapshotId: record.id,
+    reused,
+    balance: record.balance,
+    nonce: record.nonce,
+    deadline: record.deadline,
+    shares: record.shares!,
+    assets: record.assets,
+    owner: record.owner!,
+    signature: record.signature,
+    agentAddress: record.agentAddress,
+    domain: record.domain ?? getVaultDomain(record.chainId, record.vaultAddress),
+    sourceBlocks: record.sourceBlocks,
+    chains: state.quorum.chains,
+    sanityCheck: state.sanityCheck,
+  };
+}
+
+const APY_WINDOWS: Record<keyof ApyWindows, number> = {
+  '1d': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+};
+
+// Shares are normalized to this many decimals when summed across vaults
+const SHARE_SUM_DECIMALS = 18;
+
+/**
+ * Realized APY from the share price recorded one window ago
+ *
+ * A window is left null until the history reaches back that far, or when the nearest
+ * earlier sample is more than a window older than the window start.
+ */
+function realizedApy(
+  pricePerUnit: string | null,
+  now: number,
+  vault?: { chainId: number; vaultAddress: string }
+): ApyWindows {
+  const history = getPoolValueHistory();
+  const apy: ApyWindows = { '1d': null, '7d': null, '30d': null };
+  if (!pricePerUnit) {
+    return apy;
+  }
+
+  for (const [window, seconds] of Object.entries(APY_WINDOWS) as [keyof ApyWindows, number][]) {
+    const past = history.sharePriceAt(now - seconds, vault);
+    if (past && past.timestamp >= now - 2 * seconds) {
+      apy[window] = calculateApy(pricePerUnit, past.pricePerUnit, now - past.timestamp);
+    }
+  }
+  return apy;
+}
+
+function vaultSharePrice(vaultBalance: VaultBalance, now: number): VaultSharePrice {
+  const totalAssets = BigInt(vaultBalance.aTokenBalance) + BigInt(vaultBalance.idleBalance)
+    + BigInt(vaultBalance.crossChainAssets ?? 0);
+  const priced = vaultBalance.totalShares !== undefined && vaultBalance.totalShares !== '0';
+  const pricePerUnit = priced
+    ? calculatePricePerUnit(totalAssets, BigInt(vaultBalance.totalShares!), vaultBalance.decimals, vaultBalance.shareDecimals)
+    : null;
+  const vault = { chainId: vaultBalance.chainId, vaultAddress: vaultBalance.vaultAddress };
+
+  return {
+    ...vault,
+    chainName: vaultBalance.chainName,
+    asset: vaultBalance.asset,
+    decimals: vaultBalance.decimals,
+    totalAssets: totalAssets.toString(),
+    totalShares: vaultBalance.totalShares ?? null,
+    shareDecimals: vaultBalance.shareDecimals ?? null,
+    pricePerUnit,
+    apy: realizedApy(pricePerUnit, now, vault),
+  };
+}
+
+const DEFAULT_POOL_VALUE_CACHE_TTL_SECONDS = 15;
+
+function getPoolValueCacheTtlSeconds(): number {
+  const value = parseInt(process.env.POOL_VALUE_CACHE_TTL_SECONDS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_POOL_VALUE_CACHE_TTL_SECONDS;
+}
+
+// Pool values shared by all callers; concurrent requests for the same chain set share one computation
+const poolValueCache = new TtlCache<PoolValueResponse>(getPoolValueCacheTtlSeconds() * 1000);
+
+// Drop cached pool values (e.g. after the chain registry is reloaded)
+export function clearPoolValueCache(): void {
+  poolValueCache.clear();
+}
+
 /**
- * Oracle Service - Coordinates balance fetching and NEAR MPC signing
+ * Oracle Service - Coordinates balance fetching and snapshot signing
  */
 export class OracleService {
-  private nearMpc = getNearContract();
+  private signer = getSigner();
 
   /**
    * Generate a signed balance snapshot for deposit
@@ -43,122 +276,439 @@ export class OracleService {
   async generateBalanceSnapshot(
     assets: string,
     receiver: string,
-    vaultChainId: number
-  ): Promise<SignedBalanceSnapshot> {
+    vaultChainId: number,
+    requestedBy?: string,
+    validitySeconds?: number
+  ): Promise<SignedBalanceSnapshot | PendingSnapshot> {
     try {
       logger.info(`Generating balance snapshot for vault on chain ${vaultChainId}`);
       logger.info(`   Assets: ${assets}, Receiver: ${receiver}`);
 
-      // 1. Get agent address
-      const agentAddress = await this.nearMpc.getAgentAddress();
-      logger.info(`Agent address: ${agentAddress}`);
-      
-      // 2. Fetch all chain balances (aTokens)
-      logger.info('Step 1: Fetching aToken balances across all chains...');
-      const chainBalances = await fetchChainBalances(agentAddress);
-      
-      // 3. Fetch all vault balances (USDC in vaults)
-      logger.info('Step 2: Fetching USDC in all vaults...');
-      const vaultBalances = await fetchVaultBalances();
-
-      // 4. Aggregate total aTokens (for logging/debugging)
-      const aggregated = aggregateBalances(chainBalances, vaultBalances);
-      logger.info(`Total aTokens across chains: ${aggregated.totalATokens}`);
+      const state = await this.readVaultForSigning(vaultChainId);
+      const { vaultAddress, agentKey, agentAddress, domain, crossChainBalance, nonce } = state;
 
-      // 5. Get vault config and cross-chain invested assets
-      logger.info(`Step 3: Getting vault state on chain ${vaultChainId}...`);
-      const vaultChain = getChainById(vaultChainId);
-      if (!vaultChain || !vaultChain.vaultAddress) {
-        throw new Error(`No vault configured for chain ${vaultChainId}`);
-      }
+      const outcome = await this.signOnce(
+        { kind: 'deposit', chainId: vaultChainId, vaultAddress, agentAddress, receiver, assets, nonce: nonce.toString() },
+        async (deadline, onSubmitted) => {
+          // Create snapshot with vault's cross-chain balance
+          const snapshot: CrossChainBalanceSnapshot = {
+            balance: crossChainBalance.toString(), // Vault's crossChainInvestedAssets
+            nonce: nonce.toString(),
+            deadline: deadline.toString(),
+            assets,
+            receiver,
+          };
 
-      // Get the vault's actual crossChainInvestedAssets (this is what matters for deposit routing)
-      const crossChainBalance = await getCrossChainInvestedAssets(
-        vaultChain.vaultAddress,
-        vaultChain.rpcUrl,
-        vaultChainId
+          logger.info('Snapshot created:', snapshot);
+
+          logger.info(`Step 2: Requesting signature from ${this.signer.backend} signer...`);
+          const { signature, nearCost } = await this.signer.signBalanceSnapshot(snapshot, domain, agentKey, onSubmitted);
+          return { ...snapshot, signature, domain, ...(nearCost ? { nearCost } : {}) };
+        },
+        state,
+        requestedBy,
+        validitySeconds
       );
-      logger.info(`Vault crossChainInvestedAssets: ${crossChainBalance.toString()}`);
 
-      // 7. Get nonce from vault
-      const nonce = await getVaultNonce(vaultChain.vaultAddress, vaultChain.rpcUrl, vaultChainId);
-      logger.info(`Vault nonce: ${nonce}`);
+      return 'pending' in outcome ? outcome.pending : toSignedSnapshot(outcome.record, state, outcome.reused);
+    } catch (error) {
+      logger.error('Failed to generate balance snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a signed balance snapshot for withdraw or redeem
+   *
+   * Signed over the same vault state as deposit snapshots, with its own EIP-712 type
+   */
+  async generateWithdrawSnapshot(
+    owner: string,
+    shares: string,
+    assets: string,
+    vaultChainId: number,
+    requestedBy?: string,
+    validitySeconds?: number
+  ): Promise<SignedWithdrawSnapshot | PendingSnapshot> {
+    try {
+      logger.info(`Generating withdraw snapshot for vault on chain ${vaultChainId}`);
+      logger.info(`   Shares: ${shares}, Assets: ${assets}, Owner: ${owner}`);
 
-      // 8. Calculate deadline (5 minutes from now)
-      const deadline = Math.floor(Date.now() / 1000) + 300;
-      logger.info(`Deadline: ${deadline} (5 minutes from now)`);
+      const state = await this.readVaultForSigning(vaultChainId);
+      const { vaultAddress, agentKey, agentAddress, domain, crossChainBalance, nonce } = state;
 
-      // 8. Create snapshot with vault's cross-chain balance
-      const snapshot: CrossChainBalanceSnapshot = {
-        balance: crossChainBalance.toString(), // Vault's crossChainInvestedAssets
-        nonce: nonce.toString(),
-        deadline: deadline.toString(),
-        assets,
-        receiver,
-      };
+      const outcome = await this.signOnce(
+        { kind: 'withdraw', chainId: vaultChainId, vaultAddress, agentAddress, owner, shares, assets, nonce: nonce.toString() },
+        async (deadline, onSubmitted) => {
+          const snapshot: CrossChainWithdrawSnapshot = {
+            balance: crossChainBalance.toString(),
+            nonce: nonce.toString(),
+            deadline: deadline.toString(),
+            shares,
+            assets,
+            owner,
+          };
 
-      logger.info('Snapshot created:', snapshot);
+          logger.info('Withdraw snapshot created:', snapshot);
 
-      // 9. Sign with NEAR MPC
-      logger.info('Step 4: Calling NEAR MPC to sign...');
-      const { signature } = await this.nearMpc.signBalanceSnapshot(
-        snapshot,
-        vaultChain.vaultAddress,
-        vaultChain.chainId
+          logger.info(`Step 2: Requesting signature from ${this.signer.backend} signer...`);
+          const { signature, nearCost } = await this.signer.signWithdrawSnapshot(snapshot, domain, agentKey, onSubmitted);
+          return { ...snapshot, signature, domain, ...(nearCost ? { nearCost } : {}) };
+        },
+        state,
+        requestedBy,
+        validitySeconds
       );
 
-      logger.info('Signature received from NEAR MPC');
-      logger.info(`   Agent Address: ${agentAddress}`);
-
-      return {
-        ...snapshot,
-        signature,
-        agentAddress,
-      };
+      return 'pending' in outcome ? outcome.pending : toSignedWithdrawSnapshot(outcome.record, state, outcome.reused);
     } catch (error) {
-      logger.error('Failed to generate balance snapshot:', error);
+      logger.error('Failed to generate withdraw snapshot:', error);
       throw error;
     }
   }
 
   /**
-   * Get total pool value (for frontend charts)
-   * 
-   * This aggregates aTokens + USDC across all chains and vaults
+   * Read every chain and the vault's cross-chain balance and nonce for signing
+   */
+  private async readVaultForSigning(vaultChainId: number): Promise<VaultSigningState> {
+    // 1. Get vault config
+    const vaultChain = getChainById(vaultChainId);
+    if (!vaultChain || !vaultChain.vault) {
+      throw new ValidationError(`No vault configured for chain ${vaultChainId}`);
+    }
+    const vaultAddress = vaultChain.vault.address;
+
+    // 2. Get the vault's agent address; the vault must trust it or its signatures would be rejected
+    const agentKey = getVaultAgentKey(vaultChain.vault);
+    const agentAddress = await this.signer.getAgentAddress(agentKey);
+    logger.info(`Agent address: ${agentAddress}`);
+    await requireSignableVault(vaultChain, agentAddress);
+
+    // 3. Read every chain at one pinned block each
+    // Chains the vault's crossChainInvestedAssets depends on must be read fresh, or signing is refused
+    const requiredChains = vaultChain.vault.requiredChains;
+    const quorum = await readChainsWithQuorum(
+      getAllChains(),
+      [agentAddress],
+      chain => chain.chainId === vaultChainId || !requiredChains || requiredChains.includes(chain.key)
+    );
+    for (const status of quorum.chains) {
+      logger.info(`   ${status.chainName}: ${status.status}${status.blockNumber !== null ? ` at block ${status.blockNumber}` : ''}`);
+    }
+    const vaultBlock = quorum.states.find(state => state.chainId === vaultChainId)!.block;
+
+    // 4. Read the vault's actual crossChainInvestedAssets (this is what the vault checks) and nonce
+    logger.info('Step 1: Fetching vault state at the pinned block...');
+    const [crossChainBalance, nonce, domain] = await Promise.all([
+      getCrossChainInvestedAssets(vaultAddress, vaultChain, vaultBlock.blockNumber),
+      getVaultNonce(vaultAddress, vaultChain, vaultBlock.blockNumber),
+      getVaultEip712Domain(vaultAddress, vaultChain, vaultChain.vault.domain),
+    ]);
+    // The vault state must come from the block reported in sourceBlocks
+    await verifyPinnedBlock(vaultChain, vaultBlock);
+    logger.info(`Vault crossChainInvestedAssets: ${crossChainBalance.toString()}`);
+    vaultCrossChainInvestedAssets.set({ chain: vaultChain.name, vault: vaultAddress }, Number(crossChainBalance));
+    logger.info(`Vault nonce: ${nonce}`);
+
+    // 5. Aggregate total aTokens (for logging/debugging)
+    const aggregated = aggregateBalances(
+      quorum.states.flatMap(state => state.chainBalances),
+      quorum.states.flatMap(state => (state.vaultBalance ? [state.vaultBalance] : []))
+    );
+    logger.info(`Total aTokens across chains: ${aggregated.totalATokens}`);
+
+    // 6. Refuse to sign a balance that does not match what the agent holds on the other chains
+    const sanityCheck = checkCrossChainBalance(crossChainBalance, vaultChainId, quorum);
+
+    return { vaultChain, vaultAddress, agentKey, agentAddress, domain, quorum, crossChainBalance, nonce, sanityCheck };
+  }
+
+  /**
+   * Sign a snapshot request once per nonce and record it
+   *
+   * A still-valid signature for the same request is reused, and concurrent retries wait for
+   * the signature already in flight instead of signing again. A NEAR signing transaction is
+   * recorded as pending before it is sent; when it is not answered within
+   * SIGNING_RESPONSE_WAIT_SECONDS the pending snapshot is returned and signing carries on.
+   */
+  private async signOnce(
+    request: SnapshotRequest,
+    sign: (
+      deadline: number,
+      onSubmitted: (submission: SignatureSubmission) => void
+    ) => Promise<Pick<SnapshotRecord, 'balance' | 'nonce' | 'deadline' | 'signature' | 'domain' | 'nearCost'>>,
+    state: VaultSigningState,
+    requestedBy?: string,
+    validitySeconds?: number
+  ): Promise<SignOutcome> {
+    const ledger = getSnapshotLedger();
+    const pendingStore = getPendingSignatures();
+    const validity = getVaultValidity(state.vaultChain.vault!);
+    const kind = request.kind ?? 'deposit';
+    const issued = (record: SnapshotRecord, reused: boolean) => {
+      snapshotsIssued.inc({ kind, chain: state.vaultChain.name, reused: String(reused) });
+      return { record, reused };
+    };
+
+    // 7. Reuse a signature for the same request while it has at least the vault's minimum validity left
+    const existing = ledger.findReusable(request, validity.minSeconds);
+    if (existing) {
+      logger.info(`Reusing snapshot ${existing.id} signed at ${existing.createdAt} (deadline ${existing.deadline})`);
+      return issued(existing, true);
+    }
+
+    // Signatures still on their way are reused on the same terms as signed ones
+    const key = snapshotRequestKey(request);
+    const now = Math.floor(Date.now() / 1000);
+    const inFlight = signaturesInFlight.get(key);
+    if (inFlight && inFlight.deadline - now >= validity.minSeconds) {
+      logger.info('Identical snapshot request already in flight, waiting for its signature');
+      return this.awaitSignature(inFlight.id, inFlight.signing, record => issued(record, true));
+    }
+
+    // A transaction sent for the same request before a restart is waited for, not paid for again
+    const submitted = pendingStore.findByRequest(request, validity.minSeconds);
+    if (submitted && submitted.snapshot.signerBackend === this.signer.backend) {
+      logger.info(`Identical snapshot request pending on NEAR transaction ${submitted.submission.txHash}`);
+      return this.awaitSignature(submitted.id, completePendingSignature(submitted), record => issued(record, true));
+    }
+
+    // 8. Calculate deadline (the vault's default validity unless requested)
+    const validFor = validitySeconds ?? validity.defaultSeconds;
+    if (validFor < validity.minSeconds || validFor > validity.maxSeconds) {
+      throw new ValidationError(`validitySeconds ${validFor} is outside ${validity.minSeconds}-${validity.maxSeconds} for chain ${request.chainId}`);
+    }
+    const deadline = now + validFor;
+    logger.info(`Deadline: ${deadline} (${validFor} seconds from now)`);
+
+    const snapshotId = crypto.randomUUID();
+    const signing = (async () => {
+      // What is recorded once the signature arrives
+      const unsigned = {
+        ...request,
+        balance: state.crossChainBalance.toString(),
+        deadline: deadline.toString(),
+        domain: state.domain,
+        signerBackend: this.signer.backend,
+        sourceBlocks: state.quorum.states.map(chainState => chainState.block),
+        requestedBy: requestedBy ?? null,
+      };
+      const onSubmitted = (submission: SignatureSubmission) => {
+        pendingStore.add(snapshotId, unsigned, submission);
+      };
+
+      // 9. Sign with the configured backend
+      const labels = { backend: this.signer.backend, kind };
+      const attributes = { 'signer.backend': this.signer.backend, 'snapshot.kind': kind, 'chain.id': request.chainId };
+      const observe = signingDuration.startTimer(labels);
+      let signed;
+      try {
+        signed = await withSpan('sign snapshot', 'internal', attributes, () => sign(deadline, onSubmitted));
+      } catch (error: any) {
+        signingFailures.inc({ ...labels, code: error instanceof OracleError ? error.code : 'INTERNAL_ERROR' });
+        pendingStore.fail(snapshotId, error);
+        throw error;
+      }
+      observe();
+
+      logger.info(`Signature received from ${this.signer.backend} signer`);
+      logger.info(`   Agent Address: ${state.agentAddress}`);
+
+      // 10. Record what was signed
+      const record = ledger.record({ ...unsigned, ...signed }, snapshotId);
+      pendingStore.resolve(snapshotId);
+      return record;
+    })();
+
+    const entry = { id: snapshotId, deadline, signing };
+    signaturesInFlight.set(key, entry);
+    // A newer signature for the same request may have taken the slot meanwhile
+    const forget = () => {
+      if (signaturesInFlight.get(key) === entry) {
+        signaturesInFlight.delete(key);
+      }
+    };
+    signing.then(forget, forget);
+
+    return this.awaitSignature(snapshotId, signing, record => issued(record, false));
+  }
+
+  /**
+   * Wait up to SIGNING_RESPONSE_WAIT_SECONDS for a signature, then answer with its pending snapshot
+   *
+   * A signature whose transaction was not sent yet is waited for in full: there is nothing to poll.
+   */
+  private async awaitSignature(
+    snapshotId: string,
+    signing: Promise<SnapshotRecord>,
+    issued: (record: SnapshotRecord) => { record: SnapshotRecord; reused: boolean }
+  ): Promise<SignOutcome> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), getSigningResponseWaitSeconds() * 1000);
+    });
+
+    try {
+      const record = await Promise.race([signing, timeout]);
+      if (record) {
+        return issued(record);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const entry = getPendingSignatures().get(snapshotId);
+    if (!entry) {
+      return issued(await signing);
+    }
+    logger.info(`Snapshot ${snapshotId} still pending on NEAR transaction ${entry.submission.txHash}`);
+    return { pending: toPendingSnapshot(entry) };
+  }
+
+  /**
+   * Get total pool value (for frontend charts), or only the vault on vaultChainId
+   *
+   * Served from a short-lived cache; never use this for signing
    */
   async getPoolValue(vaultChainId?: number): Promise<PoolValueResponse> {
+    return (await this.getCachedPoolValue(vaultChainId)).value;
+  }
+
+  /**
+   * Get total pool value with its cache metadata (for HTTP cache headers)
+   */
+  async getCachedPoolValue(vaultChainId?: number): Promise<CacheLookup<PoolValueResponse>> {
+    // The pool value covers every chain in the registry, so the chain set is the key
+    const key = getAllChains().map(chain => chain.chainId).sort((a, b) => a - b).join(',');
+
+    const lookup = await poolValueCache.get(key, () => this.computePoolValue());
+    logger.debug(`Pool value cache ${lookup.hit ? 'hit' : 'miss'} for chains ${key}`);
+    return vaultChainId === undefined ? lookup : { ...lookup, value: await this.scopePoolValue(lookup.value, vaultChainId) };
+  }
+
+  /**
+   * Narrow a pool value to one vault: its totals, share price and agent holdings
+   */
+  private async scopePoolValue(poolValue: PoolValueResponse, vaultChainId: number): Promise<PoolValueResponse> {
+    const vaultChain = getChainById(vaultChainId);
+    if (!vaultChain?.vault) {
+      throw new ValidationError(`No vault configured for chain ${vaultChainId}`);
+    }
+
+    const vault = poolValue.vaults.find(candidate => candidate.chainId === vaultChainId);
+    const breakdown = poolValue.breakdown.find(candidate => candidate.chainId === vaultChainId);
+    if (!vault || !breakdown) {
+      // The vault's chain was left out of the read
+      throw new ChainUnavailableError(poolValue.chains.filter(chain => chain.chainId === vaultChainId));
+    }
+
+    const agentAddress = (await this.signer.getAgentAddress(getVaultAgentKey(vaultChain.vault))).toLowerCase();
+    const totalValue = (BigInt(breakdown.aTokens) + BigInt(breakdown.idle)).toString();
+
+    return {
+      ...poolValue,
+      asset: vault.asset,
+      decimals: vault.decimals,
+      totalATokens: breakdown.aTokens,
+      totalUSDC: breakdown.idle,
+      totalPoolValue: totalValue,
+      assets: [{ asset: vault.asset, decimals: vault.decimals, totalATokens: breakdown.aTokens, totalIdle: breakdown.idle, totalValue }],
+      breakdown: [breakdown],
+      totalShares: vault.totalShares !== null && vault.shareDecimals !== null
+        ? ethers.formatUnits(vault.totalShares, vault.shareDecimals)
+        : '0.0',
+      pricePerUnit: vault.pricePerUnit,
+      apy: vault.apy,
+      vaults: [vault],
+      agentHoldings: poolValue.agentHoldings.filter(holdings => holdings.agentAddress.toLowerCase() === agentAddress),
+    };
+  }
+
+  /**
+   * Compute total pool value from fresh chain reads
+   *
+   * This aggregates aTokens + USDC across all chains and vaults
+   */
+  private async computePoolValue(): Promise<PoolValueResponse> {
     try {
       logger.info('Calculating total pool value...');
 
-      // Get agent address
-      const agentAddress = await this.nearMpc.getAgentAddress();
+      // Vaults with their own keys hold their cross-chain assets under their own agent addresses
+      const agentAddresses = await this.getVaultAgentAddresses();
 
-      // Fetch all balances
-      const chainBalances = await fetchChainBalances(agentAddress);
-      const vaultBalances = await fetchVaultBalances();
+      // Fetch all balances at one pinned block per chain
+      // Critical chains must be read fresh; the others may be served from their last good read
+      const quorum = await readChainsWithQuorum(getAllChains(), agentAddresses, chain => chain.critical);
+      const chainBalances = quorum.states.flatMap(state => state.chainBalances);
+      const vaultBalances = quorum.states.flatMap(state => (state.vaultBalance ? [state.vaultBalance] : []));
 
       // Aggregate
       const aggregated = aggregateBalances(chainBalances, vaultBalances);
+      const agentHoldings = aggregateAgentHoldings(chainBalances);
 
       // Build breakdown from vaults (vaults are on specific chains)
       const breakdown = vaultBalances.map(vb => ({
         chainId: vb.chainId,
         chainName: vb.chainName,
+        asset: vb.asset,
+        decimals: vb.decimals,
         aTokens: vb.aTokenBalance,
-        usdc: vb.usdcBalance,
+        idle: vb.idleBalance,
+        usdc: vb.idleBalance,
       }));
 
+      const primaryAsset = getPrimaryAsset();
+      const decimals = aggregated.assets.find(totals => totals.asset === primaryAsset)?.decimals
+        ?? vaultBalances.find(vb => vb.asset === primaryAsset)?.decimals
+        ?? 6;
+
+      // Share price: vault assets (including cross-chain) over vault shares
+      const now = Math.floor(Date.now() / 1000);
+      const vaults = vaultBalances.map(vb => vaultSharePrice(vb, now));
+      for (const [index, vault] of vaults.entries()) {
+        const labels = { chain: vault.chainName, vault: vault.vaultAddress };
+        vaultTotalAssets.set(labels, Number(vault.totalAssets));
+        if (vaultBalances[index].crossChainAssets !== undefined) {
+          vaultCrossChainInvestedAssets.set(labels, Number(vaultBalances[index].crossChainAssets));
+        }
+      }
+      let sharedAssets = 0n;
+      let sharedShares = 0n;
+      for (const [index, vault] of vaults.entries()) {
+        const shareDecimals = vaultBalances[index].shareDecimals;
+        if (vault.asset !== primaryAsset || vault.totalShares === null || shareDecimals === undefined) {
+          continue;
+        }
+        sharedAssets += BigInt(vault.totalAssets);
+        sharedShares += BigInt(vault.totalShares) * 10n ** BigInt(SHARE_SUM_DECIMALS - shareDecimals);
+      }
+      const pricePerUnit = sharedShares > 0n
+        ? calculatePricePerUnit(sharedAssets, sharedShares, decimals, SHARE_SUM_DECIMALS)
+        : null;
+
       const response: PoolValueResponse = {
+        asset: primaryAsset,
+        decimals,
         totalATokens: aggregated.totalATokens,
-        totalUSDC: aggregated.totalUSDC,
+        totalUSDC: aggregated.totalIdle,
         totalPoolValue: aggregated.totalValue,
+        assets: aggregated.assets,
         breakdown,
-        timestamp: Math.floor(Date.now() / 1000),
+        totalShares: ethers.formatUnits(sharedShares, SHARE_SUM_DECIMALS),
+        pricePerUnit,
+        apy: realizedApy(pricePerUnit, now),
+        vaults,
+        agentHoldings,
+        sourceBlocks: quorum.states.map(state => state.block),
+        stale: quorum.stale,
+        chains: quorum.chains,
+        timestamp: now,
       };
 
-      logger.info(`Total Pool Value: $${ethers.formatUnits(response.totalPoolValue, 6)}`);
-      logger.info(`   aTokens: $${ethers.formatUnits(response.totalATokens, 6)}`);
-      logger.info(`   USDC: $${ethers.formatUnits(response.totalUSDC, 6)}`);
+      logger.info(`Total Pool Value (${primaryAsset}): ${ethers.formatUnits(response.totalPoolValue, decimals)}`);
+      logger.info(`   aTokens: ${ethers.formatUnits(response.totalATokens, decimals)}`);
+      logger.info(`   Idle: ${ethers.formatUnits(response.totalUSDC, decimals)}`);
+      logger.info(`   Price per share: ${pricePerUnit ?? 'n/a'}`);
 
       return response;
     } catch (error) {
@@ -171,7 +721,38 @@ export class OracleService {
    * Get agent address (for verification)
    */
   async getAgentAddress(): Promise<string> {
-    return this.nearMpc.getAgentAddress();
+    return this.signer.getAgentAddress();
+  }
+
+  /**
+   * Distinct agent addresses of every vault's key, or the default key's when there are no vaults
+   */
+  private async getVaultAgentAddresses(): Promise<string[]> {
+    const vaultChains = getAllChains().filter(chain => chain.vault);
+    const addresses = vaultChains.length > 0
+      ? await Promise.all(vaultChains.map(chain => this.signer.getAgentAddress(getVaultAgentKey(chain.vault!))))
+      : [await this.signer.getAgentAddress()];
+
+    const distinct = new Map(addresses.map(address => [address.toLowerCase(), address]));
+    return [...distinct.values()];
+  }
+
+  /**
+   * How the default agent address is derived, null for the local signer
+   */
+  async getAgentDerivation(): Promise<AgentDerivation | null> {
+    return this.signer.getAgentDerivation();
+  }
+
+  /**
+   * Latest AI_AGENT() check of each vault with how its agent address is derived
+   */
+  async getVaultAgents(): Promise<Array<VaultAgentCheck & { derivation: AgentDerivation | null }>> {
+    return Promise.all(getVaultAgentChecks().map(async check => {
+      const vault = getChainById(check.chainId)?.vault;
+      const derivation = vault ? await this.signer.getAgentDerivation(getVaultAgentKey(vault)) : null;
+      return { ...check, derivation };
+    }));
   }
 }
 
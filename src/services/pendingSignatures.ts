@@ -0,0 +1,283 @@
+import fs from 'fs';
+import path from 'path';
+import { SignatureSubmission, SignerBackend, SnapshotKind } from '../types';
+import { logger } from '../utils/logger';
+import { ErrorCode, OracleError } from '../utils/errors';
+import { getSigner } from './signerService';
+import { SnapshotRecord, SnapshotRequest, getSnapshotLedger, snapshotRequestKey } from './snapshotLedger';
+
+/**
+ * Pending signatures - NEAR signing transactions sent but not yet answered
+ *
+ * A signature is added once its transaction is signed, before it is sent, so an oracle that
+ * restarts or times out waiting can poll the same transaction instead of paying for another.
+ * Stored as JSON lines at PENDING_SIGNATURES_PATH (default data/pending-signatures.jsonl); a
+ * signed snapshot moves to the snapshot ledger under the same id. Failed entries are kept
+ * for clients polling them until their snapshot deadline, then dropped when the file is
+ * compacted: at startup, and whenever superseded lines pile up.
+ */
+
+export type PendingSignatureStatus = 'pending' | 'failed';
+
+export interface PendingSignature {
+  id: string; // Snapshot id the signature is recorded under once it arrives
+  status: PendingSignatureStatus;
+  snapshot: Omit<SnapshotRecord, 'id' | 'signature' | 'createdAt'>;
+  submission: SignatureSubmission;
+  error?: { code: ErrorCode; message: string };
+  submittedAt: string;
+  updatedAt: string;
+}
+
+// What a client polling a snapshot that is not signed yet sees
+export interface PendingSnapshot {
+  snapshotId: string;
+  status: PendingSignatureStatus;
+  kind: SnapshotKind;
+  chainId: number;
+  vaultAddress: string;
+  nonce: string;
+  deadline: string;
+  txHash: string;
+  signerBackend: SignerBackend;
+  submittedAt: string;
+  error?: { code: ErrorCode; message: string };
+}
+
+// A line of the file: the entry's latest state, or a marker that it was signed
+type StoreLine = PendingSignature | { id: string; status: 'signed'; updatedAt: string };
+
+const DEFAULT_PENDING_SIGNATURES_PATH = 'data/pending-signatures.jsonl';
+// Superseded lines (old states, signed markers) tolerated before the file is rewritten
+const DEFAULT_COMPACT_AFTER_LINES = 1000;
+
+export function toPendingSnapshot(entry: PendingSignature): PendingSnapshot {
+  return {
+    snapshotId: entry.id,
+    status: entry.status,
+    kind: entry.snapshot.kind ?? 'deposit',
+    chainId: entry.snapshot.chainId,
+    vaultAddress: entry.snapshot.vaultAddress,
+    nonce: entry.snapshot.nonce,
+    deadline: entry.snapshot.deadline,
+    txHash: entry.submission.txHash,
+    signerBackend: entry.snapshot.signerBackend,
+    submittedAt: entry.submittedAt,
+    ...(entry.error ? { error: entry.error } : {}),
+  };
+}
+
+export class PendingSignatureStore {
+  private entries: Map<string, PendingSignature> = new Map();
+  private lineCount = 0; // Lines in the file
+
+  constructor(readonly filePath: string, readonly compactAfterLines = DEFAULT_COMPACT_AFTER_LINES) {
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim());
+    lines.forEach((line, index) => {
+      try {
+        const entry: StoreLine = JSON.parse(line);
+        if (entry.status === 'signed') {
+          this.entries.delete(entry.id);
+        } else {
+          this.entries.set(entry.id, entry);
+        }
+      } catch (error) {
+        // A torn last line (crash mid-write) should not stop the oracle from starting
+        logger.warn(`Skipping unreadable pending signature line ${index + 1} in ${this.filePath}: ${error}`);
+      }
+    });
+
+    this.lineCount = lines.length;
+    this.compact();
+
+    const pending = this.list().filter(entry => entry.status === 'pending').length;
+    logger.info(`Loaded ${pending} pending and ${this.entries.size - pending} failed signatures from ${this.filePath}`);
+  }
+
+  /**
+   * Rewrite the file with only the entries still tracked, dropping failed ones past their deadline
+   */
+  private compact(): void {
+    // Nobody can use a failed signature past its deadline
+    const now = Math.floor(Date.now() / 1000);
+    for (const entry of [...this.entries.values()]) {
+      if (entry.status === 'failed' && Number(entry.snapshot.deadline) < now) {
+        this.entries.delete(entry.id);
+      }
+    }
+
+    if (this.lineCount === this.entries.size) {
+      return;
+    }
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, [...this.entries.values()].map(entry => JSON.stringify(entry) + '\n').join(''));
+    fs.renameSync(tmpPath, this.filePath);
+    this.lineCount = this.entries.size;
+  }
+
+  private append(line: StoreLine): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, JSON.stringify(line) + '\n');
+    this.lineCount++;
+  }
+
+  // Compact once the entries' current states are a small part of the file
+  private compactIfNeeded(): void {
+    if (this.lineCount - this.entries.size >= this.compactAfterLines) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Persist a signing transaction about to be sent
+   */
+  add(id: string, snapshot: PendingSignature['snapshot'], submission: SignatureSubmission): PendingSignature {
+    const now = new Date().toISOString();
+    const entry: PendingSignature = { id, status: 'pending', snapshot, submission, submittedAt: now, updatedAt: now };
+    this.append(entry);
+    this.entries.set(id, entry);
+    this.compactIfNeeded();
+
+    logger.info(`Signature ${id} pending on NEAR transaction ${submission.txHash}`);
+    return entry;
+  }
+
+  /**
+   * Mark a signature as never arriving
+   */
+  fail(id: string, error: unknown): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+
+    const failed: PendingSignature = {
+      ...entry,
+      status: 'failed',
+      error: {
+        code: error instanceof OracleError ? error.code : 'INTERNAL_ERROR',
+        message: (error as any)?.message ?? String(error),
+      },
+      updatedAt: new Date().toISOString(),
+    };
+    this.append(failed);
+    this.entries.set(id, failed);
+    this.compactIfNeeded();
+
+    logger.warn(`Signature ${id} (NEAR transaction ${entry.submission.txHash}) failed: ${failed.error!.message}`);
+  }
+
+  /**
+   * Forget a signature recorded in the snapshot ledger
+   */
+  resolve(id: string): void {
+    if (!this.entries.delete(id)) {
+      return;
+    }
+    this.append({ id, status: 'signed', updatedAt: new Date().toISOString() });
+    this.compactIfNeeded();
+  }
+
+  get(id: string): PendingSignature | undefined {
+    return this.entries.get(id);
+  }
+
+  list(): PendingSignature[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * The signature still pending for the same request (vault, agent, amounts, addresses and nonce)
+   * whose snapshot stays valid for at least minRemainingSeconds
+   */
+  findByRequest(request: SnapshotRequest, minRemainingSeconds = 0): PendingSignature | undefined {
+    const key = snapshotRequestKey(request);
+    const now = Math.floor(Date.now() / 1000);
+    return this.list().find(entry =>
+      entry.status === 'pending'
+      && snapshotRequestKey(entry.snapshot) === key
+      && Number(entry.snapshot.deadline) - now >= minRemainingSeconds
+    );
+  }
+}
+
+let storeInstance: PendingSignatureStore | null = null;
+
+// Get the global pending signature store
+export function getPendingSignatures(): PendingSignatureStore {
+  if (!storeInstance) {
+    storeInstance = new PendingSignatureStore(
+      path.resolve(process.env.PENDING_SIGNATURES_PATH || DEFAULT_PENDING_SIGNATURES_PATH)
+    );
+  }
+  return storeInstance;
+}
+
+// Pending signatures being waited for, by snapshot id
+const completions: Map<string, Promise<SnapshotRecord>> = new Map();
+
+/**
+ * Wait for a pending signature's transaction and record the signed snapshot
+ *
+ * Callers waiting for the same signature share one wait.
+ */
+export function completePendingSignature(entry: PendingSignature): Promise<SnapshotRecord> {
+  const inFlight = completions.get(entry.id);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const store = getPendingSignatures();
+  const ledger = getSnapshotLedger();
+  const completion = (async () => {
+    // Recorded before the oracle stopped, but not yet marked signed
+    const recorded = ledger.get(entry.id);
+    if (recorded) {
+      store.resolve(entry.id);
+      return recorded;
+    }
+
+    try {
+      const { signature, nearCost } = await getSigner().resumeSignature(entry.submission);
+      const record = ledger.record({ ...entry.snapshot, signature, ...(nearCost ? { nearCost } : {}) }, entry.id);
+      store.resolve(entry.id);
+      return record;
+    } catch (error) {
+      store.fail(entry.id, error);
+      throw error;
+    }
+  })();
+
+  completions.set(entry.id, completion);
+  const forget = () => completions.delete(entry.id);
+  completion.then(forget, forget);
+  return completion;
+}
+
+/**
+ * Resume waiting for every pending signature left by a previous run
+ */
+export function resumePendingSignatures(): void {
+  const backend = getSigner().backend;
+  for (const entry of getPendingSignatures().list()) {
+    if (entry.status !== 'pending') {
+      continue;
+    }
+    if (entry.snapshot.signerBackend !== backend) {
+      logger.warn(`Not resuming signature ${entry.id}: submitted by the ${entry.snapshot.signerBackend} signer, running ${backend}`);
+      continue;
+    }
+
+    logger.info(`Resuming signature ${entry.id} (NEAR transaction ${entry.submission.txHash})`);
+    completePendingSignature(entry).catch(error => logger.error(`Resumed signature ${entry.id} failed:`, error));
+  }
+}
@@ -0,0 +1,262 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import type { PoolValueResponse } from './oracleService';
+
+/**
+ * Pool value history - Time series of pool values for NAV charts
+ *
+ * A background sampler records getPoolValue() every POOL_VALUE_SAMPLE_INTERVAL_SECONDS
+ * (default 300, 0 disables) as JSON lines at POOL_VALUE_HISTORY_PATH
+ * (default data/pool-value-history.jsonl). Queries return one point per resolution bucket.
+ */
+
+export interface PoolValueSample {
+  timestamp: number; // Unix seconds the pool value was computed
+  asset: string;
+  decimals: number;
+  totalPoolValue: string;
+  totalATokens: string;
+  totalUSDC: string;
+  stale: boolean;
+  pricePerUnit?: string | null; // Missing in samples recorded before share pricing
+  vaults?: { chainId: number; vaultAddress: string; pricePerUnit: string | null }[];
+  breakdown: {
+    chainId: number;
+    chainName: string;
+    asset: string;
+    decimals: number;
+    aTokens: string;
+    idle: string;
+    blockNumber: number | null;
+  }[];
+}
+
+export interface HistoryPoint extends PoolValueSample {
+  bucket: number; // Start of the resolution bucket (Unix seconds)
+  samples: number; // Samples that fell in the bucket; the point is the last of them
+}
+
+export interface HistoryQuery {
+  from: number;        // Unix seconds, inclusive
+  to: number;          // Unix seconds, inclusive
+  resolution?: number; // Bucket size in seconds; derived from maxPoints when omitted
+  maxPoints?: number;
+}
+
+export interface HistoryResult {
+  from: number;
+  to: number;
+  resolution: number;
+  points: HistoryPoint[];
+}
+
+const DEFAULT_HISTORY_PATH = 'data/pool-value-history.jsonl';
+const DEFAULT_SAMPLE_INTERVAL_SECONDS = 300;
+const DEFAULT_MAX_POINTS = 500;
+const MAX_POINTS_LIMIT = 5000;
+
+const RESOLUTION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * Parse a resolution like "300", "5m", "1h" or "1d" into seconds
+ */
+export function parseResolution(value: string): number | null {
+  const match = /^(\d+)([smhd]?)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const seconds = parseInt(match[1], 10) * RESOLUTION_UNITS[match[2] || 's'];
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Convert a pool value response into a history sample
+ */
+export function toPoolValueSample(poolValue: PoolValueResponse): PoolValueSample {
+  const blockNumbers = new Map(poolValue.sourceBlocks.map(block => [block.chainId, block.blockNumber]));
+
+  return {
+    timestamp: poolValue.timestamp,
+    asset: poolValue.asset,
+    decimals: poolValue.decimals,
+    totalPoolValue: poolValue.totalPoolValue,
+    totalATokens: poolValue.totalATokens,
+    totalUSDC: poolValue.totalUSDC,
+    stale: poolValue.stale,
+    pricePerUnit: poolValue.pricePerUnit,
+    vaults: poolValue.vaults.map(vault => ({
+      chainId: vault.chainId,
+      vaultAddress: vault.vaultAddress,
+      pricePerUnit: vault.pricePerUnit,
+    })),
+    breakdown: poolValue.breakdown.map(entry => ({
+      ...entry,
+      blockNumber: blockNumbers.get(entry.chainId) ?? null,
+    })),
+  };
+}
+
+export class PoolValueHistory {
+  private samples: PoolValueSample[] = [];
+  private endsMidLine = false;
+
+  constructor(readonly filePath: string) {
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    this.endsMidLine = content.length > 0 && !content.endsWith('\n');
+
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        this.samples.push(JSON.parse(line));
+      } catch (error) {
+        logger.warn(`Skipping unreadable pool value history line ${index + 1} in ${this.filePath}: ${error}`);
+      }
+    });
+
+    // Appends are in time order, but keep queries correct if the file was edited by hand
+    this.samples.sort((a, b) => a.timestamp - b.timestamp);
+    logger.info(`Loaded ${this.samples.length} pool value samples from ${this.filePath}`);
+  }
+
+  append(sample: PoolValueSample): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, (this.endsMidLine ? '\n' : '') + JSON.stringify(sample) + '\n');
+    this.endsMidLine = false;
+
+    // Keep samples sorted; they normally arrive in order
+    let index = this.samples.length;
+    while (index > 0 && this.samples[index - 1].timestamp > sample.timestamp) {
+      index--;
+    }
+    this.samples.splice(index, 0, sample);
+  }
+
+  /**
+   * Latest recorded share price at or before a time, for the pool or one vault
+   */
+  sharePriceAt(
+    timestamp: number,
+    vault?: { chainId: number; vaultAddress: string }
+  ): { timestamp: number; pricePerUnit: string } | undefined {
+    // Binary search for the last sample at or before the timestamp
+    let low = 0;
+    let high = this.samples.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.samples[mid].timestamp <= timestamp) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    for (let i = low - 1; i >= 0; i--) {
+      const sample = this.samples[i];
+      const pricePerUnit = vault
+        ? sample.vaults?.find(entry =>
+          entry.chainId === vault.chainId && entry.vaultAddress.toLowerCase() === vault.vaultAddress.toLowerCase()
+        )?.pricePerUnit
+        : sample.pricePerUnit;
+      if (pricePerUnit) {
+        return { timestamp: sample.timestamp, pricePerUnit };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Samples in a time range, downsampled to one point (the last sample) per bucket
+   */
+  query(query: HistoryQuery): HistoryResult {
+    const { from, to } = query;
+    const maxPoints = Math.min(Math.max(query.maxPoints ?? DEFAULT_MAX_POINTS, 1), MAX_POINTS_LIMIT);
+
+    // Widen the requested resolution if it would return more than maxPoints buckets
+    const minResolution = Math.max(Math.ceil((to - from + 1) / maxPoints), 1);
+    const resolution = Math.max(query.resolution ?? minResolution, minResolution);
+
+    const points: HistoryPoint[] = [];
+    for (const sample of this.samples) {
+      if (sample.timestamp < from || sample.timestamp > to) {
+        continue;
+      }
+
+      const bucket = from + Math.floor((sample.timestamp - from) / resolution) * resolution;
+      const last = points[points.length - 1];
+      if (last && last.bucket === bucket) {
+        points[points.length - 1] = { ...sample, bucket, samples: last.samples + 1 };
+      } else {
+        points.push({ ...sample, bucket, samples: 1 });
+      }
+    }
+
+    return { from, to, resolution, points };
+  }
+}
+
+let historyInstance: PoolValueHistory | null = null;
+
+// Get the global pool value history
+export function getPoolValueHistory(): PoolValueHistory {
+  if (!historyInstance) {
+    historyInstance = new PoolValueHistory(path.resolve(process.env.POOL_VALUE_HISTORY_PATH || DEFAULT_HISTORY_PATH));
+  }
+  return historyInstance;
+}
+
+function getSampleIntervalSeconds(): number {
+  const value = parseInt(process.env.POOL_VALUE_SAMPLE_INTERVAL_SECONDS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_SAMPLE_INTERVAL_SECONDS;
+}
+
+/**
+ * Start sampling pool values in the background
+ *
+ * Returns a function that stops the sampler, or null if sampling is disabled.
+ */
+export function startPoolValueSampler(getPoolValue: () => Promise<PoolValueResponse>): (() => void) | null {
+  const intervalSeconds = getSampleIntervalSeconds();
+  if (intervalSeconds === 0) {
+    logger.info('Pool value sampler disabled');
+    return null;
+  }
+
+  const history = getPoolValueHistory();
+  let running = false;
+
+  const sample = async () => {
+    // Skip a tick rather than pile up samples behind a slow RPC
+    if (running) {
+      logger.warn('Previous pool value sample still running, skipping this one');
+      return;
+    }
+    running = true;
+    try {
+      const poolValue = await getPoolValue();
+      history.append(toPoolValueSample(poolValue));
+      logger.debug(`Recorded pool value sample at ${poolValue.timestamp}`);
+    } catch (error) {
+      logger.warn('Failed to sample pool value:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  logger.info(`Sampling pool value every ${intervalSeconds}s into ${history.filePath}`);
+  const timer = setInterval(sample, intervalSeconds * 1000);
+  timer.unref();
+  void sample();
+
+  return () => clearInterval(timer);
+}
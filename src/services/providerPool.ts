@@ -0,0 +1,312 @@
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { ConfigError, OracleError, RpcTimeoutError, UpstreamRpcError } from '../utils/errors';
+import { rpcErrors, rpcRequestDuration } from '../utils/metrics';
+import { Span, withSpan } from '../utils/tracing';
+
+/**
+ * Provider pool - Shared EVM providers with multi-endpoint failover
+ *
+ * One pool per chain, one long-lived provider per RPC URL. Each endpoint is scored by
+ * latency and recent error rate; requests go to the best endpoint first and are retried
+ * with backoff on the next one when an endpoint fails. Endpoints that fail repeatedly
+ * are put in cooldown and only used as a last resort.
+ *
+ * RPC_TIMEOUT_MS: per-request timeout (default 10000)
+ * RPC_MAX_ATTEMPTS: attempts per request across endpoints (default 3)
+ * RPC_RETRY_BASE_MS: initial backoff between attempts, doubled each retry (default 250)
+ * RPC_FAILURE_THRESHOLD: consecutive failures before an endpoint enters cooldown (default 3)
+ * RPC_COOLDOWN_MS: how long a failing endpoint is deprioritized (default 30000)
+ */
+
+export interface RpcChain {
+  chainId: number;
+  name?: string;
+  rpcUrls: string[];
+}
+
+export interface EndpointStatus {
+  endpoint: string; // Host only; URLs often embed API keys
+  healthy: boolean;
+  score: number;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  cooldownUntil: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+export interface ChainRpcStatus {
+  chainId: number;
+  chainName: string;
+  healthy: boolean;
+  endpoints: EndpointStatus[];
+}
+
+// Smoothing factors for the latency and error rate moving averages
+const LATENCY_ALPHA = 0.3;
+const ERROR_ALPHA = 0.2;
+
+// Latency assumed for endpoints that have not answered yet
+const INITIAL_LATENCY_MS = 500;
+
+// Errors caused by the request itself rather than the endpoint: retrying elsewhere gives the same result
+const NON_RETRYABLE_CODES = ['CALL_EXCEPTION', 'BAD_DATA', 'INVALID_ARGUMENT', 'NUMERIC_FAULT', 'ACTION_REJECTED', 'UNSUPPORTED_OPERATION'];
+
+// Errors raised before anything was sent (e.g. a URL scheme the provider cannot fetch): say nothing about the endpoint
+const REQUEST_SETUP_CODES = ['UNSUPPORTED_OPERATION'];
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function endpointLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function isRetryableRpcError(error: any): boolean {
+  return !NON_RETRYABLE_CODES.includes(error?.code);
+}
+
+/**
+ * Classify a failed RPC read, keeping errors already typed
+ */
+export function toRpcError(message: string, error: any): OracleError {
+  if (error instanceof RpcTimeoutError || error?.code === 'TIMEOUT') {
+    return new RpcTimeoutError(`${message}: ${error}`, error);
+  }
+  if (error instanceof UpstreamRpcError) {
+    return new UpstreamRpcError(`${message}: ${error}`, error, error.retryable);
+  }
+  if (error instanceof OracleError) {
+    return error;
+  }
+  return new UpstreamRpcError(`${message}: ${error}`, error, isRetryableRpcError(error));
+}
+
+class RpcEndpoint {
+  readonly provider: ethers.JsonRpcProvider;
+  readonly label: string;
+
+  private latencyMs: number | null = null;
+  private errorRate = 0;
+  private requests = 0;
+  private failures = 0;
+  private consecutiveFailures = 0;
+  private cooldownUntil = 0;
+  private lastError: string | null = null;
+  private lastErrorAt = 0;
+
+  constructor(readonly url: string, chainId: number, timeoutMs: number) {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = timeoutMs;
+    // No response caching: ethers would otherwise replay a failed request to retries within 250ms
+    this.provider = new ethers.JsonRpcProvider(request, chainId, { staticNetwork: true, cacheTimeout: -1 });
+    this.label = endpointLabel(url);
+  }
+
+  isHealthy(now: number = Date.now()): boolean {
+    return now >= this.cooldownUntil;
+  }
+
+  // Lower is better: expected latency inflated by the recent error rate
+  score(now: number = Date.now()): number {
+    const latency = this.latencyMs ?? INITIAL_LATENCY_MS;
+    const score = latency * (1 + 4 * this.errorRate);
+    return this.isHealthy(now) ? score : score + 1e9;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.requests++;
+    this.latencyMs = this.latencyMs === null
+      ? latencyMs
+      : LATENCY_ALPHA * latencyMs + (1 - LATENCY_ALPHA) * this.latencyMs;
+    this.errorRate = (1 - ERROR_ALPHA) * this.errorRate;
+    this.consecutiveFailures = 0;
+    this.cooldownUntil = 0;
+  }
+
+  recordFailure(error: any, failureThreshold: number, cooldownMs: number): void {
+    this.requests++;
+    this.failures++;
+    this.consecutiveFailures++;
+    this.errorRate = ERROR_ALPHA + (1 - ERROR_ALPHA) * this.errorRate;
+    this.lastError = error?.shortMessage || error?.message || String(error);
+    this.lastErrorAt = Date.now();
+
+    if (this.consecutiveFailures >= failureThreshold) {
+      this.cooldownUntil = Date.now() + cooldownMs;
+    }
+  }
+
+  getStatus(now: number = Date.now()): EndpointStatus {
+    return {
+      endpoint: this.label,
+      healthy: this.isHealthy(now),
+      score: Math.round(this.score(now)),
+      latencyMs: this.latencyMs === null ? null : Math.round(this.latencyMs),
+      errorRate: Number(this.errorRate.toFixed(3)),
+      requests: this.requests,
+      failures: this.failures,
+      consecutiveFailures: this.consecutiveFailures,
+      cooldownUntil: this.isHealthy(now) ? null : new Date(this.cooldownUntil).toISOString(),
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt ? new Date(this.lastErrorAt).toISOString() : null,
+    };
+  }
+}
+
+export class ChainProviderPool {
+  readonly chainId: number;
+  readonly chainName: string;
+  readonly rpcUrls: string[];
+
+  private endpoints: RpcEndpoint[];
+  private maxAttempts = envInt('RPC_MAX_ATTEMPTS', 3);
+  private retryBaseMs = envInt('RPC_RETRY_BASE_MS', 250);
+  private failureThreshold = envInt('RPC_FAILURE_THRESHOLD', 3);
+  private cooldownMs = envInt('RPC_COOLDOWN_MS', 30000);
+
+  constructor(chain: RpcChain) {
+    if (chain.rpcUrls.length === 0) {
+      throw new ConfigError(`No RPC endpoints configured for chain ${chain.chainId}`);
+    }
+
+    this.chainId = chain.chainId;
+    this.chainName = chain.name || `chain ${chain.chainId}`;
+    this.rpcUrls = [...chain.rpcUrls];
+
+    const timeoutMs = envInt('RPC_TIMEOUT_MS', 10000);
+    this.endpoints = this.rpcUrls.map(url => new RpcEndpoint(url, chain.chainId, timeoutMs));
+  }
+
+  // Endpoints ordered best first; ties keep the configured order
+  private rankedEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    return this.endpoints
+      .map((endpoint, index) => ({ endpoint, index, score: endpoint.score(now) }))
+      .sort((a, b) => a.score - b.score || a.index - b.index)
+      .map(({ endpoint }) => endpoint);
+  }
+
+  /**
+   * Run a request against the best endpoint, failing over to the others on endpoint errors
+   */
+  async execute<T>(operation: (provider: ethers.JsonRpcProvider) => Promise<T>, label = 'request'): Promise<T> {
+    const attributes = { 'rpc.system': 'ethereum', 'chain.id': this.chainId, 'chain.name': this.chainName };
+    return withSpan(`RPC ${label}`, 'client', attributes, span => this.executeWithFailover(operation, label, span));
+  }
+
+  private async executeWithFailover<T>(
+    operation: (provider: ethers.JsonRpcProvider) => Promise<T>,
+    label: string,
+    span: Span
+  ): Promise<T> {
+    const ranked = this.rankedEndpoints();
+    const attempts = Math.max(this.maxAttempts, 1);
+    let lastError: any;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const endpoint = ranked[attempt % ranked.length];
+
+      if (attempt > 0) {
+        await sleep(this.retryBaseMs * 2 ** (attempt - 1));
+      }
+
+      const startedAt = Date.now();
+      const labels = { chain: this.chainName, endpoint: endpoint.label };
+      const observe = rpcRequestDuration.startTimer(labels);
+      span.setAttribute('rpc.endpoint', endpoint.label).setAttribute('rpc.attempts', attempt + 1);
+      try {
+        const result = await operation(endpoint.provider);
+        endpoint.recordSuccess(Date.now() - startedAt);
+        observe();
+        return result;
+      } catch (error: any) {
+        observe();
+        rpcErrors.inc({ ...labels, code: error?.code ?? 'UNKNOWN' });
+        span.addEvent('attempt failed', {
+          'rpc.endpoint': endpoint.label,
+          'error.type': String(error?.code ?? 'UNKNOWN'),
+          'error.message': error?.shortMessage || error?.message || String(error),
+        });
+        if (!isRetryableRpcError(error)) {
+          // The endpoint answered, or was never asked; the request itself failed
+          if (!REQUEST_SETUP_CODES.includes(error?.code)) {
+            endpoint.recordSuccess(Date.now() - startedAt);
+          }
+          throw error;
+        }
+
+        endpoint.recordFailure(error, this.failureThreshold, this.cooldownMs);
+        lastError = error;
+        logger.warn(
+          `RPC ${label} failed on ${this.chainName} via ${endpoint.label} ` +
+          `(attempt ${attempt + 1}/${attempts}): ${error?.shortMessage || error?.message || error}`
+        );
+      }
+    }
+
+    throw lastError;
+  }
+
+  getStatus(): ChainRpcStatus {
+    const now = Date.now();
+    const endpoints = this.endpoints.map(endpoint => endpoint.getStatus(now));
+    return {
+      chainId: this.chainId,
+      chainName: this.chainName,
+      healthy: endpoints.some(endpoint => endpoint.healthy),
+      endpoints,
+    };
+  }
+
+  destroy(): void {
+    this.endpoints.forEach(endpoint => endpoint.provider.destroy());
+  }
+}
+
+const pools: Map<number, ChainProviderPool> = new Map();
+
+/**
+ * Get the shared provider pool for a chain, rebuilding it if its endpoints changed
+ */
+export function getProviderPool(chain: RpcChain): ChainProviderPool {
+  const existing = pools.get(chain.chainId);
+  if (existing && existing.rpcUrls.join(',') === chain.rpcUrls.join(',')) {
+    return existing;
+  }
+
+  if (existing) {
+    logger.info(`RPC endpoints changed for ${existing.chainName}, rebuilding provider pool`);
+    existing.destroy();
+  }
+
+  const pool = new ChainProviderPool(chain);
+  pools.set(chain.chainId, pool);
+  return pool;
+}
+
+/**
+ * Health of every endpoint of the given chains
+ */
+export function getRpcStatus(chains: RpcChain[]): ChainRpcStatus[] {
+  return chains.map(chain => {
+    if (chain.rpcUrls.length === 0) {
+      return { chainId: chain.chainId, chainName: chain.name || `chain ${chain.chainId}`, healthy: false, endpoints: [] };
+    }
+    return getProviderPool(chain).getStatus();
+  });
+}
@@ -0,0 +1,122 @@
+import { ChainConfig, ComponentReadiness, SignerBackend } from '../types';
+import { getAllChains, getVaultAgentKey } from '../config/chains';
+import { logger } from '../utils/logger';
+import { CheckFailure, checkComponent, checkHeadAge } from '../utils/readiness';
+import { TtlCache } from '../utils/ttlCache';
+import { getProviderPool } from './providerPool';
+import { getSigner, getSignerBackend } from './signerService';
+import { verifyVaultAgent } from './agentVerification';
+
+/**
+ * Readiness - Whether this instance can sign right now
+ *
+ * Checks every chain's RPC head, the signer backend's own dependencies (NEAR RPC, access key,
+ * MPC root key) and that each vault's AI_AGENT() is the agent address of the vault's key. A failed
+ * check on anything signing depends on makes the instance not ready; a failed non-critical
+ * chain without vaults depending on it only degrades it.
+ *
+ * READY_CACHE_SECONDS: how long a report is reused across probes (default 5, 0 disables)
+ */
+
+export interface ReadinessReport {
+  status: 'ready' | 'degraded' | 'not_ready';
+  ready: boolean;
+  signerBackend: SignerBackend;
+  components: ComponentReadiness[];
+  timestamp: string;
+}
+
+function getReadyCacheSeconds(): number {
+  const value = parseInt(process.env.READY_CACHE_SECONDS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : 5;
+}
+
+// Probes arriving together share one round of checks
+const readinessCache = new TtlCache<ReadinessReport>(getReadyCacheSeconds() * 1000);
+
+let lastStatus: ReadinessReport['status'] | null = null;
+
+// Chains that must be fresh for some vault to sign, plus chains marked critical
+function requiredChainIds(chains: ChainConfig[]): Set<number> {
+  const required = new Set(chains.filter(chain => chain.critical).map(chain => chain.chainId));
+  for (const vaultChain of chains.filter(chain => chain.vault)) {
+    const requiredChains = vaultChain.vault!.requiredChains;
+    for (const chain of chains) {
+      if (chain.chainId === vaultChain.chainId || !requiredChains || requiredChains.includes(chain.key)) {
+        required.add(chain.chainId);
+      }
+    }
+  }
+  return required;
+}
+
+function checkChainHead(chain: ChainConfig, required: boolean): Promise<ComponentReadiness> {
+  return checkComponent(`chain:${chain.key}`, required, async () => {
+    const block = await getProviderPool(chain).execute(provider => provider.getBlock('latest'), 'getBlock');
+    if (!block) {
+      throw new CheckFailure('RPC returned no latest block', { chainId: chain.chainId });
+    }
+    return checkHeadAge(block.timestamp, { chainId: chain.chainId, blockNumber: block.number });
+  });
+}
+
+function checkVaultAgent(chain: ChainConfig, agentAddress: () => Promise<string>): Promise<ComponentReadiness> {
+  return checkComponent(`vault-agent:${chain.key}`, true, async () => {
+    const check = await verifyVaultAgent(chain, await agentAddress());
+    const details = { chainId: chain.chainId, vaultAddress: check.vaultAddress, agentAddress: check.agentAddress, vaultAgent: check.vaultAgent };
+    if (check.status === 'mismatch') {
+      throw new CheckFailure('vault AI_AGENT() is not the signer agent address', details);
+    }
+    if (check.status === 'unverified') {
+      throw new CheckFailure(check.error!, details);
+    }
+    return { details };
+  });
+}
+
+/**
+ * Run every readiness check
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const signer = getSigner();
+  const chains = getAllChains();
+  const required = requiredChainIds(chains);
+
+  // Each vault is checked against the agent address of its own MPC key
+  const getVaultAgent = (chain: ChainConfig) => () => signer.getAgentAddress(getVaultAgentKey(chain.vault!));
+
+  const [signerChecks, chainChecks, agentChecks] = await Promise.all([
+    signer.checkReadiness(),
+    Promise.all(chains.map(chain => checkChainHead(chain, required.has(chain.chainId)))),
+    Promise.all(chains.filter(chain => chain.vault).map(chain => checkVaultAgent(chain, getVaultAgent(chain)))),
+  ]);
+  const components = [...signerChecks, ...chainChecks, ...agentChecks];
+
+  const failed = components.filter(component => component.status === 'failed');
+  const status = failed.some(component => component.required) ? 'not_ready' : failed.length > 0 ? 'degraded' : 'ready';
+
+  if (status !== lastStatus) {
+    const summary = failed.map(component => `${component.component} (${component.message})`).join(', ');
+    if (status === 'ready') {
+      logger.info('Readiness: ready');
+    } else {
+      logger.warn(`Readiness: ${status}: ${summary}`);
+    }
+    lastStatus = status;
+  }
+
+  return {
+    status,
+    ready: status !== 'not_ready',
+    signerBackend: getSignerBackend(),
+    components,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Readiness report, reused for READY_CACHE_SECONDS
+ */
+export async function getReadiness(): Promise<ReadinessReport> {
+  return (await readinessCache.get('readiness', checkReadiness)).value;
+}
@@ -0,0 +1,61 @@
+import { logger } from '../utils/logger';
+import { ConfigError } from '../utils/errors';
+import { SignerBackend, SnapshotSigner } from '../types';
+import { getNearMpc } from './nearMpcService';
+import { getNearContract } from './nearContractService';
+import { LocalSigner } from './localSigner';
+
+const SIGNER_BACKENDS: SignerBackend[] = ['mpc', 'contract', 'local'];
+
+// Environment variables each backend needs
+const BACKEND_REQUIRED_ENV: Record<SignerBackend, string[]> = {
+  mpc: ['NEAR_ACCOUNT_ID', 'NEAR_PRIVATE_KEY'],
+  contract: ['NEAR_ACCOUNT_ID', 'NEAR_PRIVATE_KEY', 'NEAR_CONTRACT_ID'],
+  local: ['LOCAL_SIGNER_PRIVATE_KEY'],
+};
+
+let signerInstance: SnapshotSigner | null = null;
+
+/**
+ * Get the configured signer backend (SIGNER_BACKEND, defaults to the rebalancer contract)
+ */
+export function getSignerBackend(): SignerBackend {
+  const backend = (process.env.SIGNER_BACKEND || 'contract').toLowerCase() as SignerBackend;
+  if (!SIGNER_BACKENDS.includes(backend)) {
+    throw new ConfigError(`Invalid SIGNER_BACKEND: ${backend}. Expected one of: ${SIGNER_BACKENDS.join(', ')}`);
+  }
+  return backend;
+}
+
+/**
+ * Get the environment variables required by the configured signer backend
+ */
+export function getSignerRequiredEnv(): string[] {
+  return BACKEND_REQUIRED_ENV[getSignerBackend()];
+}
+
+// Initialize global signer
+export function initializeSigner(): SnapshotSigner {
+  return getSigner();
+}
+
+// Get global signer instance for the configured backend
+export function getSigner(): SnapshotSigner {
+  if (!signerInstance) {
+    const backend = getSignerBackend();
+    logger.info(`Using signer backend: ${backend}`);
+
+    switch (backend) {
+      case 'mpc':
+        signerInstance = getNearMpc();
+        break;
+      case 'contract':
+        signerInstance = getNearContract();
+        break;
+      case 'local':
+        signerInstance = new LocalSigner();
+        break;
+    }
+  }
+  return signerInstance;
+}
@@ -0,0 +1,157 @@
+import { ChainFreshness } from '../types';
+import { ChainUnavailableError, QuorumRead } from './chainQuorum';
+import { logger } from '../utils/logger';
+import { sendAlert } from '../utils/alerts';
+import { PolicyError } from '../utils/errors';
+
+/**
+ * Signing guard - Compares the balance about to be signed with what the oracle observes
+ *
+ * The vault's crossChainInvestedAssets is checked against the agent's holdings of the vault
+ * asset on every other chain. SIGNING_GUARD_MODE chooses what happens when they deviate by more
+ * than SIGNING_MAX_DEVIATION_BPS (default 200): "enforce" (default) refuses to sign, "warn" signs
+ * anyway, "off" only reports. Either way an alert is raised. Deviations are never enforced while
+ * a chain is unavailable, since its holdings are missing from the observed side.
+ */
+
+export type SigningGuardMode = 'enforce' | 'warn' | 'off';
+
+// passed: within threshold; failed: refused; warned/incomplete/disabled: exceeded but signed
+export type BalanceCheckOutcome = 'passed' | 'failed' | 'warned' | 'incomplete' | 'disabled';
+
+export interface BalanceSanityCheck {
+  outcome: BalanceCheckOutcome;
+  asset: string;
+  decimals: number;
+  signedBalance: string;   // crossChainInvestedAssets being signed
+  observedBalance: string; // Agent's holdings on other chains, in the vault asset's decimals
+  deviationBps: number;
+  maxDeviationBps: number;
+  chains: {
+    chainId: number;
+    chainName: string;
+    status: ChainFreshness;
+    balance: string | null; // Null when the chain could not be read
+  }[];
+}
+
+export class BalanceSanityError extends PolicyError {
+  constructor(readonly check: BalanceSanityCheck) {
+    super(
+      `Signed balance ${check.signedBalance} deviates ${check.deviationBps} bps from observed ` +
+      `${check.observedBalance} ${check.asset} (max ${check.maxDeviationBps} bps)`,
+      'BALANCE_SANITY_CHECK_FAILED',
+      409,
+      false
+    );
+    this.name = 'BalanceSanityError';
+  }
+
+  get details(): Record<string, unknown> {
+    return { sanityCheck: this.check };
+  }
+}
+
+const GUARD_MODES: SigningGuardMode[] = ['enforce', 'warn', 'off'];
+const DEFAULT_MAX_DEVIATION_BPS = 200;
+
+function getGuardMode(): SigningGuardMode {
+  const mode = (process.env.SIGNING_GUARD_MODE || 'enforce').toLowerCase() as SigningGuardMode;
+  return GUARD_MODES.includes(mode) ? mode : 'enforce';
+}
+
+function getMaxDeviationBps(): number {
+  const value = parseInt(process.env.SIGNING_MAX_DEVIATION_BPS || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_MAX_DEVIATION_BPS;
+}
+
+// Convert an amount between decimals
+function scaleAmount(amount: bigint, fromDecimals: number, toDecimals: number): bigint {
+  return toDecimals >= fromDecimals
+    ? amount * 10n ** BigInt(toDecimals - fromDecimals)
+    : amount / 10n ** BigInt(fromDecimals - toDecimals);
+}
+
+/**
+ * Check the cross-chain balance to be signed against the agent's observed holdings
+ *
+ * Throws BalanceSanityError when the guard enforces and the deviation is too large.
+ */
+export function checkCrossChainBalance(
+  signedBalance: bigint,
+  vaultChainId: number,
+  quorum: QuorumRead
+): BalanceSanityCheck {
+  const vaultBalance = quorum.states.find(state => state.chainId === vaultChainId)?.vaultBalance;
+  if (!vaultBalance) {
+    // The vault's chain was left out of the read or its vault could not be read
+    const error = `No vault balance read on chain ${vaultChainId}`;
+    const status = quorum.chains.find(chain => chain.chainId === vaultChainId);
+    throw new ChainUnavailableError([
+      status
+        ? { ...status, error: status.error ?? error }
+        : { chainId: vaultChainId, chainName: `Chain ${vaultChainId}`, status: 'unavailable', critical: true, blockNumber: null, ageSeconds: 0, error },
+    ]);
+  }
+  const { asset, decimals } = vaultBalance;
+
+  let observed = 0n;
+  const chains: BalanceSanityCheck['chains'] = [];
+  for (const status of quorum.chains) {
+    if (status.chainId === vaultChainId) {
+      continue;
+    }
+
+    const state = quorum.states.find(candidate => candidate.chainId === status.chainId);
+    const holdings = state?.chainBalances
+      .filter(balance => balance.asset === asset)
+      .reduce((sum, balance) => sum + scaleAmount(BigInt(balance.aTokenBalance), balance.decimals, decimals), 0n);
+    if (holdings !== undefined) {
+      observed += holdings;
+    }
+    chains.push({
+      chainId: status.chainId,
+      chainName: status.chainName,
+      status: status.status,
+      balance: holdings !== undefined ? holdings.toString() : null,
+    });
+  }
+
+  const difference = signedBalance > observed ? signedBalance - observed : observed - signedBalance;
+  const larger = signedBalance > observed ? signedBalance : observed;
+  const maxDeviationBps = getMaxDeviationBps();
+  const exceeded = difference * 10000n > BigInt(maxDeviationBps) * larger;
+
+  const mode = getGuardMode();
+  const complete = chains.every(chain => chain.status !== 'unavailable');
+  let outcome: BalanceCheckOutcome = 'passed';
+  if (exceeded) {
+    outcome = mode === 'off' ? 'disabled' : mode === 'warn' ? 'warned' : complete ? 'failed' : 'incomplete';
+  }
+
+  const check: BalanceSanityCheck = {
+    outcome,
+    asset,
+    decimals,
+    signedBalance: signedBalance.toString(),
+    observedBalance: observed.toString(),
+    deviationBps: larger > 0n ? Number((difference * 10000n) / larger) : 0,
+    maxDeviationBps,
+    chains,
+  };
+
+  logger.info(`Balance sanity check: signed ${check.signedBalance}, observed ${check.observedBalance} (${check.deviationBps} bps, ${outcome})`);
+
+  if (exceeded) {
+    sendAlert(
+      'signing_balance_deviation',
+      `crossChainInvestedAssets on chain ${vaultChainId} deviates ${check.deviationBps} bps from observed holdings (${outcome})`,
+      { vaultChainId, ...check }
+    );
+  }
+  if (outcome === 'failed') {
+    throw new BalanceSanityError(check);
+  }
+
+  return check;
+}
@@ -0,0 +1,197 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { EIP712Domain, NearTransactionCost, PinnedBlock, SignerBackend, SnapshotKind } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Snapshot ledger - Append-only record of every balance snapshot the oracle signed
+ *
+ * Stored as JSON lines at SNAPSHOT_LEDGER_PATH (default data/snapshots.jsonl) and indexed in
+ * memory on startup. Lets us answer "what did the oracle sign?" when a deposit or withdrawal
+ * reverts, and lets a retry of the same request at the same nonce reuse a still-valid signature.
+ */
+
+export interface SnapshotRecord {
+  id: string;
+  kind?: SnapshotKind; // Missing on records from before withdrawal snapshots, which are deposits
+  vaultAddress: string;
+  chainId: number;
+  nonce: string;
+  balance: string;
+  deadline: string;
+  assets: string;
+  shares?: string;   // Withdrawals only
+  receiver?: string; // Deposits only
+  owner?: string;    // Withdrawals only
+  signature: string;
+  domain?: EIP712Domain; // Missing on records from before domain discovery, which used AaveVault v1
+  agentAddress: string;
+  signerBackend: SignerBackend;
+  sourceBlocks: PinnedBlock[];
+  requestedBy: string | null; // API key that requested the snapshot
+  nearCost?: NearTransactionCost; // Missing for the local signer and records from before cost tracking
+  createdAt: string;
+}
+
+// What identifies a signing request: the same request at the same nonce may reuse a signature
+export type SnapshotRequest = Pick<
+  SnapshotRecord,
+  'kind' | 'chainId' | 'vaultAddress' | 'agentAddress' | 'receiver' | 'owner' | 'assets' | 'shares' | 'nonce'
+>;
+
+export interface SnapshotFilter {
+  kind?: SnapshotKind;
+  vaultAddress?: string;
+  chainId?: number;
+  receiver?: string;
+  owner?: string;
+  nonce?: string;
+  requestedBy?: string;
+  from?: number;  // Unix seconds, inclusive
+  to?: number;    // Unix seconds, inclusive
+  limit?: number;
+}
+
+const DEFAULT_LEDGER_PATH = 'data/snapshots.jsonl';
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+// A reused signature must stay valid at least this long for the client to submit it
+const DEFAULT_REUSE_MIN_REMAINING_SECONDS = 60;
+
+export function snapshotRequestKey(request: SnapshotRequest): string {
+  return [
+    request.kind ?? 'deposit',
+    request.chainId,
+    request.vaultAddress.toLowerCase(),
+    request.agentAddress.toLowerCase(),
+    request.receiver?.toLowerCase() ?? '',
+    request.owner?.toLowerCase() ?? '',
+    request.assets,
+    request.shares ?? '',
+    request.nonce,
+  ].join(':');
+}
+
+function matchesFilter(record: SnapshotRecord, filter: SnapshotFilter): boolean {
+  const createdAt = Math.floor(Date.parse(record.createdAt) / 1000);
+  return (!filter.kind || (record.kind ?? 'deposit') === filter.kind)
+    && (!filter.vaultAddress || record.vaultAddress.toLowerCase() === filter.vaultAddress.toLowerCase())
+    && (filter.chainId === undefined || record.chainId === filter.chainId)
+    && (!filter.receiver || record.receiver?.toLowerCase() === filter.receiver.toLowerCase())
+    && (!filter.owner || record.owner?.toLowerCase() === filter.owner.toLowerCase())
+    && (filter.nonce === undefined || record.nonce === filter.nonce)
+    && (!filter.requestedBy || record.requestedBy === filter.requestedBy)
+    && (filter.from === undefined || createdAt >= filter.from)
+    && (filter.to === undefined || createdAt <= filter.to);
+}
+
+export class SnapshotLedger {
+  private records: SnapshotRecord[] = [];
+  private byId: Map<string, SnapshotRecord> = new Map();
+  private byDedupKey: Map<string, SnapshotRecord> = new Map();
+  private endsMidLine = false;
+
+  constructor(readonly filePath: string) {
+    this.load();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    this.endsMidLine = content.length > 0 && !content.endsWith('\n');
+
+    const lines = content.split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        this.index(JSON.parse(line));
+      } catch (error) {
+        // A torn last line (crash mid-write) should not stop the oracle from starting
+        logger.warn(`Skipping unreadable snapshot ledger line ${index + 1} in ${this.filePath}: ${error}`);
+      }
+    });
+
+    logger.info(`Loaded ${this.records.length} snapshots from ${this.filePath}`);
+  }
+
+  private index(record: SnapshotRecord): void {
+    this.records.push(record);
+    this.byId.set(record.id, record);
+    this.byDedupKey.set(snapshotRequestKey(record), record);
+  }
+
+  /**
+   * Persist a newly signed snapshot
+   *
+   * id is given when the snapshot was handed out as pending before it was signed.
+   */
+  record(snapshot: Omit<SnapshotRecord, 'id' | 'createdAt'>, id: string = crypto.randomUUID()): SnapshotRecord {
+    const record: SnapshotRecord = {
+      id,
+      ...snapshot,
+      createdAt: new Date().toISOString(),
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Start on a fresh line if the file ends with a torn write
+    fs.appendFileSync(this.filePath, (this.endsMidLine ? '\n' : '') + JSON.stringify(record) + '\n');
+    this.endsMidLine = false;
+    this.index(record);
+
+    logger.info(`Recorded ${record.kind ?? 'deposit'} snapshot ${record.id} (vault ${record.vaultAddress}, nonce ${record.nonce})`);
+    return record;
+  }
+
+  /**
+   * Find a signed snapshot for the same request (vault, agent, amounts, addresses and nonce) that is still valid
+   */
+  findReusable(
+    query: SnapshotRequest,
+    minRemainingSeconds: number = DEFAULT_REUSE_MIN_REMAINING_SECONDS
+  ): SnapshotRecord | undefined {
+    const record = this.byDedupKey.get(snapshotRequestKey(query));
+    if (!record) {
+      return undefined;
+    }
+
+    const remaining = Number(record.deadline) - Math.floor(Date.now() / 1000);
+    return remaining >= minRemainingSeconds ? record : undefined;
+  }
+
+  get(id: string): SnapshotRecord | undefined {
+    return this.byId.get(id);
+  }
+
+  /**
+   * List snapshots matching a filter, newest first
+   */
+  list(filter: SnapshotFilter = {}): SnapshotRecord[] {
+    const limit = Math.min(Math.max(filter.limit ?? DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const matches: SnapshotRecord[] = [];
+
+    for (let i = this.records.length - 1; i >= 0 && matches.length < limit; i--) {
+      if (matchesFilter(this.records[i], filter)) {
+        matches.push(this.records[i]);
+      }
+    }
+
+    return matches;
+  }
+}
+
+let ledgerInstance: SnapshotLedger | null = null;
+
+// Get the global snapshot ledger
+export function getSnapshotLedger(): SnapshotLedger {
+  if (!ledgerInstance) {
+    ledgerInstance = new SnapshotLedger(path.resolve(process.env.SNAPSHOT_LEDGER_PATH || DEFAULT_LEDGER_PATH));
+  }
+  return ledgerInstance;
+}
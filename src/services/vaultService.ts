@@ -1,28 +1,29 @@
 import { ethers } from 'ethers';
 import { VAULT_ABI } from '../config/abis';
+import { DEFAULT_VAULT_DOMAIN, getVaultDomain } from '../config/eip712';
+import { EIP712Domain } from '../types';
 import { logger } from '../utils/logger';
+import { multicallRead } from './multicall';
+import { RpcChain, toRpcError } from './providerPool';
+import { ConfigError } from '../utils/errors';
 
 /**
  * Get the agent address (AI_AGENT) from the vault contract
  */
 export async function getAgentAddress(
   vaultAddress: string,
-  rpcUrl: string,
-  chainId: number
+  chain: RpcChain
 ): Promise<string> {
   try {
-    logger.debug(`Querying AI_AGENT address from vault ${vaultAddress} on chain ${chainId}`);
+    logger.debug(`Querying AI_AGENT address from vault ${vaultAddress} on chain ${chain.chainId}`);
 
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, provider);
-    
-    const agentAddress = await vault.AI_AGENT();
+    const agentAddress: string = await multicallRead(chain, vaultAddress, VAULT_ABI, 'AI_AGENT');
 
     logger.info(`Agent address from vault: ${agentAddress}`);
     return agentAddress;
   } catch (error) {
     logger.error(`Failed to get agent address from vault ${vaultAddress}:`, error);
-    throw new Error(`Failed to get agent address from vault: ${error}`);
+    throw toRpcError('Failed to get agent address from vault', error);
   }
 }
 
@@ -31,17 +32,16 @@ export async function getAgentAddress(
  */
 export async function getVaultNonce(
   vaultAddress: string,
-  rpcUrl: string,
-  chainId: number
+  chain: RpcChain,
+  blockTag: number | 'latest' = 'latest'
 ): Promise<bigint> {
   try {
-    logger.debug(`Querying nonce from vault ${vaultAddress} on chain ${chainId}`);
+    logger.debug(`Querying nonce from vault ${vaultAddress} on chain ${chain.chainId}`);
 
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, provider);
-    
     try {
-      const nonce = await vault.crossChainBalanceNonce();
+      const nonce: bigint = await multicallRead(
+        chain, vaultAddress, VAULT_ABI, 'crossChainBalanceNonce', [], blockTag
+      );
       logger.info(`Vault nonce: ${nonce.toString()}`);
       return nonce;
     } catch (contractError: any) {
@@ -56,7 +56,7 @@ export async function getVaultNonce(
     }
   } catch (error) {
     logger.error(`Failed to get nonce from vault ${vaultAddress}:`, error);
-    throw new Error(`Failed to get nonce from vault: ${error}`);
+    throw toRpcError('Failed to get nonce from vault', error);
   }
 }
 
@@ -65,22 +65,21 @@ export async function getVaultNonce(
  */
 export async function getCrossChainInvestedAssets(
   vaultAddress: string,
-  rpcUrl: string,
-  chainId: number
+  chain: RpcChain,
+  blockTag: number | 'latest' = 'latest'
 ): Promise<bigint> {
   try {
-    logger.debug(`Querying cross-chain invested assets from vault ${vaultAddress} on chain ${chainId}`);
+    logger.debug(`Querying cross-chain invested assets from vault ${vaultAddress} on chain ${chain.chainId}`);
 
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, provider);
-    
-    const crossChainAssets = await vault.crossChainInvestedAssets();
+    const crossChainAssets: bigint = await multicallRead(
+      chain, vaultAddress, VAULT_ABI, 'crossChainInvestedAssets', [], blockTag
+    );
 
-    logger.info(`Cross-chain invested assets: ${ethers.formatUnits(crossChainAssets, 6)}`);
+    logger.info(`Cross-chain invested assets: ${crossChainAssets.toString()}`);
     return crossChainAssets;
   } catch (error) {
     logger.error(`Failed to get cross-chain assets from vault ${vaultAddress}:`, error);
-    throw new Error(`Failed to get cross-chain assets from vault: ${error}`);
+    throw toRpcError('Failed to get cross-chain assets from vault', error);
   }
 }
 
@@ -89,22 +88,21 @@ export async function getCrossChainInvestedAssets(
  */
 export async function getVaultTotalAssets(
   vaultAddress: string,
-  rpcUrl: string,
-  chainId: number
+  chain: RpcChain,
+  blockTag: number | 'latest' = 'latest'
 ): Promise<bigint> {
   try {
-    logger.debug(`Querying total assets from vault ${vaultAddress} on chain ${chainId}`);
+    logger.debug(`Querying total assets from vault ${vaultAddress} on chain ${chain.chainId}`);
 
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, provider);
-    
-    const totalAssets = await vault.totalAssets();
+    const totalAssets: bigint = await multicallRead(
+      chain, vaultAddress, VAULT_ABI, 'totalAssets', [], blockTag
+    );
 
-    logger.info(`Vault total assets: ${ethers.formatUnits(totalAssets, 6)}`);
+    logger.info(`Vault total assets: ${totalAssets.toString()}`);
     return totalAssets;
   } catch (error) {
     logger.error(`Failed to get total assets from vault ${vaultAddress}:`, error);
-    throw new Error(`Failed to get total assets from vault: ${error}`);
+    throw toRpcError('Failed to get total assets from vault', error);
   }
 }
 
@@ -113,38 +111,123 @@ export async function getVaultTotalAssets(
  */
 export async function getVaultTotalSupply(
   vaultAddress: string,
-  rpcUrl: string,
-  chainId: number
+  chain: RpcChain,
+  blockTag: number | 'latest' = 'latest'
 ): Promise<bigint> {
   try {
-    logger.debug(`Querying total supply from vault ${vaultAddress} on chain ${chainId}`);
+    logger.debug(`Querying total supply from vault ${vaultAddress} on chain ${chain.chainId}`);
 
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, provider);
-    
-    const totalSupply = await vault.totalSupply();
+    const totalSupply: bigint = await multicallRead(
+      chain, vaultAddress, VAULT_ABI, 'totalSupply', [], blockTag
+    );
 
-    logger.info(`Vault total supply: ${ethers.formatUnits(totalSupply, 6)} shares`);
+    logger.info(`Vault total supply: ${totalSupply.toString()} shares`);
     return totalSupply;
   } catch (error) {
     logger.error(`Failed to get total supply from vault ${vaultAddress}:`, error);
-    throw new Error(`Failed to get total supply from vault: ${error}`);
+    throw toRpcError('Failed to get total supply from vault', error);
   }
 }
 
+// EIP-5267 fields bitmap: name, version, chainId, verifyingContract, salt
+const DOMAIN_FIELDS_REQUIRED = 0x0f;
+const DOMAIN_FIELD_SALT = 0x10;
+
+// Cache of EIP-712 domains by vault
+const domainCache: Map<string, EIP712Domain> = new Map();
+
+/**
+ * Get the vault's EIP-712 domain from eip712Domain() (EIP-5267)
+ *
+ * Vaults without eip712Domain() use the configured name and version. Domains are cached per
+ * vault; a domain that does not match the vault's chain or address is an error, not a fallback.
+ */
+export async function getVaultEip712Domain(
+  vaultAddress: string,
+  chain: RpcChain,
+  fallback: { name: string; version: string } = DEFAULT_VAULT_DOMAIN
+): Promise<EIP712Domain> {
+  const cacheKey = `${chain.chainId}-${vaultAddress.toLowerCase()}`;
+  const cached = domainCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  let domain: EIP712Domain;
+  try {
+    const [fields, name, version, chainId, verifyingContract, salt, extensions] = await multicallRead(
+      chain, vaultAddress, VAULT_ABI, 'eip712Domain'
+    );
+
+    const fieldBits = Number(fields);
+    if ((fieldBits & DOMAIN_FIELDS_REQUIRED) !== DOMAIN_FIELDS_REQUIRED || extensions.length > 0) {
+      throw new ConfigError(`Unsupported EIP-712 domain fields ${fields} on vault ${vaultAddress}`);
+    }
+    if (Number(chainId) !== chain.chainId || verifyingContract.toLowerCase() !== vaultAddress.toLowerCase()) {
+      throw new ConfigError(
+        `Vault ${vaultAddress} reports EIP-712 domain for ${verifyingContract} on chain ${chainId}, expected chain ${chain.chainId}`
+      );
+    }
+
+    domain = { name, version, chainId: chain.chainId, verifyingContract: vaultAddress };
+    if (fieldBits & DOMAIN_FIELD_SALT) {
+      domain.salt = salt;
+    }
+    logger.info(`Vault ${vaultAddress} EIP-712 domain: ${name} v${version}`);
+  } catch (error: any) {
+    // Reverts or empty return data: the vault predates eip712Domain()
+    if (error.code !== 'CALL_EXCEPTION' && error.code !== 'BAD_DATA') {
+      logger.error(`Failed to get EIP-712 domain from vault ${vaultAddress}:`, error);
+      throw toRpcError('Failed to get EIP-712 domain from vault', error);
+    }
+    domain = getVaultDomain(chain.chainId, vaultAddress, fallback);
+    logger.warn(`Vault ${vaultAddress} has no eip712Domain(), using configured ${domain.name} v${domain.version}`);
+  }
+
+  domainCache.set(cacheKey, domain);
+  return domain;
+}
+
+// Forget cached EIP-712 domains (e.g. after a vault is redeployed)
+export function clearVaultDomainCache(): void {
+  domainCache.clear();
+}
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// Digits kept in share prices, so small changes over a day still show up in APY
+const PRICE_PRECISION = 18;
+
 /**
  * Calculate price per unit for the vault
+ *
+ * Returns the asset value of one whole share as a decimal string
  */
-export function calculatePricePerUnit(totalValue: bigint, totalShares: bigint): string {
+export function calculatePricePerUnit(
+  totalValue: bigint,
+  totalShares: bigint,
+  assetDecimals: number = 6,
+  shareDecimals: number = assetDecimals
+): string {
   if (totalShares === BigInt(0)) {
     return '0';
   }
-  
-  // Price per unit = totalValue / totalShares
-  // Both are in 6 decimals, so result is also 6 decimals
-  const pricePerUnit = (totalValue * BigInt(1e6)) / totalShares;
-  
-  return ethers.formatUnits(pricePerUnit, 6);
+
+  // Price per unit = (totalValue / 10^assetDecimals) / (totalShares / 10^shareDecimals)
+  const pricePerUnit = (totalValue * 10n ** BigInt(shareDecimals + PRICE_PRECISION))
+    / (totalShares * 10n ** BigInt(assetDecimals));
+
+  return ethers.formatUnits(pricePerUnit, PRICE_PRECISION);
 }
 
+/**
+ * Annualize the change between two share prices, compounded (0.05 is 5%)
+ */
+export function calculateApy(currentPrice: string, pastPrice: string, elapsedSeconds: number): number | null {
+  const ratio = Number(currentPrice) / Number(pastPrice);
+  if (!Number.isFinite(ratio) || ratio <= 0 || elapsedSeconds <= 0) {
+    return null;
+  }
 
+  return Math.pow(ratio, SECONDS_PER_YEAR / elapsedSeconds) - 1;
+}
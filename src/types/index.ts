@@ -1,18 +1,64 @@
+export interface AssetConfig {
+  symbol: string;
+  address: string;
+  aTokenAddress?: string; // Fallback if the Aave pool cannot be queried
+  decimals?: number;      // Fallback if decimals() cannot be read
+}
+
+export interface VaultConfig {
+  address: string;
+  asset: string; // Symbol of the vault's underlying asset on its chain
+  requiredChains?: string[]; // Chain keys that must be fresh to sign; defaults to every chain
+  domain?: { name: string; version: string }; // EIP-712 domain if the vault has no eip712Domain()
+  validity?: SnapshotValidity; // Bounds on how long a signed snapshot stays valid
+  mpcPath?: string;    // MPC derivation path of the vault's agent key; defaults to the signer's path
+  keyVersion?: number; // MPC key version of the vault's agent key; defaults to 0
+}
+
+// Seconds from signing to a snapshot's deadline
+export interface SnapshotValidity {
+  minSeconds: number;
+  maxSeconds: number;
+  defaultSeconds: number; // Used when a request has no validitySeconds
+}
+
+// Which block a chain's reads are pinned to
+export type FinalityPolicy = 'latest' | 'safe' | 'finalized' | { confirmations: number };
+
 export interface ChainConfig {
+  key: string;
   chainId: number;
   name: string;
-  rpcUrl: string;
+  rpcUrl: string;    // First of rpcUrls
+  rpcUrls: string[]; // Endpoints in configured order, fallbacks last
+  finality: FinalityPolicy;
+  critical: boolean; // Pool value fails instead of serving stale data when this chain is down
+  multicall3Address?: string; // Defaults to the canonical Multicall3 deployment
   aavePoolAddress: string;
-  usdcAddress: string;
-  vaultAddress?: string;
+  assets: AssetConfig[];
+  vault?: VaultConfig;
+}
+
+// Block every read for a chain in a snapshot is taken at
+export interface PinnedBlock {
+  chainId: number;
+  blockNumber: number;
+  blockHash: string;
+  blockTimestamp: number;
+  finality: string;
 }
 
 export interface ChainBalance {
   chainId: number;
   chainName: string;
+  holder: string; // Agent address holding the aTokens
+  asset: string;
+  assetAddress: string;
+  decimals: number;
   aTokenBalance: string;
   aTokenAddress: string;
   blockNumber: number;
+  blockHash: string;
   timestamp: number;
 }
 
@@ -20,16 +66,64 @@ export interface VaultBalance {
   chainId: number;
   chainName: string;
   vaultAddress: string;
-  usdcBalance: string;
+  asset: string;
+  assetAddress: string;
+  decimals: number;
+  idleBalance: string;   // Underlying asset held by the vault
   aTokenBalance: string;
+  // Share pricing inputs; missing when the vault does not expose them
+  totalShares?: string;      // totalSupply()
+  shareDecimals?: number;
+  crossChainAssets?: string; // crossChainInvestedAssets()
   blockNumber: number;
+  blockHash: string;
   timestamp: number;
 }
 
+// Every balance read on one chain at one block
+export interface ChainState {
+  chainId: number;
+  chainName: string;
+  block: PinnedBlock;
+  chainBalances: ChainBalance[];
+  vaultBalance?: VaultBalance;
+}
+
+// Whether a chain's data in a response was read now, reused from an earlier read, or missing
+export type ChainFreshness = 'fresh' | 'stale' | 'unavailable';
+
+export interface ChainReadStatus {
+  chainId: number;
+  chainName: string;
+  status: ChainFreshness;
+  critical: boolean;
+  blockNumber: number | null;
+  ageSeconds: number; // Seconds since the data was read
+  error?: string;
+}
+
+export interface AssetTotals {
+  asset: string;
+  decimals: number;
+  totalATokens: string;
+  totalIdle: string;
+  totalValue: string;
+}
+
+// aTokens one agent address holds of one asset, across every chain read
+export interface AgentHoldings {
+  agentAddress: string;
+  asset: string;
+  decimals: number;
+  aTokens: string;
+}
+
 export interface AggregatedBalances {
+  // Totals for the registry's primary asset
   totalATokens: string;
-  totalUSDC: string;
+  totalIdle: string;
   totalValue: string;
+  assets: AssetTotals[];
   agentAddress: string;
   chainBalances: ChainBalance[];
   vaultBalances: VaultBalance[];
@@ -44,6 +138,109 @@ export interface CrossChainBalanceSnapshot {
   receiver: string;     // Receiver of shares
 }
 
+export interface CrossChainWithdrawSnapshot {
+  balance: string;      // Vault's crossChainInvestedAssets
+  nonce: string;        // From vault's crossChainBalanceNonce
+  deadline: string;     // Unix timestamp
+  shares: string;       // Shares to redeem (0 when withdrawing by assets)
+  assets: string;       // Assets to withdraw (0 when redeeming by shares)
+  owner: string;        // Owner of the shares
+}
+
+// Which vault flow a signed snapshot is for
+export type SnapshotKind = 'deposit' | 'withdraw';
+
+// What a NEAR signing transaction cost, from its final execution outcome
+export interface NearTransactionCost {
+  txHash: string;
+  gasBurnt: string;    // By the transaction and its receipts
+  tokensBurnt: string; // yoctoNEAR paid for that gas
+  deposit: string;     // yoctoNEAR attached
+  depositSpent?: string; // Of that, yoctoNEAR not refunded; missing on records written before refunds were tracked
+}
+
+export interface MpcSignatureResponse {
+  signature: string;
+  agentAddress: string;
+  nearCost?: NearTransactionCost; // Missing for signers that send no NEAR transaction
+}
+
+// Signing backends selectable via SIGNER_BACKEND
+export type SignerBackend = 'mpc' | 'contract' | 'local';
+
+// Which MPC key signs for a vault; unset fields fall back to the signer backend's defaults
+export interface AgentKey {
+  path?: string;
+  keyVersion?: number;
+}
+
+// How a NEAR backend's agent address is derived from the MPC root key
+export interface AgentDerivation {
+  mpcContractId: string;
+  rootPublicKey: string; // secp256k1:<base58>
+  predecessorId: string; // NEAR account that calls the MPC contract's sign()
+  path: string;
+  keyVersion: number;
+}
+
+// A NEAR signing transaction that was sent, enough to wait for its outcome again after a restart
+export interface SignatureSubmission {
+  txHash: string;
+  signerId: string;
+  receiverId: string;
+  signedTransaction: string; // base64, broadcast again if the RPC lost it
+  digest: string;            // EIP-712 hash the signature must be over
+  agentAddress: string;      // Address the signature must recover to
+  deadline: number;          // Snapshot deadline (Unix seconds); the outcome is not waited for past it
+  deposit: string;           // yoctoNEAR attached
+}
+
+// Spendable balance of a NEAR signing account against the configured thresholds
+export interface NearBalance {
+  accountId: string;
+  balance: string;    // yoctoNEAR not locked for storage or staking
+  status: 'ok' | 'low' | 'insufficient'; // low: below warnBelow; insufficient: below minBalance, signing refused
+  warnBelow: string;  // yoctoNEAR
+  minBalance: string; // yoctoNEAR
+  checkedAt: string;
+}
+
+// Result of checking one dependency for the readiness endpoint
+export interface ComponentReadiness {
+  component: string; // e.g. "chain:base-sepolia", "near-rpc"
+  status: 'ok' | 'failed';
+  required: boolean; // A failure makes the instance not ready to sign
+  latencyMs: number;
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Common interface implemented by every signing backend
+ */
+export interface SnapshotSigner {
+  readonly backend: SignerBackend;
+  initialize(): Promise<void>;
+  getAgentAddress(key?: AgentKey): Promise<string>;
+  getAgentDerivation(key?: AgentKey): Promise<AgentDerivation | null>; // null when the key is not derived through MPC
+  checkReadiness(): Promise<ComponentReadiness[]>; // Checks of the backend's own dependencies
+  checkBalance(): Promise<NearBalance | null>;     // null when the backend spends no NEAR
+  // onSubmitted is called once the signing transaction is signed, before it is sent
+  signBalanceSnapshot(
+    snapshot: CrossChainBalanceSnapshot,
+    domain: EIP712Domain,
+    key?: AgentKey,
+    onSubmitted?: (submission: SignatureSubmission) => void
+  ): Promise<MpcSignatureResponse>;
+  signWithdrawSnapshot(
+    snapshot: CrossChainWithdrawSnapshot,
+    domain: EIP712Domain,
+    key?: AgentKey,
+    onSubmitted?: (submission: SignatureSubmission) => void
+  ): Promise<MpcSignatureResponse>;
+  resumeSignature(submission: SignatureSubmission): Promise<MpcSignatureResponse>; // Wait again for a submitted transaction
+}
+
 export interface SignedBalanceSnapshot {
   snapshot: CrossChainBalanceSnapshot;
   signature: string;
@@ -62,6 +259,7 @@ export interface EIP712Domain {
   version: string;
   chainId: number;
   verifyingContract: string;
+  salt?: string;
 }
 
 export interface BalanceSnapshotRequest {
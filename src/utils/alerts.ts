@@ -0,0 +1,38 @@
+import { logger } from './logger';
+
+/**
+ * Alerts - Events an operator has to look at
+ *
+ * Always logged at error level. When ALERT_WEBHOOK_URL is set, also posted there as JSON
+ * ({ event, message, details, service, timestamp }); delivery failures are logged, never thrown.
+ */
+
+const ALERT_TIMEOUT_MS = 5000;
+
+export function sendAlert(event: string, message: string, details: Record<string, unknown> = {}): void {
+  logger.error(`ALERT ${event}: ${message}`, details);
+
+  const url = process.env.ALERT_WEBHOOK_URL;
+  if (!url) {
+    return;
+  }
+
+  fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      event,
+      message,
+      details,
+      service: 'near-mpc-oracle',
+      timestamp: new Date().toISOString(),
+    }),
+    signal: AbortSignal.timeout(ALERT_TIMEOUT_MS),
+  })
+    .then(response => {
+      if (!response.ok) {
+        logger.warn(`Alert webhook answered ${response.status} for ${event}`);
+      }
+    })
+    .catch(error => logger.warn(`Failed to deliver alert ${event}: ${error}`));
+}
@@ -0,0 +1,168 @@
+/**
+ * Errors - Typed failures with an HTTP status and a stable machine-readable code
+ *
+ * `retryable` tells API clients whether the same request may succeed later (an RPC or NEAR
+ * outage) or will keep failing until something changes (bad input, configuration, policy).
+ */
+
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFIG_ERROR'
+  | 'RPC_ERROR'
+  | 'RPC_TIMEOUT'
+  | 'CHAINS_UNAVAILABLE'
+  | 'NEAR_SIGNING_FAILED'
+  | 'NEAR_SIGNING_TIMEOUT'
+  | 'SIGNATURE_VERIFICATION_FAILED'
+  | 'BALANCE_SANITY_CHECK_FAILED'
+  | 'AGENT_MISMATCH'
+  | 'NEAR_BALANCE_LOW'
+  | 'INTERNAL_ERROR';
+
+export class OracleError extends Error {
+  constructor(
+    message: string,
+    readonly code: ErrorCode,
+    readonly status: number,
+    readonly retryable: boolean,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'OracleError';
+  }
+
+  // Extra fields for the response body
+  get details(): Record<string, unknown> {
+    return {};
+  }
+}
+
+// The request is invalid (400)
+export class ValidationError extends OracleError {
+  constructor(message: string, readonly fields?: { field: string; location: string; message: string }[]) {
+    super(message, 'VALIDATION_ERROR', 400, false);
+    this.name = 'ValidationError';
+  }
+
+  get details(): Record<string, unknown> {
+    return this.fields ? { fields: this.fields } : {};
+  }
+}
+
+// The request has no valid API key (401)
+export class AuthError extends OracleError {
+  constructor(message: string) {
+    super(message, 'UNAUTHORIZED', 401, false);
+    this.name = 'AuthError';
+  }
+}
+
+// The API key may not use the endpoint (403)
+export class ForbiddenError extends OracleError {
+  constructor(message: string) {
+    super(message, 'FORBIDDEN', 403, false);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// The requested resource does not exist (404)
+export class NotFoundError extends OracleError {
+  constructor(message: string) {
+    super(message, 'NOT_FOUND', 404, false);
+    this.name = 'NotFoundError';
+  }
+}
+
+// The oracle is misconfigured (500)
+export class ConfigError extends OracleError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'CONFIG_ERROR', 500, false, cause);
+    this.name = 'ConfigError';
+  }
+}
+
+// An EVM RPC endpoint failed or a contract call reverted (502)
+export class UpstreamRpcError extends OracleError {
+  constructor(message: string, cause?: unknown, retryable = true) {
+    super(message, 'RPC_ERROR', 502, retryable, cause);
+    this.name = 'UpstreamRpcError';
+  }
+}
+
+// An EVM RPC endpoint did not answer in time (504)
+export class RpcTimeoutError extends OracleError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'RPC_TIMEOUT', 504, true, cause);
+    this.name = 'RpcTimeoutError';
+  }
+}
+
+// The NEAR transaction requesting a signature failed (502)
+export class NearSigningError extends OracleError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'NEAR_SIGNING_FAILED', 502, true, cause);
+    this.name = 'NearSigningError';
+  }
+}
+
+// The NEAR transaction requesting a signature timed out (504)
+export class NearTimeoutError extends OracleError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'NEAR_SIGNING_TIMEOUT', 504, true, cause);
+    this.name = 'NearTimeoutError';
+  }
+}
+
+// A signature does not recover to the agent address (502)
+export class VerificationError extends OracleError {
+  constructor(message: string) {
+    super(message, 'SIGNATURE_VERIFICATION_FAILED', 502, false);
+    this.name = 'VerificationError';
+  }
+}
+
+// A signing policy refused the request
+export class PolicyError extends OracleError {
+  constructor(message: string, code: ErrorCode, status: number, retryable: boolean) {
+    super(message, code, status, retryable);
+    this.name = 'PolicyError';
+  }
+}
+
+// Errors near-api-js raises when the RPC node or the transaction timed out
+function isNearTimeout(error: any): boolean {
+  return error?.type === 'TimeoutError' || /timeout|timed out/i.test(String(error?.type ?? '') + String(error?.message ?? ''));
+}
+
+/**
+ * Classify a failure of a NEAR signing request, keeping errors already typed
+ */
+export function toNearSigningError(message: string, error: unknown): OracleError {
+  if (error instanceof OracleError) {
+    return error;
+  }
+  return isNearTimeout(error)
+    ? new NearTimeoutError(`${message}: ${error}`, error)
+    : new NearSigningError(`${message}: ${error}`, error);
+}
+
+/**
+ * Build the status and JSON body of an error response
+ *
+ * summary says what the request was doing; untyped errors become 500 INTERNAL_ERROR.
+ */
+export function toErrorResponse(error: any, summary: string): { status: number; body: Record<string, unknown> } {
+  if (error instanceof OracleError) {
+    return {
+      status: error.status,
+      body: { error: summary, code: error.code, message: error.message, retryable: error.retryable, ...error.details },
+    };
+  }
+  return {
+    status: 500,
+    body: { error: summary, code: 'INTERNAL_ERROR', message: error?.message ?? String(error), retryable: false },
+  };
+}
@@ -1,10 +1,24 @@
 import winston from 'winston';
+import { getRequestContext } from './tracing';
 
 const logLevel = process.env.LOG_LEVEL || 'info';
 
+// Tag each line with the request ID and trace of the request it was logged for
+const requestContext = winston.format(info => {
+  const context = getRequestContext();
+  if (context) {
+    info.requestId = context.requestId;
+    if (context.span) {
+      info.traceId = context.span.traceId;
+    }
+  }
+  return info;
+});
+
 export const logger = winston.createLogger({
   level: logLevel,
   format: winston.format.combine(
+    requestContext(),
     winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
     winston.format.errors({ stack: true }),
     winston.format.splat(),
@@ -15,8 +29,8 @@ export const logger = winston.createLogger({
     new winston.transports.Console({
       format: winston.format.combine(
         winston.format.colorize(),
-        winston.format.printf(({ timestamp, level, message, ...meta }) => {
-          let msg = `${timestamp} [${level}]: ${message}`;
+        winston.format.printf(({ timestamp, level, message, requestId, traceId, ...meta }) => {
+          let msg = `${timestamp} [${level}]${requestId ? ` [${requestId}]` : ''}: ${message}`;
           if (Object.keys(meta).length > 0 && meta.service) {
             delete meta.service;
             if (Object.keys(meta).length > 0) {
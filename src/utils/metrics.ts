@@ -0,0 +1,324 @@
+import { ethers } from 'ethers';
+import { NearTransactionCost } from '../types';
+
+/**
+ * Metrics - Counters, gauges and histograms in the Prometheus text exposition format
+ *
+ * Every metric lives in one process-wide registry rendered by GET /metrics. Label values
+ * should come from a bounded set (chain names, endpoint hosts, backends, route patterns),
+ * never from request input.
+ */
+
+type Labels = Record<string, string | number>;
+
+// Seconds; RPC calls and HTTP requests
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Seconds; NEAR signing waits for MPC responses across several blocks
+const SIGNING_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(names: string[], values: string[], extra?: [string, string]): string {
+  const pairs = names.map((name, index) => `${name}="${escapeLabelValue(values[index])}"`);
+  if (extra) {
+    pairs.push(`${extra[0]}="${escapeLabelValue(extra[1])}"`);
+  }
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+abstract class Metric<S> {
+  protected series: Map<string, { labels: string[]; state: S }> = new Map();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: string[]) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  protected abstract initialState(): S;
+
+  protected abstract renderSeries(labels: string[], state: S): string[];
+
+  protected stateFor(labels: Labels = {}): S {
+    const values = this.labelNames.map(name => {
+      if (labels[name] === undefined) {
+        throw new Error(`Metric ${this.name} is missing label "${name}"`);
+      }
+      return String(labels[name]);
+    });
+    const key = values.join('\u0000');
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: values, state: this.initialState() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, state } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, state));
+    }
+    return lines.join('\n');
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  protected initialState() {
+    return { value: 0 };
+  }
+
+  inc(labels?: Labels, amount = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.stateFor(labels).value += amount;
+  }
+
+  get(labels?: Labels): number {
+    return this.stateFor(labels).value;
+  }
+
+  protected renderSeries(labels: string[], state: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(state.value)}`];
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+
+  protected initialState() {
+    return { value: 0 };
+  }
+
+  set(labels: Labels | undefined, value: number): void {
+    this.stateFor(labels).value = value;
+  }
+
+  get(labels?: Labels): number {
+    return this.stateFor(labels).value;
+  }
+
+  protected renderSeries(labels: string[], state: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(state.value)}`];
+  }
+}
+
+interface HistogramState {
+  counts: number[]; // Per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramState> {
+  readonly type = 'histogram';
+
+  constructor(name: string, help: string, labelNames: string[], readonly buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  protected initialState(): HistogramState {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: Labels | undefined, value: number): void {
+    const state = this.stateFor(labels);
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket >= 0) {
+      state.counts[bucket]++;
+    }
+    state.sum += value;
+    state.count++;
+  }
+
+  // Start a timer; calling the returned function observes the elapsed seconds
+  startTimer(labels?: Labels): (extraLabels?: Labels) => number {
+    const startedAt = process.hrtime.bigint();
+    return extraLabels => {
+      const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  protected renderSeries(labels: string[], state: HistogramState): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, index) => {
+      cumulative += state.counts[index];
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, ['le', formatValue(bound)])} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, ['le', '+Inf'])} ${state.count}`);
+    lines.push(`${this.name}_sum${formatLabels(this.labelNames, labels)} ${formatValue(state.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(this.labelNames, labels)} ${state.count}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric<unknown>> = new Map();
+
+  register<M extends Metric<any>>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  render(): string {
+    return [...this.metrics.values()].map(metric => metric.render()).join('\n') + '\n';
+  }
+
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const registry = new MetricsRegistry();
+
+// EVM RPC, per attempt on an endpoint
+export const rpcRequestDuration = registry.register(new Histogram(
+  'oracle_rpc_request_duration_seconds', 'EVM RPC request latency per endpoint', ['chain', 'endpoint']
+));
+export const rpcErrors = registry.register(new Counter(
+  'oracle_rpc_errors_total', 'Failed EVM RPC requests per endpoint, by ethers error code', ['chain', 'endpoint', 'code']
+));
+
+// Vault state, in the asset's smallest unit
+export const vaultCrossChainInvestedAssets = registry.register(new Gauge(
+  'oracle_vault_cross_chain_invested_assets', 'Last read crossChainInvestedAssets of each vault', ['chain', 'vault']
+));
+export const vaultTotalAssets = registry.register(new Gauge(
+  'oracle_vault_total_assets', 'Last computed total assets of each vault, including cross-chain assets', ['chain', 'vault']
+));
+
+// Signing
+export const signingDuration = registry.register(new Histogram(
+  'oracle_signing_duration_seconds', 'Time to obtain a snapshot signature from the signer backend', ['backend', 'kind'], SIGNING_BUCKETS
+));
+export const signingFailures = registry.register(new Counter(
+  'oracle_signing_failures_total', 'Failed snapshot signatures, by error code', ['backend', 'kind', 'code']
+));
+export const snapshotsIssued = registry.register(new Counter(
+  'oracle_snapshots_issued_total', 'Signed snapshots returned to callers', ['kind', 'chain', 'reused']
+));
+
+// NEAR transactions sent by the signer backends
+export const nearTransactions = registry.register(new Counter(
+  'oracle_near_transactions_total', 'NEAR function calls that completed, successful or not', ['backend', 'contract']
+));
+export const nearGasBurnt = registry.register(new Counter(
+  'oracle_near_gas_burnt_tgas_total', 'TGas burnt by NEAR signing transactions and their receipts', ['backend', 'contract']
+));
+export const nearTokensBurnt = registry.register(new Counter(
+  'oracle_near_tokens_burnt_near_total', 'NEAR paid for gas by NEAR signing transactions', ['backend', 'contract']
+));
+export const nearDepositAttached = registry.register(new Counter(
+  'oracle_near_deposit_attached_near_total', 'NEAR attached as deposit to NEAR signing transactions', ['backend', 'contract']
+));
+export const nearDepositSpent = registry.register(new Counter(
+  'oracle_near_deposit_spent_near_total', 'NEAR of those deposits kept by the contract, after refunds', ['backend', 'contract']
+));
+export const nearAccountBalance = registry.register(new Gauge(
+  'oracle_near_account_balance_near', 'Last read spendable balance of the NEAR signing account, in NEAR', ['account']
+));
+
+// HTTP
+export const httpRequests = registry.register(new Counter(
+  'oracle_http_requests_total', 'HTTP requests by route and status', ['method', 'route', 'status']
+));
+export const httpRequestDuration = registry.register(new Histogram(
+  'oracle_http_request_duration_seconds', 'HTTP request latency by route', ['method', 'route']
+));
+
+// yoctoNEAR (10^24 per NEAR) as NEAR: sample values are doubles, too coarse for raw yoctoNEAR sums
+export function toNear(yocto: bigint): number {
+  return Number(ethers.formatUnits(yocto, 24));
+}
+
+// Gas as TGas (10^12 gas)
+function toTGas(gas: bigint): number {
+  return Number(ethers.formatUnits(gas, 12));
+}
+
+/**
+ * Get the part of an attached deposit that came back to the signer
+ *
+ * The protocol refunds all of it when the function call fails; the contract may send back what
+ * it did not need. Contract refunds are only visible in outcomes fetched with their receipts.
+ */
+function getRefundedDeposit(contract: string, deposit: bigint, result: any): bigint {
+  const callReceiptId = result?.transaction_outcome?.outcome?.receipt_ids?.[0];
+  const callOutcome = (result?.receipts_outcome ?? []).find((item: any) => item?.id === callReceiptId)?.outcome;
+  if (callOutcome?.status && 'Failure' in callOutcome.status) {
+    return deposit;
+  }
+
+  const signerId = result?.transaction?.signer_id;
+  let refunded = 0n;
+  for (const receipt of result?.receipts ?? []) {
+    if (receipt?.predecessor_id !== contract || receipt?.receiver_id !== signerId) {
+      continue;
+    }
+    for (const action of receipt?.receipt?.Action?.actions ?? []) {
+      refunded += BigInt(action?.Transfer?.deposit ?? 0);
+    }
+  }
+  return refunded < deposit ? refunded : deposit;
+}
+
+/**
+ * Record the gas and deposit of a NEAR function call from its final execution outcome
+ *
+ * Returns the call's cost for the snapshot it signed.
+ */
+export function recordNearTransaction(backend: string, contract: string, deposit: bigint, result: any): NearTransactionCost {
+  const labels = { backend, contract };
+  const outcomes = [result?.transaction_outcome, ...(result?.receipts_outcome ?? [])]
+    .map(item => item?.outcome)
+    .filter(Boolean);
+
+  let gas = 0n;
+  let tokens = 0n;
+  for (const outcome of outcomes) {
+    gas += BigInt(outcome.gas_burnt ?? 0);
+    tokens += BigInt(outcome.tokens_burnt ?? 0);
+  }
+
+  const depositSpent = deposit - getRefundedDeposit(contract, deposit, result);
+
+  nearTransactions.inc(labels);
+  nearGasBurnt.inc(labels, toTGas(gas));
+  nearTokensBurnt.inc(labels, toNear(tokens));
+  nearDepositAttached.inc(labels, toNear(deposit));
+  nearDepositSpent.inc(labels, toNear(depositSpent));
+
+  return {
+    txHash: result?.transaction?.hash ?? '',
+    gasBurnt: gas.toString(),
+    tokensBurnt: tokens.toString(),
+    deposit: deposit.toString(),
+    depositSpent: depositSpent.toString(),
+  };
+}
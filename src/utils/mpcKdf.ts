@@ -0,0 +1,63 @@
+import { utils } from 'near-api-js';
+import * as secp256k1 from 'secp256k1';
+import { SHA3 } from 'sha3';
+import { keccak256 } from 'js-sha3';
+
+const EPSILON_DERIVATION_PREFIX = 'near-mpc-recovery v0.1.0 epsilon derivation:';
+
+/**
+ * Derive epsilon for a predecessor account and path
+ * epsilon = SHA3-256("near-mpc-recovery v0.1.0 epsilon derivation:" + predecessor_id + "," + path)
+ */
+export function deriveEpsilon(predecessorId: string, path: string): Buffer {
+  // Use proper FIPS SHA3-256 (not Ethereum keccak256)
+  const sha3 = new SHA3(256);
+  sha3.update(`${EPSILON_DERIVATION_PREFIX}${predecessorId},${path}`);
+  return Buffer.from(sha3.digest());
+}
+
+/**
+ * Parse an MPC root public key ("secp256k1:<base58>" or bare base58) into uncompressed bytes
+ */
+export function parseRootPublicKey(rootPublicKey: string): Uint8Array {
+  let rootPkBytes: Uint8Array = utils.serialize.base_decode(rootPublicKey.replace('secp256k1:', ''));
+
+  // Ensure root PK is in uncompressed format (65 bytes starting with 0x04)
+  if (rootPkBytes.length === 64) {
+    // Missing the 0x04 prefix, add it
+    rootPkBytes = Buffer.concat([Buffer.from([0x04]), Buffer.from(rootPkBytes)]);
+  } else if (rootPkBytes.length === 33) {
+    // Compressed format, convert to uncompressed
+    rootPkBytes = secp256k1.publicKeyConvert(rootPkBytes, false);
+  }
+
+  return rootPkBytes;
+}
+
+/**
+ * Derive a child public key: derived_pk = root_pk + G * epsilon
+ */
+export function deriveChildPublicKey(rootPublicKey: string, predecessorId: string, path: string): Uint8Array {
+  const epsilon = deriveEpsilon(predecessorId, path);
+  const epsilonPoint = secp256k1.publicKeyCreate(epsilon, false);
+  return secp256k1.publicKeyCombine(
+    [Buffer.from(parseRootPublicKey(rootPublicKey)), Buffer.from(epsilonPoint)],
+    false
+  );
+}
+
+/**
+ * Convert an uncompressed secp256k1 public key to an EVM address
+ * EVM address = keccak256(public_key without 0x04 prefix)[12:]
+ */
+export function publicKeyToEvmAddress(publicKey: Uint8Array): string {
+  const addressHash = Buffer.from(keccak256.create().update(publicKey.slice(1)).digest());
+  return '0x' + addressHash.subarray(-20).toString('hex');
+}
+
+/**
+ * Derive the EVM address controlled by predecessorId + path under the MPC root key
+ */
+export function deriveEvmAddress(rootPublicKey: string, predecessorId: string, path: string): string {
+  return publicKeyToEvmAddress(deriveChildPublicKey(rootPublicKey, predecessorId, path));
+}
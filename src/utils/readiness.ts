@@ -0,0 +1,74 @@
+import { ComponentReadiness } from '../types';
+
+/**
+ * Readiness checks - Time-boxed probes of one dependency each
+ *
+ * READY_CHECK_TIMEOUT_MS: how long a single check may take before it fails (default 5000)
+ * READY_MAX_HEAD_AGE_SECONDS: oldest acceptable chain head, EVM or NEAR (default 120)
+ */
+
+export interface CheckResult {
+  message?: string;
+  details?: Record<string, unknown>;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getMaxHeadAgeSeconds(): number {
+  return envInt('READY_MAX_HEAD_AGE_SECONDS', 120);
+}
+
+// Thrown by a check to fail with details
+export class CheckFailure extends Error {
+  constructor(message: string, readonly details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'CheckFailure';
+  }
+}
+
+/**
+ * Run one check; it fails when it throws or exceeds READY_CHECK_TIMEOUT_MS
+ */
+export async function checkComponent(
+  component: string,
+  required: boolean,
+  check: () => Promise<CheckResult | void>
+): Promise<ComponentReadiness> {
+  const timeoutMs = envInt('READY_CHECK_TIMEOUT_MS', 5000);
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new CheckFailure(`timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    const result = (await Promise.race([check(), timeout])) || {};
+    return { component, status: 'ok', required, latencyMs: Date.now() - startedAt, ...result };
+  } catch (error: any) {
+    return {
+      component,
+      status: 'failed',
+      required,
+      latencyMs: Date.now() - startedAt,
+      message: error?.shortMessage || error?.message || String(error),
+      ...(error instanceof CheckFailure && error.details ? { details: error.details } : {}),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fail when a chain head is older than READY_MAX_HEAD_AGE_SECONDS
+ */
+export function checkHeadAge(timestampSeconds: number, details: Record<string, unknown>): CheckResult {
+  const headAgeSeconds = Math.max(Math.floor(Date.now() / 1000) - timestampSeconds, 0);
+  const maxAge = getMaxHeadAgeSeconds();
+  if (headAgeSeconds > maxAge) {
+    throw new CheckFailure(`head is ${headAgeSeconds}s old (max ${maxAge}s)`, { ...details, headAgeSeconds });
+  }
+  return { details: { ...details, headAgeSeconds } };
+}
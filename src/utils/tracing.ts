@@ -0,0 +1,339 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ConfigError } from './errors';
+import { logger } from './logger';
+
+/**
+ * Tracing - Request IDs and OpenTelemetry-compatible spans
+ *
+ * Each HTTP request runs in a context holding its request ID and current span; code called
+ * from it (log lines, RPC calls, NEAR transactions) picks both up without passing them along.
+ * Trace and span IDs follow W3C Trace Context, so an incoming traceparent header joins the
+ * caller's trace.
+ *
+ * TRACE_EXPORTER: where finished spans go, "file" or "none" (default none)
+ * TRACE_FILE_PATH: file for the file exporter (default data/traces.jsonl), one OTLP/JSON
+ *   ExportTraceServiceRequest per line as read by the collector's otlpjsonfile receiver
+ * TRACE_BATCH_SIZE: spans buffered before the file exporter writes them (default 512)
+ * TRACE_FLUSH_INTERVAL_MS: longest a span stays buffered (default 5000)
+ */
+
+export type SpanKind = 'server' | 'client' | 'internal';
+
+export type AttributeValue = string | number | boolean;
+
+export interface SpanEvent {
+  name: string;
+  timeUnixNano: string;
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface FinishedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  kind: SpanKind;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: Record<string, AttributeValue>;
+  events: SpanEvent[];
+  status: { code: 'ok' | 'error' | 'unset'; message?: string };
+}
+
+export interface SpanExporter {
+  export(span: FinishedSpan): void;
+  flush?(): Promise<void>; // Write out buffered spans
+}
+
+export interface RequestContext {
+  requestId: string;
+  span?: Span;
+}
+
+const DEFAULT_TRACE_FILE_PATH = 'data/traces.jsonl';
+const DEFAULT_BATCH_SIZE = 512;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+// Spans beyond this while writes lag behind are dropped, as OpenTelemetry's batch processor does
+const MAX_QUEUE_SIZE = 2048;
+
+const TRACEPARENT_REGEX = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+const contextStorage = new AsyncLocalStorage<RequestContext>();
+
+// Wall clock in nanoseconds since the epoch, with sub-millisecond precision from hrtime
+const clockOrigin = BigInt(Date.now()) * 1_000_000n - process.hrtime.bigint();
+
+function nowUnixNano(): bigint {
+  return clockOrigin + process.hrtime.bigint();
+}
+
+function randomId(bytes: number): string {
+  return crypto.randomBytes(bytes).toString('hex');
+}
+
+export class Span {
+  readonly spanId = randomId(8);
+  private startTime = nowUnixNano();
+  private endTime: bigint | null = null;
+  private attributes: Record<string, AttributeValue>;
+  private events: SpanEvent[] = [];
+  private status: FinishedSpan['status'] = { code: 'unset' };
+
+  constructor(
+    public name: string,
+    readonly kind: SpanKind,
+    readonly traceId: string,
+    readonly parentSpanId: string | null,
+    attributes: Record<string, AttributeValue> = {}
+  ) {
+    this.attributes = { ...attributes };
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined | null): this {
+    if (value !== undefined && value !== null) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes: Record<string, AttributeValue> = {}): this {
+    this.events.push({ name, timeUnixNano: nowUnixNano().toString(), attributes });
+    return this;
+  }
+
+  setOk(): this {
+    this.status = { code: 'ok' };
+    return this;
+  }
+
+  recordError(error: any): this {
+    this.status = { code: 'error', message: error?.message ?? String(error) };
+    return this.setAttribute('error.type', error?.code ?? error?.name);
+  }
+
+  // W3C traceparent header value naming this span as the parent
+  get traceparent(): string {
+    return `00-${this.traceId}-${this.spanId}-01`;
+  }
+
+  end(): void {
+    if (this.endTime !== null) {
+      return;
+    }
+    this.endTime = nowUnixNano();
+    getSpanExporter()?.export({
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTimeUnixNano: this.startTime.toString(),
+      endTimeUnixNano: this.endTime.toString(),
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status,
+    });
+  }
+}
+
+/**
+ * Parse a W3C traceparent header, ignoring malformed or all-zero IDs
+ */
+export function parseTraceparent(header: string | undefined): { traceId: string; spanId: string } | null {
+  const match = header ? TRACEPARENT_REGEX.exec(header.trim().toLowerCase()) : null;
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return null;
+  }
+  return { traceId: match[1], spanId: match[2] };
+}
+
+/**
+ * Start a span as a child of the current one, or of the given remote parent
+ */
+export function startSpan(
+  name: string,
+  kind: SpanKind,
+  attributes: Record<string, AttributeValue> = {},
+  remoteParent?: { traceId: string; spanId: string } | null
+): Span {
+  const parent = remoteParent ?? getRequestContext()?.span;
+  return new Span(name, kind, parent?.traceId ?? randomId(16), parent?.spanId ?? null, attributes);
+}
+
+/**
+ * Run fn in a new span that ends when it settles; errors are recorded on the span and rethrown
+ */
+export async function withSpan<T>(
+  name: string,
+  kind: SpanKind,
+  attributes: Record<string, AttributeValue>,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = startSpan(name, kind, attributes);
+  const context = getRequestContext();
+  try {
+    const result = await contextStorage.run({ requestId: context?.requestId ?? span.traceId, span }, () => fn(span));
+    span.setOk();
+    return result;
+  } catch (error) {
+    span.recordError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Run fn with a request context; everything it calls sees the request ID and span
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return contextStorage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return contextStorage.getStore();
+}
+
+export function getRequestId(): string | undefined {
+  return contextStorage.getStore()?.requestId;
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string'
+      ? { stringValue: value }
+      : typeof value === 'boolean'
+        ? { boolValue: value }
+        : Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value },
+  }));
+}
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Convert spans to one OTLP/JSON ExportTraceServiceRequest
+ */
+export function toOtlpJson(spans: FinishedSpan[]): Record<string, unknown> {
+  return {
+    resourceSpans: [{
+      resource: { attributes: toOtlpAttributes({ 'service.name': 'near-mpc-oracle' }) },
+      scopeSpans: [{
+        scope: { name: 'near-mpc-oracle' },
+        spans: spans.map(span => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          name: span.name,
+          kind: OTLP_SPAN_KIND[span.kind],
+          startTimeUnixNano: span.startTimeUnixNano,
+          endTimeUnixNano: span.endTimeUnixNano,
+          attributes: toOtlpAttributes(span.attributes),
+          events: span.events.map(event => ({ ...event, attributes: toOtlpAttributes(event.attributes) })),
+          status: { code: OTLP_STATUS_CODE[span.status.code], ...(span.status.message ? { message: span.status.message } : {}) },
+        })),
+      }],
+    }],
+  };
+}
+
+function getPositiveIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Appends finished spans to a JSON lines file
+ *
+ * Spans are buffered and written in the background, one line per batch, when batchSize spans
+ * are waiting or every flushIntervalMs, so requests never wait on the disk.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private buffer: FinishedSpan[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private pending = 0; // Spans handed to a write that has not finished
+  private dropped = 0; // Spans dropped since the last flush
+  private timer: NodeJS.Timeout;
+
+  constructor(
+    readonly filePath: string,
+    readonly batchSize = getPositiveIntEnv('TRACE_BATCH_SIZE', DEFAULT_BATCH_SIZE),
+    readonly flushIntervalMs = getPositiveIntEnv('TRACE_FLUSH_INTERVAL_MS', DEFAULT_FLUSH_INTERVAL_MS)
+  ) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.timer = setInterval(() => void this.flush(), flushIntervalMs);
+    this.timer.unref();
+  }
+
+  export(span: FinishedSpan): void {
+    if (this.buffer.length + this.pending >= MAX_QUEUE_SIZE) {
+      this.dropped++;
+      return;
+    }
+    this.buffer.push(span);
+    if (this.buffer.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  // Write buffered spans after any write already in progress
+  flush(): Promise<void> {
+    if (this.dropped > 0) {
+      logger.warn(`Dropped ${this.dropped} spans: writes to ${this.filePath} are falling behind`);
+      this.dropped = 0;
+    }
+    if (this.buffer.length > 0) {
+      const batch = this.buffer;
+      this.buffer = [];
+      this.pending += batch.length;
+      this.writing = this.writing
+        .then(() => fs.promises.appendFile(this.filePath, JSON.stringify(toOtlpJson(batch)) + '\n'))
+        .catch(error => {
+          // Tracing must not take the oracle down; the batch is lost
+          logger.error(`Failed to write ${batch.length} spans to ${this.filePath}:`, error);
+        })
+        .finally(() => {
+          this.pending -= batch.length;
+        });
+    }
+    return this.writing;
+  }
+
+  // Stop the flush timer and write what is left
+  shutdown(): Promise<void> {
+    clearInterval(this.timer);
+    return this.flush();
+  }
+}
+
+let exporter: SpanExporter | null | undefined;
+
+/**
+ * Get the span exporter configured by TRACE_EXPORTER, or null when spans are not exported
+ */
+export function getSpanExporter(): SpanExporter | null {
+  if (exporter === undefined) {
+    const kind = (process.env.TRACE_EXPORTER || 'none').toLowerCase();
+    if (kind !== 'file' && kind !== 'none') {
+      throw new ConfigError(`Invalid TRACE_EXPORTER: ${kind}. Expected one of: file, none`);
+    }
+    exporter = kind === 'file'
+      ? new FileSpanExporter(path.resolve(process.env.TRACE_FILE_PATH || DEFAULT_TRACE_FILE_PATH))
+      : null;
+  }
+  return exporter;
+}
+
+// Replace the span exporter (tests, or exporters other than the file one)
+export function setSpanExporter(value: SpanExporter | null): void {
+  exporter = value;
+}
+
+// Write out spans the exporter still buffers, e.g. before the process exits
+export async function flushSpans(): Promise<void> {
+  await exporter?.flush?.();
+}
@@ -0,0 +1,64 @@
+/**
+ * TTL cache with single-flight loading
+ *
+ * Concurrent lookups of a missing or expired key share one load; the result is kept for
+ * ttlMs. Failed loads are not cached.
+ */
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;  // ms since epoch
+  expiresAt: number; // ms since epoch
+}
+
+export interface CacheLookup<T> extends CacheEntry<T> {
+  hit: boolean; // Served from cache (or joined an in-flight load) rather than loaded by this call
+}
+
+export class TtlCache<T> {
+  private entries: Map<string, CacheEntry<T>> = new Map();
+  private inflight: Map<string, Promise<CacheEntry<T>>> = new Map();
+  private generation = 0;
+
+  constructor(private ttlMs: number) {}
+
+  async get(key: string, load: () => Promise<T>): Promise<CacheLookup<T>> {
+    const entry = this.entries.get(key);
+    if (entry && Date.now() < entry.expiresAt) {
+      return { ...entry, hit: true };
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return { ...(await pending), hit: true };
+    }
+
+    const generation = this.generation;
+    const loading = (async () => {
+      const value = await load();
+      const storedAt = Date.now();
+      const loaded: CacheEntry<T> = { value, storedAt, expiresAt: storedAt + this.ttlMs };
+      // Loads that started before a clear() are returned but not stored
+      if (this.ttlMs > 0 && generation === this.generation) {
+        this.entries.set(key, loaded);
+      }
+      return loaded;
+    })();
+    this.inflight.set(key, loading);
+    loading
+      .finally(() => {
+        if (this.inflight.get(key) === loading) {
+          this.inflight.delete(key);
+        }
+      })
+      .catch(() => undefined);
+
+    return { ...(await loading), hit: false };
+  }
+
+  clear(): void {
+    this.generation++;
+    this.entries.clear();
+    this.inflight.clear();
+  }
+}
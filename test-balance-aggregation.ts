@@ -15,7 +15,7 @@ async function testBalanceAggregation() {
     console.log(`✅ Fetched balances from ${chainBalances.length} chains`);
     
     chainBalances.forEach(cb => {
-      console.log(`   ${cb.chainName}: ${cb.aTokenBalance} aTokens`);
+      console.log(`   ${cb.chainName}: ${cb.aTokenBalance} a${cb.asset}`);
     });
 
     // Test 2: Fetch vault balances
@@ -25,7 +25,7 @@ async function testBalanceAggregation() {
     
     vaultBalances.forEach(vb => {
       console.log(`   ${vb.chainName}:`);
-      console.log(`      USDC: ${vb.usdcBalance}`);
+      console.log(`      ${vb.asset} (idle): ${vb.idleBalance}`);
       console.log(`      aTokens: ${vb.aTokenBalance}`);
     });
 
@@ -36,7 +36,7 @@ async function testBalanceAggregation() {
     console.log('\n✅ AGGREGATION RESULTS:');
     console.log('='.repeat(60));
     console.log(`Total aTokens:    ${aggregated.totalATokens} (${formatUSDC(aggregated.totalATokens)})`);
-    console.log(`Total USDC:       ${aggregated.totalUSDC} (${formatUSDC(aggregated.totalUSDC)})`);
+    console.log(`Total idle:       ${aggregated.totalIdle} (${formatUSDC(aggregated.totalIdle)})`);
     console.log(`Total Pool Value: ${aggregated.totalValue} (${formatUSDC(aggregated.totalValue)})`);
     console.log('='.repeat(60));
     
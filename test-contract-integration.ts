@@ -9,10 +9,12 @@ import dotenv from 'dotenv';
 dotenv.config({ path: './phala.env' });
 
 import { NearContractService } from './src/services/nearContractService';
+import { CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, getVaultDomain } from './src/config/eip712';
 import { ethers } from 'ethers';
 
 const VAULT_ADDRESS = '0xE168d95f8d1B8EC167A63c8E696076EC8EE95337';
 const CHAIN_ID = 421614; // Arbitrum Sepolia
+const DOMAIN = getVaultDomain(CHAIN_ID, VAULT_ADDRESS);
 
 async function testContractIntegration() {
   console.log('=== Testing NEAR Contract Integration ===\n');
@@ -57,11 +59,7 @@ async function testContractIntegration() {
     console.log('(This will call the NEAR contract which calls the MPC - may take 10-30 seconds)\n');
     
     const startTime = Date.now();
-    const result = await contractService.signBalanceSnapshot(
-      testSnapshot,
-      VAULT_ADDRESS,
-      CHAIN_ID
-    );
+    const result = await contractService.signBalanceSnapshot(testSnapshot, DOMAIN);
     const elapsed = (Date.now() - startTime) / 1000;
 
     console.log('\n=== SUCCESS ===');
@@ -71,24 +69,7 @@ async function testContractIntegration() {
 
     // Verify the signature locally
     console.log('\n=== Local Verification ===');
-    const domain = {
-      name: 'AaveVault',
-      version: '1',
-      chainId: CHAIN_ID,
-      verifyingContract: VAULT_ADDRESS,
-    };
-
-    const types = {
-      CrossChainBalanceSnapshot: [
-        { name: 'balance', type: 'uint256' },
-        { name: 'nonce', type: 'uint256' },
-        { name: 'deadline', type: 'uint256' },
-        { name: 'assets', type: 'uint256' },
-        { name: 'receiver', type: 'address' },
-      ],
-    };
-
-    const digest = ethers.TypedDataEncoder.hash(domain, types, testSnapshot);
+    const digest = ethers.TypedDataEncoder.hash(DOMAIN, CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, testSnapshot);
     console.log(`EIP-712 Digest: ${digest}`);
 
     const recoveredAddress = ethers.recoverAddress(digest, result.signature);
@@ -0,0 +1,116 @@
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { findApiKey, hashApiKey, hasScope, isApiKeyExpired, loadApiKeys, validateApiKeysFile } from '../src/config/apiKeys';
+import { apiKeyAuth, requireScope } from '../src/middleware/auth';
+
+// Minimal Express request/response doubles for the middleware
+function call(middleware: (req: any, res: any, next: () => void) => void, req: any) {
+  const result = { status: 200, body: undefined as any, next: false };
+  const res = {
+    status(code: number) { result.status = code; return this; },
+    json(body: any) { result.body = body; return this; },
+  };
+  middleware(req, res, () => { result.next = true; });
+  return result;
+}
+
+describe('API keys', () => {
+  let tmpDir: string;
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.API_KEY;
+    delete process.env.API_KEYS_PATH;
+  });
+
+  it('accepts both keys of a name during rotation until the old one expires', () => {
+    const filePath = path.join(tmpDir, 'rotation.json');
+    fs.writeFileSync(filePath, JSON.stringify({
+      keys: [
+        { name: 'frontend', sha256: hashApiKey('old-token'), scopes: ['read', 'sign'], expiresAt: '2026-01-01T00:00:00Z' },
+        { name: 'frontend', sha256: hashApiKey('new-token'), scopes: ['read', 'sign'] },
+        { name: 'tracker', sha256: hashApiKey('tracker-token').toUpperCase(), scopes: ['read'] },
+      ],
+    }));
+    const { keys } = loadApiKeys(filePath);
+    const beforeExpiry = Date.parse('2025-12-31T00:00:00Z') / 1000;
+    const afterExpiry = Date.parse('2026-01-02T00:00:00Z') / 1000;
+
+    const oldKey = findApiKey('old-token', keys)!;
+    const newKey = findApiKey('new-token', keys)!;
+    assert.strictEqual(oldKey.name, 'frontend');
+    assert.strictEqual(isApiKeyExpired(oldKey, beforeExpiry), false);
+    assert.strictEqual(isApiKeyExpired(oldKey, afterExpiry), true);
+    assert.strictEqual(isApiKeyExpired(newKey, afterExpiry), false);
+    assert.strictEqual(findApiKey('tracker-token', keys)?.name, 'tracker');
+    assert.strictEqual(findApiKey('unknown-token', keys), undefined);
+  });
+
+  it('falls back to API_KEY as an admin key without a key file', () => {
+    process.env.API_KEY = 'legacy-token';
+    const registry = loadApiKeys(path.join(tmpDir, 'missing.json'));
+
+    assert.strictEqual(registry.path, null);
+    assert.strictEqual(findApiKey('legacy-token', registry.keys)?.name, 'default');
+    assert.ok(hasScope(registry.keys[0].scopes, 'sign'));
+
+    process.env.API_KEYS_PATH = path.join(tmpDir, 'missing.json');
+    assert.throws(() => loadApiKeys(process.env.API_KEYS_PATH), /Failed to read API keys/);
+  });
+
+  it('reports every problem in a key file', () => {
+    const errors = validateApiKeysFile({
+      keys: [
+        { name: '', sha256: 'abc', scopes: ['read'] },
+        { name: 'a', sha256: hashApiKey('x'), scopes: ['write'], expiresAt: 'soon' },
+        { name: 'b', sha256: hashApiKey('x'), scopes: ['read'] },
+      ],
+    });
+
+    assert.deepStrictEqual(errors, [
+      'keys[0]: "name" must be a non-empty string',
+      'keys[0]: "sha256" must be a hex SHA-256 digest',
+      'keys[1] (a): "scopes" must be a non-empty array of read, sign, admin',
+      'keys[1] (a): "expiresAt" must be an ISO 8601 date',
+      'keys[2] (b): duplicate "sha256"',
+    ]);
+  });
+
+  it('authenticates bearer tokens and enforces scopes', () => {
+    process.env.API_KEYS_PATH = path.join(tmpDir, 'middleware.json');
+    fs.writeFileSync(process.env.API_KEYS_PATH, JSON.stringify({
+      keys: [
+        { name: 'tracker', sha256: hashApiKey('tracker-token'), scopes: ['read'] },
+        { name: 'retired', sha256: hashApiKey('retired-token'), scopes: ['admin'], expiresAt: '2020-01-01T00:00:00Z' },
+      ],
+    }));
+
+    const req: any = { path: '/api/oracle/pool-value', method: 'GET', headers: { authorization: 'Bearer tracker-token' } };
+    assert.strictEqual(call(apiKeyAuth, req).next, true);
+    assert.deepStrictEqual(req.apiKey, { name: 'tracker', scopes: ['read'] });
+    assert.strictEqual(call(requireScope('read'), req).next, true);
+
+    const forbidden = call(requireScope('sign'), req);
+    assert.deepStrictEqual([forbidden.status, forbidden.body], [
+      403,
+      { error: 'Access denied', code: 'FORBIDDEN', message: 'API key lacks the "sign" scope', retryable: false },
+    ]);
+    assert.strictEqual(forbidden.next, false);
+
+    const expired = call(apiKeyAuth, { path: '/api/oracle/rpc-status', headers: { authorization: 'Bearer retired-token' } });
+    assert.deepStrictEqual([expired.status, expired.body], [
+      401,
+      { error: 'Authentication failed', code: 'UNAUTHORIZED', message: 'API key expired', retryable: false },
+    ]);
+  });
+});
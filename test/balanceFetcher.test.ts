@@ -0,0 +1,98 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { ERC20_ABI } from '../src/config/abis';
+import { aggregateBalances, getAssetDecimals } from '../src/services/balanceFetcher';
+import { ChainConfig, VaultBalance } from '../src/types';
+import { FakeEvmRpc, startFakeEvmRpc } from './support/fakeEvmRpc';
+
+const WETH = '0x4200000000000000000000000000000000000006';
+const NO_DECIMALS = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+
+function vault(chainName: string, asset: string, decimals: number, aTokenBalance: string, idleBalance = '0'): VaultBalance {
+  return {
+    chainId: 1,
+    chainName,
+    vaultAddress: '0x773035EABdA16B5416B26E12156483C6B6F56451',
+    asset,
+    assetAddress: WETH,
+    decimals,
+    idleBalance,
+    aTokenBalance,
+    blockNumber: 1,
+    blockHash: '0x',
+    timestamp: 0,
+  };
+}
+
+describe('Balance fetcher', () => {
+  let rpc: FakeEvmRpc;
+  let chain: ChainConfig;
+
+  before(async () => {
+    process.env.RPC_MAX_ATTEMPTS = '1';
+    rpc = await startFakeEvmRpc({ chainId: 84532 });
+    rpc.addContract(WETH, ERC20_ABI, { decimals: () => 18n });
+    // A token whose decimals() reverts
+    rpc.addContract(NO_DECIMALS, ERC20_ABI, {});
+
+    chain = {
+      key: 'baseSepolia',
+      chainId: rpc.chainId,
+      name: 'Base Sepolia',
+      rpcUrl: rpc.url,
+      rpcUrls: [rpc.url],
+      finality: 'latest',
+      critical: true,
+      aavePoolAddress: '0x6a9d64f93db660eacb2b6e9424792c630cda87d8',
+      assets: [],
+    };
+  });
+
+  after(async () => {
+    delete process.env.RPC_MAX_ATTEMPTS;
+    await rpc.close();
+  });
+
+  it('reads decimals on-chain in preference to the registry', async () => {
+    assert.strictEqual(await getAssetDecimals(chain, { symbol: 'WETH', address: WETH, decimals: 6 }), 18);
+  });
+
+  it('falls back to the registry decimals when decimals() cannot be read', async () => {
+    assert.strictEqual(await getAssetDecimals(chain, { symbol: 'USDC', address: NO_DECIMALS, decimals: 6 }), 6);
+
+    await assert.rejects(
+      getAssetDecimals(chain, { symbol: 'USDC', address: NO_DECIMALS }),
+      (error: any) => {
+        assert.strictEqual(error.code, 'RPC_ERROR');
+        assert.match(error.message, /Failed to read USDC decimals on Base Sepolia/);
+        return true;
+      }
+    );
+  });
+
+  it('totals every vault asset in its own decimals', () => {
+    const aggregated = aggregateBalances([], [
+      vault('Base Sepolia', 'USDC', 6, '1000000', '500000'),
+      vault('Arbitrum Sepolia', 'USDC', 6, '2000000'),
+      vault('Base Sepolia', 'WETH', 18, '1500000000000000000000', '1'),
+    ]);
+
+    assert.deepStrictEqual(aggregated.assets, [
+      { asset: 'USDC', decimals: 6, totalATokens: '3000000', totalIdle: '500000', totalValue: '3500000' },
+      { asset: 'WETH', decimals: 18, totalATokens: '1500000000000000000000', totalIdle: '1', totalValue: '1500000000000000000001' },
+    ]);
+    // Top-level totals are the primary asset's
+    assert.strictEqual(aggregated.totalValue, '3500000');
+  });
+
+  it('refuses to add up an asset with different decimals on different chains', () => {
+    assert.throws(
+      () => aggregateBalances([], [vault('Base Sepolia', 'DAI', 18, '1'), vault('BNB Testnet', 'DAI', 6, '1')]),
+      (error: any) => {
+        assert.strictEqual(error.code, 'CONFIG_ERROR');
+        assert.strictEqual(error.message, 'DAI has 6 decimals on BNB Testnet but 18 elsewhere');
+        return true;
+      }
+    );
+  });
+});
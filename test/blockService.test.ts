@@ -0,0 +1,94 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { ERC20_ABI } from '../src/config/abis';
+import { resolveSnapshotBlock, verifyPinnedBlock } from '../src/services/blockService';
+import { fetchATokenBalance } from '../src/services/balanceFetcher';
+import { clearLastKnownGood, readChainsWithQuorum } from '../src/services/chainQuorum';
+import { ChainConfig, FinalityPolicy } from '../src/types';
+import { FakeEvmRpc, startFakeEvmRpc } from './support/fakeEvmRpc';
+
+const AGENT = '0x20f2747b4b1b3e1e4b9e5a3f4e4d4c4b4a494847';
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const A_USDC = '0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB';
+const ASSET = { symbol: 'USDC', address: USDC, aTokenAddress: A_USDC, decimals: 6 };
+
+describe('Snapshot blocks', () => {
+  let rpc: FakeEvmRpc;
+  let reorgDuringRead = false;
+
+  function chain(finality: FinalityPolicy): ChainConfig {
+    return {
+      key: 'baseSepolia',
+      chainId: rpc.chainId,
+      name: 'Base Sepolia',
+      rpcUrl: rpc.url,
+      rpcUrls: [rpc.url],
+      finality,
+      critical: true,
+      aavePoolAddress: '0x6a9d64f93db660eacb2b6e9424792c630cda87d8',
+      assets: [ASSET],
+    };
+  }
+
+  before(async () => {
+    process.env.RPC_MAX_ATTEMPTS = '1';
+    rpc = await startFakeEvmRpc({ chainId: 84532, blockNumber: 1000 });
+    rpc.addContract(A_USDC, ERC20_ABI, {
+      balanceOf: (_args, blockTag) => {
+        if (reorgDuringRead) {
+          reorgDuringRead = false;
+          rpc.reorg(990);
+        }
+        return BigInt(blockTag) * 1000n;
+      },
+    });
+  });
+
+  after(async () => {
+    delete process.env.RPC_MAX_ATTEMPTS;
+    await rpc.close();
+  });
+
+  it('pins each finality policy to its block', async () => {
+    const pinned = await Promise.all(
+      (['latest', 'safe', 'finalized', { confirmations: 5 }] as FinalityPolicy[]).map(finality => resolveSnapshotBlock(chain(finality)))
+    );
+
+    // The fake RPC puts safe 32 and finalized 64 blocks behind the head
+    assert.deepStrictEqual(pinned.map(block => [block.finality, block.blockNumber]), [
+      ['latest', 1000],
+      ['safe', 968],
+      ['finalized', 936],
+      ['5-confirmations', 995],
+    ]);
+    assert.ok(pinned.every(block => /^0x[0-9a-f]{64}$/.test(block.blockHash)));
+  });
+
+  it('reads balances at the pinned block', async () => {
+    const config = chain('finalized');
+    const block = await resolveSnapshotBlock(config);
+    rpc.setBlockNumber(1010);
+
+    const balance = await fetchATokenBalance(config, ASSET, AGENT, block);
+
+    assert.strictEqual(balance.blockNumber, 936);
+    assert.strictEqual(balance.blockHash, block.blockHash);
+    assert.strictEqual(balance.aTokenBalance, '936000');
+    rpc.setBlockNumber(1000);
+  });
+
+  it('refuses a read whose block was reorged meanwhile', async () => {
+    clearLastKnownGood();
+    reorgDuringRead = true;
+
+    await assert.rejects(readChainsWithQuorum([chain('latest')], [AGENT], () => true), (error: any) => {
+      assert.strictEqual(error.code, 'CHAINS_UNAVAILABLE');
+      assert.match(error.chains[0].error, /Block 1000 on Base Sepolia was reorged while it was read/);
+      return true;
+    });
+
+    // Blocks below the reorg keep their hash
+    const finalized = await resolveSnapshotBlock(chain('finalized'));
+    await verifyPinnedBlock(chain('finalized'), finalized);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { ERC20_ABI, VAULT_ABI } from '../src/config/abis';
+import { aggregateAgentHoldings } from '../src/services/balanceFetcher';
+import { ChainUnavailableError, clearLastKnownGood, readChainsWithQuorum } from '../src/services/chainQuorum';
+import { ChainConfig } from '../src/types';
+import { FakeEvmRpc, startFakeEvmRpc } from './support/fakeEvmRpc';
+
+const AGENT = '0x20f2747b4b1b3e1e4b9e5a3f4e4d4c4b4a494847';
+const VAULT_KEY_AGENT = '0x3001bb6aa8beed7db35a05c171dbac32341cdd1a';
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const A_USDC = '0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB';
+const VAULT = '0x773035EABdA16B5416B26E12156483C6B6F56451';
+const AAVE_POOL = '0x6a9d64f93db660eacb2b6e9424792c630cda87d8';
+
+// Chain with a USDC aToken (and optionally a vault) on a fake RPC; the Aave pool and decimals use registry fallbacks
+function fakeChain(rpc: FakeEvmRpc, key: string, withVault: boolean): ChainConfig {
+  rpc.addContract(A_USDC, ERC20_ABI, {
+    balanceOf: ([holder]) => (holder.toLowerCase() === VAULT_KEY_AGENT ? 3_000_000n : 2_000_000n),
+  });
+  if (withVault) {
+    rpc.addContract(VAULT, VAULT_ABI, { totalAssets: () => 5_000_000n });
+  }
+
+  return {
+    key,
+    chainId: rpc.chainId,
+    name: key,
+    rpcUrl: rpc.url,
+    rpcUrls: [rpc.url],
+    finality: 'latest',
+    critical: withVault,
+    aavePoolAddress: AAVE_POOL,
+    assets: [{ symbol: 'USDC', address: USDC, aTokenAddress: A_USDC, decimals: 6 }],
+    vault: withVault ? { address: VAULT, asset: 'USDC' } : undefined,
+  };
+}
+
+describe('Chain quorum', () => {
+  let vaultRpc: FakeEvmRpc;
+  let otherRpc: FakeEvmRpc;
+  let vaultChain: ChainConfig;
+  let otherChain: ChainConfig;
+
+  before(async () => {
+    process.env.RPC_MAX_ATTEMPTS = '1';
+    vaultRpc = await startFakeEvmRpc({ chainId: 84532, blockNumber: 500 });
+    otherRpc = await startFakeEvmRpc({ chainId: 11155420, blockNumber: 900 });
+    vaultChain = fakeChain(vaultRpc, 'vaultChain', true);
+    otherChain = fakeChain(otherRpc, 'otherChain', false);
+  });
+
+  after(async () => {
+    delete process.env.RPC_MAX_ATTEMPTS;
+    await vaultRpc.close();
+    await otherRpc.close();
+  });
+
+  beforeEach(() => {
+    clearLastKnownGood();
+    vaultRpc.setDown(false);
+    otherRpc.setDown(false);
+  });
+
+  it('reads every chain fresh at its own block', async () => {
+    const quorum = await readChainsWithQuorum([vaultChain, otherChain], [AGENT], chain => chain.critical);
+
+    assert.strictEqual(quorum.stale, false);
+    assert.deepStrictEqual(quorum.chains.map(chain => [chain.chainName, chain.status, chain.blockNumber]), [
+      ['vaultChain', 'fresh', 500],
+      ['otherChain', 'fresh', 900],
+    ]);
+    assert.strictEqual(quorum.states[0].vaultBalance?.aTokenBalance, '5000000');
+    assert.strictEqual(quorum.states[1].chainBalances[0].aTokenBalance, '2000000');
+  });
+
+  it('reads the holdings of every agent address at the same block', async () => {
+    const quorum = await readChainsWithQuorum([vaultChain, otherChain], [AGENT, VAULT_KEY_AGENT], chain => chain.critical);
+
+    const other = quorum.states[1];
+    assert.deepStrictEqual(other.chainBalances.map(balance => [balance.holder, balance.aTokenBalance, balance.blockNumber]), [
+      [AGENT, '2000000', 900],
+      [VAULT_KEY_AGENT, '3000000', 900],
+    ]);
+    assert.deepStrictEqual(
+      aggregateAgentHoldings(quorum.states.flatMap(state => state.chainBalances)).map(holdings => [holdings.agentAddress, holdings.aTokens]),
+      [[AGENT, '4000000'], [VAULT_KEY_AGENT, '6000000']]
+    );
+  });
+
+  it('serves a non-critical chain from its last good read when it goes down', async () => {
+    await readChainsWithQuorum([vaultChain, otherChain], [AGENT], chain => chain.critical);
+    otherRpc.setDown(true);
+
+    const quorum = await readChainsWithQuorum([vaultChain, otherChain], [AGENT], chain => chain.critical);
+
+    assert.strictEqual(quorum.stale, true);
+    const other = quorum.chains.find(chain => chain.chainName === 'otherChain')!;
+    assert.strictEqual(other.status, 'stale');
+    assert.strictEqual(other.blockNumber, 900);
+    assert.ok(other.ageSeconds >= 0);
+    assert.ok(other.error);
+    assert.strictEqual(quorum.states.length, 2);
+  });
+
+  it('leaves out a non-critical chain with no earlier read', async () => {
+    otherRpc.setDown(true);
+
+    const quorum = await readChainsWithQuorum([vaultChain, otherChain], [AGENT], chain => chain.critical);
+
+    assert.strictEqual(quorum.stale, true);
+    assert.strictEqual(quorum.chains[1].status, 'unavailable');
+    assert.deepStrictEqual(quorum.states.map(state => state.chainName), ['vaultChain']);
+  });
+
+  it('refuses when a required chain is down, even with a last good read', async () => {
+    await readChainsWithQuorum([vaultChain, otherChain], [AGENT], () => true);
+    otherRpc.setDown(true);
+
+    await assert.rejects(
+      readChainsWithQuorum([vaultChain, otherChain], [AGENT], () => true),
+      (error: any) => {
+        assert.ok(error instanceof ChainUnavailableError);
+        assert.deepStrictEqual(error.chains.map((chain: any) => chain.chainName), ['otherChain']);
+        return true;
+      }
+    );
+  });
+});
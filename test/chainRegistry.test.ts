@@ -0,0 +1,135 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { loadChainRegistry, validateRegistryProfile } from '../src/config/chains';
+
+const validChain = {
+  key: 'polygonAmoy',
+  chainId: 80002,
+  name: 'Polygon Amoy',
+  rpcUrlEnv: 'POLYGON_AMOY_RPC',
+  aavePoolAddress: '0x6Ae43d3271ff6888e7Fc43Fd7321a503ff738951',
+  assets: [
+    { symbol: 'USDC', address: '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582' },
+    { symbol: 'DAI', address: '0x1D70D57ccD2798323232B2dD027B3aBcA5C00091', decimals: 18 },
+  ],
+  vault: { address: '0x773035EABdA16B5416B26E12156483C6B6F56451', asset: 'DAI' },
+};
+
+describe('Chain registry', () => {
+  let tmpDir: string;
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chain-registry-'));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('loads both profiles of the shipped registry', () => {
+    const testnet = loadChainRegistry('config/chains.json', 'testnet');
+    const mainnet = loadChainRegistry('config/chains.json', 'mainnet');
+
+    assert.ok(testnet.chains.some(chain => chain.chainId === 84532 && chain.vault?.asset === 'USDC'));
+    assert.ok(mainnet.chains.some(chain => chain.chainId === 1));
+    assert.deepStrictEqual(testnet.requiredEnv, ['ETHEREUM_SEPOLIA_RPC', 'BASE_SEPOLIA_RPC', 'ARBITRUM_SEPOLIA_RPC']);
+  });
+
+  it('loads YAML registries and resolves env overrides', () => {
+    const filePath = path.join(tmpDir, 'chains.yaml');
+    fs.writeFileSync(filePath, [
+      'profiles:',
+      '  staging:',
+      '    primaryAsset: DAI',
+      '    chains:',
+      ...Object.entries(validChain).map(([key, value], i) => `      ${i === 0 ? '- ' : '  '}${key}: ${JSON.stringify(value)}`),
+    ].join('\n'));
+
+    process.env.POLYGON_AMOY_RPC = 'https://rpc-amoy.polygon.technology';
+    const registry = loadChainRegistry(filePath, 'staging');
+    process.env.POLYGON_AMOY_RPC = 'https://rpc-amoy.polygon.technology, https://polygon-amoy.drpc.org';
+    const failoverRegistry = loadChainRegistry(filePath, 'staging');
+    delete process.env.POLYGON_AMOY_RPC;
+
+    assert.strictEqual(registry.primaryAsset, 'DAI');
+    assert.strictEqual(registry.chains.length, 1);
+    assert.strictEqual(registry.chains[0].assets[1].decimals, 18);
+    assert.strictEqual(registry.chains[0].rpcUrl, 'https://rpc-amoy.polygon.technology');
+    assert.deepStrictEqual(registry.requiredEnv, ['POLYGON_AMOY_RPC']);
+    assert.deepStrictEqual(failoverRegistry.chains[0].rpcUrls, [
+      'https://rpc-amoy.polygon.technology',
+      'https://polygon-amoy.drpc.org',
+    ]);
+  });
+
+  it('reports every invalid field', () => {
+    const errors = validateRegistryProfile({
+      profiles: {
+        testnet: {
+          chains: [
+            validChain,
+            { ...validChain, key: 'dup', vault: { address: '0x1234', asset: 'WETH', validity: { minSeconds: 600 }, mpcPath: '', keyVersion: -1 }, rpcUrlEnv: undefined },
+          ],
+        },
+      },
+    }, 'testnet');
+
+    assert.deepStrictEqual(errors, [
+      'chains[1] (dup): duplicate chainId 80002',
+      'chains[1] (dup): one of "rpcUrl" or "rpcUrlEnv" is required',
+      'chains[1] (dup).vault: "address" must be a 0x-prefixed address',
+      'chains[1] (dup).vault: "asset" must be one of the chain\'s asset symbols',
+      'chains[1] (dup).vault: "validity" must satisfy minSeconds <= defaultSeconds <= maxSeconds',
+      'chains[1] (dup).vault: "mpcPath" must be a non-empty string',
+      'chains[1] (dup).vault: "keyVersion" must be a non-negative integer',
+    ]);
+  });
+
+  it('reports invalid RPC URLs and vault addresses from the environment', () => {
+    const filePath = path.join(tmpDir, 'chains.json');
+    fs.writeFileSync(filePath, JSON.stringify({
+      profiles: { staging: { chains: [{ ...validChain, vault: { ...validChain.vault, addressEnv: 'AMOY_VAULT_ADDRESS' } }] } },
+    }));
+
+    process.env.POLYGON_AMOY_RPC = 'https://rpc-amoy.polygon.technology, rpc-amoy.polygon.technology';
+    process.env.AMOY_VAULT_ADDRESS = '0x773035EABdA16B5416B26E12156483C6B6F5645';
+    try {
+      assert.throws(() => loadChainRegistry(filePath, 'staging'), (error: any) => {
+        assert.strictEqual(error.code, 'CONFIG_ERROR');
+        assert.strictEqual(error.message, [
+          `Invalid chain registry ${filePath}:`,
+          'chains[0] (polygonAmoy): POLYGON_AMOY_RPC must hold comma-separated http(s) URLs',
+          'chains[0] (polygonAmoy).vault: AMOY_VAULT_ADDRESS must hold a 0x-prefixed address with a valid checksum',
+        ].join('\n  - '));
+        return true;
+      });
+
+      // The providers only speak JSON-RPC over HTTP
+      process.env.POLYGON_AMOY_RPC = 'wss://polygon-amoy.drpc.org';
+      process.env.AMOY_VAULT_ADDRESS = '0x1d70d57ccd2798323232b2dd027b3abca5c00091';
+      assert.throws(() => loadChainRegistry(filePath, 'staging'), /POLYGON_AMOY_RPC must hold comma-separated http\(s\) URLs/);
+      assert.deepStrictEqual(
+        validateRegistryProfile({ profiles: { staging: { chains: [{ ...validChain, fallbackRpcUrls: ['wss://polygon-amoy.drpc.org'] }] } } }, 'staging'),
+        ['chains[0] (polygonAmoy): "fallbackRpcUrls" must be an array of http(s) URLs']
+      );
+
+      process.env.POLYGON_AMOY_RPC = 'https://polygon-amoy.drpc.org';
+      const registry = loadChainRegistry(filePath, 'staging');
+      assert.strictEqual(registry.chains[0].rpcUrl, 'https://polygon-amoy.drpc.org');
+      assert.strictEqual(registry.chains[0].vault?.address, '0x1d70d57ccd2798323232b2dd027b3abca5c00091');
+    } finally {
+      delete process.env.POLYGON_AMOY_RPC;
+      delete process.env.AMOY_VAULT_ADDRESS;
+    }
+  });
+
+  it('rejects unknown profiles', () => {
+    assert.throws(
+      () => loadChainRegistry('config/chains.json', 'devnet'),
+      /profile "devnet" not found \(available: testnet, mainnet\)/
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { ethers } from 'ethers';
+import { toRpcError } from '../src/services/providerPool';
+import { ChainUnavailableError } from '../src/services/chainQuorum';
+import { ConfigError, toErrorResponse, toNearSigningError } from '../src/utils/errors';
+
+describe('Error taxonomy', () => {
+  it('classifies RPC failures as timeouts, retryable outages or reverts', () => {
+    const timeout = toRpcError('Failed to get nonce from vault', ethers.makeError('request timeout', 'TIMEOUT'));
+    const outage = toRpcError('Failed to get nonce from vault', ethers.makeError('bad gateway', 'SERVER_ERROR'));
+    const revert = toRpcError('Failed to get nonce from vault', ethers.makeError('execution reverted', 'CALL_EXCEPTION'));
+
+    assert.deepStrictEqual([timeout.code, timeout.status, timeout.retryable], ['RPC_TIMEOUT', 504, true]);
+    assert.deepStrictEqual([outage.code, outage.status, outage.retryable], ['RPC_ERROR', 502, true]);
+    assert.deepStrictEqual([revert.code, revert.status, revert.retryable], ['RPC_ERROR', 502, false]);
+
+    // Wrapping again keeps the classification and adds context
+    const wrapped = toRpcError('Failed to fetch vault balance on Base Sepolia', timeout);
+    assert.strictEqual(wrapped.code, 'RPC_TIMEOUT');
+    assert.match(wrapped.message, /^Failed to fetch vault balance on Base Sepolia: RpcTimeoutError: Failed to get nonce/);
+
+    const config = new ConfigError('No vault asset configured on Base Sepolia');
+    assert.strictEqual(toRpcError('Failed to fetch vault balance', config), config);
+  });
+
+  it('classifies NEAR signing failures', () => {
+    assert.strictEqual(toNearSigningError('MPC signing failed', new Error('Transaction timed out')).code, 'NEAR_SIGNING_TIMEOUT');
+    assert.strictEqual(toNearSigningError('MPC signing failed', new Error('Exceeded the prepaid gas')).code, 'NEAR_SIGNING_FAILED');
+  });
+
+  it('builds response bodies with codes and details', () => {
+    const chains = [{ chainId: 84532, chainName: 'Base Sepolia', status: 'unavailable', error: 'timeout' }] as any;
+
+    assert.deepStrictEqual(toErrorResponse(new ChainUnavailableError(chains), 'Failed to generate balance snapshot'), {
+      status: 503,
+      body: {
+        error: 'Failed to generate balance snapshot',
+        code: 'CHAINS_UNAVAILABLE',
+        message: 'Required chains unavailable: Base Sepolia (timeout)',
+        retryable: true,
+        chains,
+      },
+    });
+    assert.deepStrictEqual(toErrorResponse(new Error('boom'), 'Failed to get pool value'), {
+      status: 500,
+      body: { error: 'Failed to get pool value', code: 'INTERNAL_ERROR', message: 'boom', retryable: false },
+    });
+  });
+});
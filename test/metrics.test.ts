@@ -0,0 +1,123 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { EventEmitter } from 'node:events';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  httpRequests,
+  nearDepositAttached,
+  nearDepositSpent,
+  nearGasBurnt,
+  nearTokensBurnt,
+  recordNearTransaction,
+  registry,
+} from '../src/utils/metrics';
+import { httpMetrics } from '../src/middleware/metrics';
+
+describe('Metrics', () => {
+  beforeEach(() => {
+    registry.reset();
+  });
+
+  it('renders counters, gauges and histograms in the text format', () => {
+    const metrics = new MetricsRegistry();
+    const errors = metrics.register(new Counter('test_errors_total', 'Errors', ['chain', 'code']));
+    const assets = metrics.register(new Gauge('test_assets', 'Assets', ['vault']));
+    const latency = metrics.register(new Histogram('test_latency_seconds', 'Latency', ['chain'], [0.1, 1]));
+
+    errors.inc({ chain: 'Base "Sepolia"', code: 'TIMEOUT' });
+    errors.inc({ chain: 'Base "Sepolia"', code: 'TIMEOUT' }, 2);
+    assets.set({ vault: '0xabc' }, 1500000);
+    latency.observe({ chain: 'Base' }, 0.05);
+    latency.observe({ chain: 'Base' }, 0.5);
+    latency.observe({ chain: 'Base' }, 3);
+
+    assert.strictEqual(metrics.render(), [
+      '# HELP test_errors_total Errors',
+      '# TYPE test_errors_total counter',
+      'test_errors_total{chain="Base \\"Sepolia\\"",code="TIMEOUT"} 3',
+      '# HELP test_assets Assets',
+      '# TYPE test_assets gauge',
+      'test_assets{vault="0xabc"} 1500000',
+      '# HELP test_latency_seconds Latency',
+      '# TYPE test_latency_seconds histogram',
+      'test_latency_seconds_bucket{chain="Base",le="0.1"} 1',
+      'test_latency_seconds_bucket{chain="Base",le="1"} 2',
+      'test_latency_seconds_bucket{chain="Base",le="+Inf"} 3',
+      'test_latency_seconds_sum{chain="Base"} 3.55',
+      'test_latency_seconds_count{chain="Base"} 3',
+      '',
+    ].join('\n'));
+
+    assert.throws(() => errors.inc({ chain: 'Base' }), /missing label "code"/);
+    assert.throws(() => metrics.register(new Counter('test_errors_total', 'Again', [])), /already registered/);
+  });
+
+  it('records the gas and deposit of NEAR transactions across receipts', () => {
+    const result = {
+      status: { SuccessValue: '' },
+      transaction_outcome: { outcome: { gas_burnt: 2428000000000, tokens_burnt: '242800000000000000000' } },
+      receipts_outcome: [
+        { outcome: { gas_burnt: 5000000000000, tokens_burnt: '500000000000000000000' } },
+      ],
+    };
+
+    recordNearTransaction('mpc', 'v1.signer-prod.testnet', 250000000000000000000000n, result);
+    recordNearTransaction('mpc', 'v1.signer-prod.testnet', 250000000000000000000000n, result);
+
+    const labels = { backend: 'mpc', contract: 'v1.signer-prod.testnet' };
+    // In TGas and NEAR
+    assert.strictEqual(nearGasBurnt.get(labels), 2 * 7.428);
+    assert.strictEqual(nearTokensBurnt.get(labels), 2 * 0.0007428);
+    assert.strictEqual(nearDepositAttached.get(labels), 0.5);
+    assert.strictEqual(nearDepositSpent.get(labels), 0.5);
+  });
+
+  it('subtracts deposit refunds from the NEAR cost', () => {
+    const labels = { backend: 'contract', contract: 'rebalancer.testnet' };
+    const outcome = (status: any) => ({ gas_burnt: 0, tokens_burnt: '0', receipt_ids: ['call'], status });
+
+    // The contract sends back part of the deposit
+    const refunded = recordNearTransaction('contract', 'rebalancer.testnet', 1000n * 10n ** 21n, {
+      transaction: { hash: 'tx1', signer_id: 'oracle.testnet' },
+      transaction_outcome: { outcome: outcome({ SuccessReceiptId: 'call' }) },
+      receipts_outcome: [{ id: 'call', outcome: outcome({ SuccessValue: '' }) }],
+      receipts: [
+        { predecessor_id: 'rebalancer.testnet', receiver_id: 'oracle.testnet', receipt: { Action: { actions: [{ Transfer: { deposit: '400000000000000000000000' } }] } } },
+        // Gas refunds come from the system account and are not part of the deposit
+        { predecessor_id: 'system', receiver_id: 'oracle.testnet', receipt: { Action: { actions: [{ Transfer: { deposit: '77' } }] } } },
+      ],
+    });
+    assert.deepStrictEqual([refunded.deposit, refunded.depositSpent], ['1000000000000000000000000', '600000000000000000000000']);
+
+    // A failed call gets its whole deposit back
+    const failed = recordNearTransaction('contract', 'rebalancer.testnet', 1000n * 10n ** 21n, {
+      transaction: { hash: 'tx2', signer_id: 'oracle.testnet' },
+      transaction_outcome: { outcome: outcome({ SuccessReceiptId: 'call' }) },
+      receipts_outcome: [{ id: 'call', outcome: outcome({ Failure: { ActionError: {} } }) }],
+    });
+    assert.strictEqual(failed.depositSpent, '0');
+
+    assert.strictEqual(nearDepositAttached.get(labels), 2);
+    assert.strictEqual(nearDepositSpent.get(labels), 0.6);
+  });
+
+  it('labels HTTP requests by route pattern rather than path', () => {
+    const handle = (req: any, status: number) => {
+      const res: any = Object.assign(new EventEmitter(), { statusCode: status });
+      httpMetrics(req, res, () => {});
+      res.emit('finish');
+    };
+
+    handle({ method: 'GET', baseUrl: '', route: { path: '/api/oracle/snapshots/:id' } }, 200);
+    handle({ method: 'GET', baseUrl: '', route: { path: '/api/oracle/snapshots/:id' } }, 404);
+    handle({ method: 'GET', baseUrl: '' }, 404);
+
+    assert.strictEqual(httpRequests.get({ method: 'GET', route: '/api/oracle/snapshots/:id', status: 200 }), 1);
+    assert.strictEqual(httpRequests.get({ method: 'GET', route: '/api/oracle/snapshots/:id', status: 404 }), 1);
+    assert.strictEqual(httpRequests.get({ method: 'GET', route: 'unmatched', status: 404 }), 1);
+    assert.match(registry.render(), /oracle_http_request_duration_seconds_count\{method="GET",route="unmatched"\} 1/);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { ERC20_ABI } from '../src/config/abis';
+import { MULTICALL3_ADDRESS, multicallRead } from '../src/services/multicall';
+import { FakeEvmRpc, FakeRevert, startFakeEvmRpc } from './support/fakeEvmRpc';
+
+const TOKEN = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const HOLDER = '0x20f2747b4b1b3e1e4b9e5a3f4e4d4c4b4a494847';
+
+const erc20Handlers = {
+  decimals: () => 6n,
+  balanceOf: ([account]: any) => {
+    if (account.toLowerCase() === HOLDER.toLowerCase()) {
+      return 1_500_000n;
+    }
+    throw new FakeRevert('unknown account');
+  },
+};
+
+function ethCalls(rpc: FakeEvmRpc) {
+  return rpc.requests.filter(request => request.method === 'eth_call');
+}
+
+describe('Multicall3 batching', () => {
+  let rpc: FakeEvmRpc;
+  let legacyRpc: FakeEvmRpc;
+
+  before(async () => {
+    rpc = await startFakeEvmRpc({ chainId: 31337 });
+    rpc.addContract(TOKEN, ERC20_ABI, erc20Handlers);
+
+    legacyRpc = await startFakeEvmRpc({ chainId: 31338, multicall3: false });
+    legacyRpc.addContract(TOKEN, ERC20_ABI, erc20Handlers);
+  });
+
+  after(async () => {
+    await rpc.close();
+    await legacyRpc.close();
+  });
+
+  it('sends reads queued in the same tick as one aggregate3 call at the pinned block', async () => {
+    const endpoint = { chainId: rpc.chainId, rpcUrls: [rpc.url] };
+    rpc.requests.length = 0;
+
+    const [decimals, balance] = await Promise.all([
+      multicallRead<bigint>(endpoint, TOKEN, ERC20_ABI, 'decimals', [], 990),
+      multicallRead<bigint>(endpoint, TOKEN, ERC20_ABI, 'balanceOf', [HOLDER], 990),
+    ]);
+
+    assert.strictEqual(decimals, 6n);
+    assert.strictEqual(balance, 1_500_000n);
+
+    const calls = ethCalls(rpc);
+    assert.strictEqual(calls.length, 1);
+    assert.strictEqual(calls[0].params[0].to.toLowerCase(), MULTICALL3_ADDRESS.toLowerCase());
+    assert.strictEqual(calls[0].params[1], '0x3de');
+  });
+
+  it('rejects only the sub-call that reverted', async () => {
+    const endpoint = { chainId: rpc.chainId, rpcUrls: [rpc.url] };
+    const stranger = '0x0000000000000000000000000000000000000001';
+
+    const [ok, failed] = await Promise.allSettled([
+      multicallRead<bigint>(endpoint, TOKEN, ERC20_ABI, 'balanceOf', [HOLDER]),
+      multicallRead<bigint>(endpoint, TOKEN, ERC20_ABI, 'balanceOf', [stranger]),
+    ]);
+
+    assert.deepStrictEqual(ok, { status: 'fulfilled', value: 1_500_000n });
+    assert.strictEqual(failed.status, 'rejected');
+    assert.strictEqual((failed as PromiseRejectedResult).reason.code, 'CALL_EXCEPTION');
+    assert.strictEqual((failed as PromiseRejectedResult).reason.reason, 'unknown account');
+  });
+
+  it('falls back to individual calls when Multicall3 is not deployed', async () => {
+    const endpoint = { chainId: legacyRpc.chainId, rpcUrls: [legacyRpc.url] };
+    legacyRpc.requests.length = 0;
+
+    const [decimals, balance] = await Promise.all([
+      multicallRead<bigint>(endpoint, TOKEN, ERC20_ABI, 'decimals'),
+      multicallRead<bigint>(endpoint, TOKEN, ERC20_ABI, 'balanceOf', [HOLDER]),
+    ]);
+
+    assert.strictEqual(decimals, 6n);
+    assert.strictEqual(balance, 1_500_000n);
+
+    const targets = ethCalls(legacyRpc).map(call => call.params[0].to.toLowerCase());
+    assert.deepStrictEqual(targets, [MULTICALL3_ADDRESS.toLowerCase(), TOKEN.toLowerCase(), TOKEN.toLowerCase()]);
+  });
+});
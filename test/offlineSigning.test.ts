@@ -0,0 +1,289 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { KeyPair } from 'near-api-js';
+import { ethers } from 'ethers';
+import { startFakeNearRpc, FakeNearRpc } from './support/fakeNearRpc';
+import { NearMpcService } from '../src/services/nearMpcService';
+import { NearContractService } from '../src/services/nearContractService';
+import { MpcSignatureResponse, SignatureSubmission } from '../src/types';
+import { CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES, getVaultDomain } from '../src/config/eip712';
+
+const VAULT_ADDRESS = '0x773035EABdA16B5416B26E12156483C6B6F56451';
+const CHAIN_ID = 84532;
+
+const snapshot = {
+  balance: '1500000',
+  nonce: '3',
+  deadline: '1900000000',
+  assets: '1000000',
+  receiver: '0x1234567890123456789012345678901234567890',
+};
+
+function recoverSigner(signature: string): string {
+  const digest = ethers.TypedDataEncoder.hash(
+    getVaultDomain(CHAIN_ID, VAULT_ADDRESS),
+    CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES,
+    snapshot
+  );
+  return ethers.recoverAddress(digest, signature);
+}
+
+describe('Offline signing against fake NEAR RPC', () => {
+  let fakeNear: FakeNearRpc;
+
+  before(async () => {
+    fakeNear = await startFakeNearRpc();
+
+    process.env.NEAR_RPC_URL = fakeNear.url;
+    process.env.NEAR_ACCOUNT_ID = 'oracle.test.near';
+    process.env.NEAR_PRIVATE_KEY = KeyPair.fromRandom('ed25519').toString();
+    process.env.NEAR_CONTRACT_ID = fakeNear.rebalancerContractId;
+    process.env.MPC_CONTRACT_ID = fakeNear.mpcContractId;
+    process.env.MPC_PATH = 'ethereum-1';
+    process.env.AGENT_ADDRESS = fakeNear.deriveAddress(fakeNear.rebalancerContractId, fakeNear.rebalancerPath);
+    process.env.NEAR_TX_POLL_INTERVAL_MS = '20';
+  });
+
+  after(async () => {
+    await fakeNear.close();
+  });
+
+  describe('NearMpcService', () => {
+    it('derives the agent address from the MPC root key', async () => {
+      const mpc = new NearMpcService();
+      const agentAddress = await mpc.getAgentAddress();
+
+      assert.strictEqual(agentAddress, fakeNear.deriveAddress('oracle.test.near', 'ethereum-1'));
+    });
+
+    it('signs a snapshot that recovers to the agent address', async () => {
+      const mpc = new NearMpcService();
+      const { signature, agentAddress } = await mpc.signBalanceSnapshot(snapshot, getVaultDomain(CHAIN_ID, VAULT_ADDRESS));
+
+      assert.match(signature, /^0x[a-fA-F0-9]{130}$/);
+      assert.strictEqual(recoverSigner(signature).toLowerCase(), agentAddress.toLowerCase());
+
+      const call = fakeNear.calls[fakeNear.calls.length - 1];
+      assert.strictEqual(call.methodName, 'sign');
+      assert.strictEqual(call.args.request.path, 'ethereum-1');
+      assert.strictEqual(call.args.request.key_version, 0);
+    });
+
+    it('signs a withdraw snapshot with its own typed data', async () => {
+      const mpc = new NearMpcService();
+      const withdrawSnapshot = {
+        balance: '1500000',
+        nonce: '3',
+        deadline: '1900000000',
+        shares: '900000',
+        assets: '0',
+        owner: '0x1234567890123456789012345678901234567890',
+      };
+      const { signature, agentAddress } = await mpc.signWithdrawSnapshot(withdrawSnapshot, getVaultDomain(CHAIN_ID, VAULT_ADDRESS));
+
+      const signer = ethers.verifyTypedData(
+        getVaultDomain(CHAIN_ID, VAULT_ADDRESS),
+        CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES,
+        withdrawSnapshot,
+        signature
+      );
+      assert.strictEqual(signer.toLowerCase(), agentAddress.toLowerCase());
+    });
+
+    it('derives and signs with a vault\'s own path and key version', async () => {
+      const mpc = new NearMpcService();
+      const key = { path: 'ethereum-base', keyVersion: 0 };
+      const agentAddress = await mpc.getAgentAddress(key);
+
+      assert.strictEqual(agentAddress, fakeNear.deriveAddress('oracle.test.near', 'ethereum-base'));
+      assert.notStrictEqual(agentAddress, await mpc.getAgentAddress());
+      assert.strictEqual((await mpc.getAgentDerivation(key)).path, 'ethereum-base');
+
+      const signed = await mpc.signBalanceSnapshot(snapshot, getVaultDomain(CHAIN_ID, VAULT_ADDRESS), key);
+      assert.strictEqual(signed.agentAddress, agentAddress);
+      assert.strictEqual(recoverSigner(signed.signature).toLowerCase(), agentAddress);
+
+      const call = fakeNear.calls[fakeNear.calls.length - 1];
+      assert.strictEqual(call.args.request.path, 'ethereum-base');
+      assert.strictEqual(call.args.request.key_version, 0);
+    });
+
+    it('waits for a submitted sign() transaction again after a restart without sending another', async () => {
+      const domain = getVaultDomain(CHAIN_ID, VAULT_ADDRESS);
+      const signCalls = () => fakeNear.calls.filter(call => call.methodName === 'sign').length;
+      const before = signCalls();
+
+      fakeNear.pauseExecution();
+      let submission: SignatureSubmission | undefined;
+      let first: Promise<MpcSignatureResponse> | undefined;
+      try {
+        first = new NearMpcService().signBalanceSnapshot(snapshot, domain, {}, submitted => (submission = submitted));
+        while (!submission) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        assert.match(submission.txHash, /^[1-9A-HJ-NP-Za-km-z]{43,44}$/);
+        assert.strictEqual(submission.deadline, Number(snapshot.deadline));
+
+        // A new instance only has what was persisted
+        const resumed = new NearMpcService().resumeSignature(JSON.parse(JSON.stringify(submission)));
+        fakeNear.resumeExecution();
+
+        const [original, again] = await Promise.all([first, resumed]);
+        assert.strictEqual(again.signature, original.signature);
+        assert.strictEqual(recoverSigner(again.signature).toLowerCase(), again.agentAddress.toLowerCase());
+        assert.strictEqual(signCalls(), before + 1);
+      } finally {
+        fakeNear.resumeExecution();
+      }
+    });
+
+    it('reports NEAR RPC, access key and MPC root key readiness', async () => {
+      const mpc = new NearMpcService();
+      const checks = await mpc.checkReadiness();
+
+      assert.deepStrictEqual(checks.map(check => [check.component, check.status]), [
+        ['near-rpc', 'ok'],
+        ['near-access-key', 'ok'],
+        ['mpc-root-key', 'ok'],
+        ['near-balance', 'ok'],
+      ]);
+      assert.strictEqual(checks[1].details?.permission, 'FullAccess');
+    });
+
+    it('attaches the deposit the MPC contract asks for and reports what the call cost', async () => {
+      fakeNear.setSignatureDeposit(50000000000000000000000n);
+      try {
+        const { nearCost } = await new NearMpcService().signBalanceSnapshot(snapshot, getVaultDomain(CHAIN_ID, VAULT_ADDRESS));
+
+        const call = fakeNear.calls[fakeNear.calls.length - 1];
+        assert.strictEqual(call.deposit, '50000000000000000000000');
+        assert.strictEqual(nearCost!.deposit, '50000000000000000000000');
+        assert.strictEqual(nearCost!.depositSpent, '50000000000000000000000');
+        assert.strictEqual(nearCost!.gasBurnt, '2428000000000');
+        assert.strictEqual(nearCost!.tokensBurnt, '242800000000000000000');
+        assert.match(nearCost!.txHash, /^[1-9A-HJ-NP-Za-km-z]{43,44}$/);
+      } finally {
+        fakeNear.setSignatureDeposit(1n);
+      }
+    });
+
+    it('counts only the deposit the MPC contract kept when it refunds the rest', async () => {
+      fakeNear.setSignatureDeposit(50000000000000000000000n);
+      fakeNear.pauseExecution();
+      try {
+        let submitted = false;
+        const signing = new NearMpcService().signBalanceSnapshot(snapshot, getVaultDomain(CHAIN_ID, VAULT_ADDRESS), {}, () => (submitted = true));
+        while (!submitted) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        // The fee drops after the oracle asked for it
+        fakeNear.setSignatureDeposit(10000000000000000000000n);
+        fakeNear.resumeExecution();
+
+        const { nearCost } = await signing;
+        assert.strictEqual(nearCost!.deposit, '50000000000000000000000');
+        assert.strictEqual(nearCost!.depositSpent, '10000000000000000000000');
+      } finally {
+        fakeNear.resumeExecution();
+        fakeNear.setSignatureDeposit(1n);
+      }
+    });
+
+    it('refuses to sign when the deposit would take the account below the minimum balance', async () => {
+      const mpc = new NearMpcService();
+      const callsBefore = fakeNear.calls.length;
+      fakeNear.setAccountBalance(1200000000000000000000000n); // 1.2 NEAR
+      fakeNear.setSignatureDeposit(250000000000000000000000n);
+      try {
+        assert.strictEqual((await mpc.checkBalance()).status, 'low');
+
+        await assert.rejects(mpc.signBalanceSnapshot(snapshot, getVaultDomain(CHAIN_ID, VAULT_ADDRESS)), (error: any) => {
+          assert.strictEqual(error.code, 'NEAR_BALANCE_LOW');
+          assert.strictEqual(error.status, 503);
+          assert.strictEqual(error.details.nearBalance.accountId, 'oracle.test.near');
+          return true;
+        });
+        assert.strictEqual(fakeNear.calls.length, callsBefore);
+
+        const balance = (await mpc.checkReadiness()).find(check => check.component === 'near-balance')!;
+        assert.strictEqual(balance.status, 'failed');
+        assert.match(balance.message!, /below the signing minimum/);
+      } finally {
+        fakeNear.setAccountBalance(100n * 10n ** 24n);
+        fakeNear.setSignatureDeposit(1n);
+      }
+    });
+  });
+
+  describe('NearContractService', () => {
+    it('signs a snapshot through the rebalancer contract', async () => {
+      const contract = new NearContractService();
+      const { signature, agentAddress } = await contract.signBalanceSnapshot(snapshot, getVaultDomain(CHAIN_ID, VAULT_ADDRESS));
+
+      assert.strictEqual(recoverSigner(signature).toLowerCase(), agentAddress.toLowerCase());
+
+      const call = fakeNear.calls[fakeNear.calls.length - 1];
+      assert.strictEqual(call.methodName, 'build_and_sign_crosschain_balance_snapshot_tx');
+      assert.strictEqual(call.args.args.verifying_contract, VAULT_ADDRESS);
+    });
+
+    it('sends 18-decimal balances to the contract without losing precision', async () => {
+      const contract = new NearContractService();
+      const wethSnapshot = { ...snapshot, balance: '123456789012345678901', assets: '1000000000000000000' };
+
+      // The service verifies the returned signature against its own digest of the exact balance
+      const { signature, agentAddress } = await contract.signBalanceSnapshot(wethSnapshot, getVaultDomain(CHAIN_ID, VAULT_ADDRESS));
+
+      const digest = ethers.TypedDataEncoder.hash(getVaultDomain(CHAIN_ID, VAULT_ADDRESS), CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, wethSnapshot);
+      assert.strictEqual(ethers.recoverAddress(digest, signature).toLowerCase(), agentAddress.toLowerCase());
+      const call = fakeNear.calls[fakeNear.calls.length - 1];
+      assert.match(call.rawArgs, /"balance":123456789012345678901,/);
+      assert.match(call.rawArgs, new RegExp(`"deadline":${wethSnapshot.deadline},`));
+    });
+
+    it('derives the agent address the rebalancer contract signs as', async () => {
+      const contract = new NearContractService();
+      const expected = fakeNear.deriveAddress(fakeNear.rebalancerContractId, fakeNear.rebalancerPath);
+
+      assert.strictEqual(await contract.getAgentAddress(), expected);
+      const derivation = await contract.getAgentDerivation();
+      assert.strictEqual(derivation.predecessorId, fakeNear.rebalancerContractId);
+      assert.strictEqual(derivation.path, 'ethereum-1');
+      assert.match(derivation.rootPublicKey, /^secp256k1:/);
+
+      // A configured AGENT_ADDRESS must agree with the derivation
+      process.env.AGENT_ADDRESS = '0x20f2747bbc52453ac0774b5b2fe0e28dc6637f30';
+      try {
+        await assert.rejects(new NearContractService().getAgentAddress(), (error: any) => {
+          assert.strictEqual(error.code, 'CONFIG_ERROR');
+          assert.match(error.message, /does not match the address derived for/);
+          return true;
+        });
+      } finally {
+        process.env.AGENT_ADDRESS = expected;
+      }
+    });
+
+    it('refuses vault keys the contract does not sign with', async () => {
+      const contract = new NearContractService();
+
+      await assert.rejects(contract.getAgentAddress({ path: 'ethereum-base' }), (error: any) => {
+        assert.strictEqual(error.code, 'CONFIG_ERROR');
+        assert.match(error.message, /signs with path ethereum-1 and key version 0, not ethereum-base/);
+        return true;
+      });
+      assert.strictEqual((await contract.getAgentDerivation({ path: 'ethereum-1', keyVersion: 0 })).keyVersion, 0);
+    });
+
+    it('rejects the signature when the vault uses a different domain than the contract', async () => {
+      const contract = new NearContractService();
+      const domain = getVaultDomain(CHAIN_ID, VAULT_ADDRESS, { name: 'RebalancyVault', version: '2' });
+
+      await assert.rejects(contract.signBalanceSnapshot(snapshot, domain), (error: any) => {
+        assert.match(error.message, /Signature verification failed.*RebalancyVault v2/);
+        assert.strictEqual(error.code, 'SIGNATURE_VERIFICATION_FAILED');
+        return true;
+      });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ethers } from 'ethers';
+import { ERC20_ABI, VAULT_ABI } from '../src/config/abis';
+import { CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES } from '../src/config/eip712';
+import { FakeEvmRpc, startFakeEvmRpc } from './support/fakeEvmRpc';
+
+const CHAIN_ID = 84532;
+const REMOTE_CHAIN_ID = 421614;
+const REMOTE_USDC = '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d';
+const REMOTE_A_USDC = '0x460b97BD498E1157530AEb3086301d5225b91216';
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const A_USDC = '0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB';
+const VAULT = '0x773035EABdA16B5416B26E12156483C6B6F56451';
+const RECEIVER = '0x742d35cc6634c0532925a3b844bc9e7595f0beb0';
+const SIGNER_KEY = ethers.id('oracle service test signer');
+const DOMAIN = { name: 'RebalancyVault', version: '2', chainId: CHAIN_ID, verifyingContract: VAULT };
+
+describe('Oracle service', () => {
+  let tmpDir: string;
+  let rpc: FakeEvmRpc;
+  let remoteRpc: FakeEvmRpc;
+  let vaultNonce = 5n;
+  let crossChainAssets = 1_234_567_890n;
+  let vaultAgent = new ethers.Wallet(SIGNER_KEY).address;
+  let oracle: any;
+
+  before(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oracle-service-'));
+
+    rpc = await startFakeEvmRpc({ chainId: CHAIN_ID, blockNumber: 1000 });
+    rpc.addContract(A_USDC, ERC20_ABI, { balanceOf: () => 0n });
+    rpc.addContract(USDC, ERC20_ABI, { decimals: () => 6n });
+    rpc.addContract(VAULT, [...VAULT_ABI, ...ERC20_ABI], {
+      decimals: () => 6n,
+      totalSupply: () => 1_000_000_000n,
+      totalAssets: () => 5_000_000n,
+      crossChainInvestedAssets: () => crossChainAssets,
+      crossChainBalanceNonce: () => vaultNonce,
+      AI_AGENT: () => vaultAgent,
+      eip712Domain: () => ['0x0f', 'RebalancyVault', '2', BigInt(CHAIN_ID), VAULT, ethers.ZeroHash, []],
+    });
+
+    // The agent holds the vault's cross-chain assets on the remote chain
+    remoteRpc = await startFakeEvmRpc({ chainId: REMOTE_CHAIN_ID, blockNumber: 2000 });
+    remoteRpc.addContract(REMOTE_A_USDC, ERC20_ABI, { balanceOf: () => 1_234_567_890n });
+    remoteRpc.addContract(REMOTE_USDC, ERC20_ABI, { decimals: () => 6n });
+
+    const registryPath = path.join(tmpDir, 'chains.json');
+    fs.writeFileSync(registryPath, JSON.stringify({
+      profiles: {
+        test: {
+          chains: [{
+            key: 'baseSepolia',
+            chainId: CHAIN_ID,
+            name: 'Base Sepolia',
+            rpcUrl: rpc.url,
+            aavePoolAddress: '0x6a9d64f93db660eacb2b6e9424792c630cda87d8',
+            assets: [{ symbol: 'USDC', address: USDC, aTokenAddress: A_USDC }],
+            vault: { address: VAULT, asset: 'USDC' },
+          }, {
+            key: 'arbitrumSepolia',
+            chainId: REMOTE_CHAIN_ID,
+            name: 'Arbitrum Sepolia',
+            rpcUrl: remoteRpc.url,
+            aavePoolAddress: '0xBfC91D59fdAA134A4ED45f7B584cAf96D7792Eff',
+            assets: [{ symbol: 'USDC', address: REMOTE_USDC, aTokenAddress: REMOTE_A_USDC }],
+          }],
+        },
+      },
+    }));
+
+    process.env.CHAIN_REGISTRY_PATH = registryPath;
+    process.env.CHAIN_PROFILE = 'test';
+    process.env.SIGNER_BACKEND = 'local';
+    process.env.LOCAL_SIGNER_PRIVATE_KEY = SIGNER_KEY;
+    process.env.SNAPSHOT_LEDGER_PATH = path.join(tmpDir, 'snapshots.jsonl');
+    process.env.POOL_VALUE_HISTORY_PATH = path.join(tmpDir, 'pool-value-history.jsonl');
+
+    // Imported after the environment is set: the signer and registry are read on first use
+    const { OracleService } = await import('../src/services/oracleService');
+    oracle = new OracleService();
+  });
+
+  after(async () => {
+    for (const name of ['CHAIN_REGISTRY_PATH', 'CHAIN_PROFILE', 'SIGNER_BACKEND', 'LOCAL_SIGNER_PRIVATE_KEY', 'SNAPSHOT_LEDGER_PATH', 'POOL_VALUE_HISTORY_PATH']) {
+      delete process.env[name];
+    }
+    await rpc.close();
+    await remoteRpc.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('signs the vault balance at the pinned block and records the snapshot', async () => {
+    const snapshot = await oracle.generateBalanceSnapshot('1000000', RECEIVER, CHAIN_ID, 'key-test');
+
+    assert.strictEqual(snapshot.reused, false);
+    assert.strictEqual(snapshot.balance, '1234567890');
+    assert.strictEqual(snapshot.nonce, '5');
+    assert.deepStrictEqual(snapshot.sourceBlocks.map((block: any) => block.blockNumber), [1000, 2000]);
+    assert.strictEqual(snapshot.sanityCheck.outcome, 'passed');
+    assert.strictEqual(snapshot.sanityCheck.observedBalance, '1234567890');
+
+    // Signed over the domain the vault reports through eip712Domain()
+    assert.deepStrictEqual(snapshot.domain, DOMAIN);
+    const signer = ethers.verifyTypedData(DOMAIN, CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, snapshot, snapshot.signature);
+    assert.strictEqual(signer, new ethers.Wallet(SIGNER_KEY).address);
+
+    const { getSnapshotLedger } = await import('../src/services/snapshotLedger');
+    const record = getSnapshotLedger().get(snapshot.snapshotId);
+    assert.strictEqual(record?.requestedBy, 'key-test');
+    assert.strictEqual(record?.signature, snapshot.signature);
+  });
+
+  it('returns the existing signature for a retry with the same nonce', async () => {
+    const [first, second] = await Promise.all([
+      oracle.generateBalanceSnapshot('2000000', RECEIVER, CHAIN_ID),
+      oracle.generateBalanceSnapshot('2000000', RECEIVER, CHAIN_ID),
+    ]);
+    const retry = await oracle.generateBalanceSnapshot('2000000', RECEIVER, CHAIN_ID);
+
+    assert.strictEqual(second.snapshotId, first.snapshotId);
+    assert.strictEqual(retry.snapshotId, first.snapshotId);
+    assert.strictEqual(retry.reused, true);
+    assert.strictEqual(retry.signature, first.signature);
+  });
+
+  it('signs again once the vault nonce moves on', async () => {
+    const before = await oracle.generateBalanceSnapshot('3000000', RECEIVER, CHAIN_ID);
+    vaultNonce = 6n;
+    rpc.setBlockNumber(1001);
+    const after = await oracle.generateBalanceSnapshot('3000000', RECEIVER, CHAIN_ID);
+
+    assert.notStrictEqual(after.snapshotId, before.snapshotId);
+    assert.strictEqual(after.nonce, '6');
+    assert.strictEqual(after.reused, false);
+  });
+
+  it('refuses to sign a cross-chain balance the agent does not hold', async () => {
+    crossChainAssets = 1_500_000_000n;
+    try {
+      await assert.rejects(oracle.generateBalanceSnapshot('4000000', RECEIVER, CHAIN_ID), (error: any) => {
+        assert.strictEqual(error.name, 'BalanceSanityError');
+        assert.strictEqual(error.check.outcome, 'failed');
+        assert.strictEqual(error.check.signedBalance, '1500000000');
+        assert.strictEqual(error.check.deviationBps, 1769);
+        return true;
+      });
+    } finally {
+      crossChainAssets = 1_234_567_890n;
+    }
+  });
+
+  it('refuses to sign for a vault whose AI_AGENT() is another address until it trusts the signer again', async () => {
+    vaultAgent = '0x1234567890123456789012345678901234567890';
+    try {
+      await assert.rejects(oracle.generateBalanceSnapshot('5000000', RECEIVER, CHAIN_ID), (error: any) => {
+        assert.strictEqual(error.code, 'AGENT_MISMATCH');
+        assert.strictEqual(error.status, 409);
+        assert.strictEqual(error.check.status, 'mismatch');
+        assert.strictEqual(error.check.vaultAgent, vaultAgent);
+        return true;
+      });
+    } finally {
+      vaultAgent = new ethers.Wallet(SIGNER_KEY).address;
+    }
+
+    const snapshot = await oracle.generateBalanceSnapshot('5000000', RECEIVER, CHAIN_ID);
+    assert.strictEqual(snapshot.reused, false);
+  });
+
+  it('signs withdraw snapshots with their own type and ledger entries', async () => {
+    const signedAt = Math.floor(Date.now() / 1000);
+    const withdraw = await oracle.generateWithdrawSnapshot(RECEIVER, '900000', '0', CHAIN_ID, 'key-test', 1800);
+    const retry = await oracle.generateWithdrawSnapshot(RECEIVER, '900000', '0', CHAIN_ID);
+
+    assert.strictEqual(withdraw.reused, false);
+    assert.strictEqual(retry.snapshotId, withdraw.snapshotId);
+    assert.ok(Number(withdraw.deadline) - signedAt >= 1800 && Number(withdraw.deadline) - signedAt <= 1802);
+
+    const signer = ethers.verifyTypedData(
+      DOMAIN,
+      CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES,
+      withdraw,
+      withdraw.signature
+    );
+    assert.strictEqual(signer, new ethers.Wallet(SIGNER_KEY).address);
+
+    const { SnapshotLedger } = await import('../src/services/snapshotLedger');
+    const withdrawals = new SnapshotLedger(process.env.SNAPSHOT_LEDGER_PATH!).list({ kind: 'withdraw' });
+    assert.deepStrictEqual(withdrawals.map(record => [record.id, record.owner, record.shares]), [[withdraw.snapshotId, RECEIVER, '900000']]);
+  });
+
+  it('prices shares from vault and cross-chain assets and annualizes the recorded price change', async () => {
+    const { getPoolValueHistory } = await import('../src/services/poolValueHistory');
+    const dayAgo = Math.floor(Date.now() / 1000) - 86400;
+    getPoolValueHistory().append({
+      timestamp: dayAgo,
+      asset: 'USDC',
+      decimals: 6,
+      totalPoolValue: '0',
+      totalATokens: '0',
+      totalUSDC: '0',
+      stale: false,
+      pricePerUnit: '1.2395',
+      vaults: [{ chainId: CHAIN_ID, vaultAddress: VAULT, pricePerUnit: '1.2395' }],
+      breakdown: [],
+    });
+
+    const poolValue = await oracle.getPoolValue();
+
+    // (5 USDC vault + 1234.56789 USDC cross-chain) / 1000 shares
+    assert.strictEqual(poolValue.pricePerUnit, '1.23956789');
+    assert.strictEqual(poolValue.totalShares, '1000.0');
+    assert.deepStrictEqual(poolValue.vaults.map((vault: any) => [vault.totalAssets, vault.pricePerUnit]), [['1239567890', '1.23956789']]);
+    assert.deepStrictEqual(poolValue.agentHoldings, [{ agentAddress: vaultAgent, asset: 'USDC', decimals: 6, aTokens: '1234567890' }]);
+    // The deprecated usdc field still carries the idle balance
+    assert.ok(poolValue.breakdown.length > 0 && poolValue.breakdown.every(entry => entry.usdc === entry.idle));
+
+    // Scoped to the one vault, its share price becomes the top-level one
+    const scoped = await oracle.getPoolValue(CHAIN_ID);
+    assert.strictEqual(scoped.totalPoolValue, '5000000');
+    assert.strictEqual(scoped.totalShares, '1000.0');
+    assert.strictEqual(scoped.pricePerUnit, '1.23956789');
+    assert.deepStrictEqual(scoped.vaults.map((vault: any) => vault.chainId), [CHAIN_ID]);
+    await assert.rejects(oracle.getPoolValue(REMOTE_CHAIN_ID), (error: any) => error.code === 'VALIDATION_ERROR');
+
+    const expected = Math.pow(1.23956789 / 1.2395, 365) - 1;
+    for (const apy of [poolValue.apy, poolValue.vaults[0].apy]) {
+      assert.ok(Math.abs(apy['1d'] - expected) < 1e-4, `1d APY ${apy['1d']} should be about ${expected}`);
+      assert.strictEqual(apy['7d'], null);
+      assert.strictEqual(apy['30d'], null);
+    }
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PendingSignatureStore, toPendingSnapshot } from '../src/services/pendingSignatures';
+import { NearTimeoutError } from '../src/utils/errors';
+
+const VAULT = '0x773035EABdA16B5416B26E12156483C6B6F56451';
+const AGENT = '0x20f2747b4b1b3e1e4b9e5a3f4e4d4c4b4a494847';
+const RECEIVER = '0x742d35cc6634c0532925a3b844bc9e7595f0beb0';
+
+function unsigned(overrides: Record<string, any> = {}) {
+  return {
+    kind: 'deposit' as const,
+    vaultAddress: VAULT,
+    chainId: 84532,
+    nonce: '5',
+    balance: '1234567890',
+    deadline: String(Math.floor(Date.now() / 1000) + 300),
+    assets: '1000000',
+    receiver: RECEIVER,
+    agentAddress: AGENT,
+    signerBackend: 'mpc' as const,
+    sourceBlocks: [],
+    requestedBy: 'key-0123456789ab',
+    ...overrides,
+  };
+}
+
+function submission(txHash: string, deadline: string) {
+  return {
+    txHash,
+    signerId: 'oracle.test.near',
+    receiverId: 'v1.signer-prod.testnet',
+    signedTransaction: Buffer.from(txHash).toString('base64'),
+    digest: '0x' + '11'.repeat(32),
+    agentAddress: AGENT,
+    deadline: Number(deadline),
+    deposit: '1',
+  };
+}
+
+describe('Pending signatures', () => {
+  let tmpDir: string;
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pending-signatures-'));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('keeps pending and failed signatures across restarts and forgets signed ones', () => {
+    const filePath = path.join(tmpDir, 'nested', 'restart.jsonl');
+    const store = new PendingSignatureStore(filePath);
+    const pending = unsigned();
+    store.add('pending-1', pending, submission('HashPending', pending.deadline));
+    store.add('failed-1', unsigned({ nonce: '6' }), submission('HashFailed', pending.deadline));
+    store.add('signed-1', unsigned({ nonce: '7' }), submission('HashSigned', pending.deadline));
+    store.fail('failed-1', new NearTimeoutError('NEAR transaction HashFailed has not executed yet'));
+    store.resolve('signed-1');
+
+    const reloaded = new PendingSignatureStore(filePath);
+    assert.deepStrictEqual(reloaded.list().map(entry => [entry.id, entry.status]), [
+      ['pending-1', 'pending'],
+      ['failed-1', 'failed'],
+    ]);
+    assert.deepStrictEqual(reloaded.get('failed-1')!.error, {
+      code: 'NEAR_SIGNING_TIMEOUT',
+      message: 'NEAR transaction HashFailed has not executed yet',
+    });
+    assert.strictEqual(reloaded.get('signed-1'), undefined);
+
+    // Only pending signatures answer for a request, and only while valid long enough
+    assert.strictEqual(reloaded.findByRequest(pending)!.id, 'pending-1');
+    assert.strictEqual(reloaded.findByRequest(pending, 240)!.id, 'pending-1');
+    assert.strictEqual(reloaded.findByRequest(pending, 600), undefined);
+    assert.strictEqual(reloaded.findByRequest(unsigned({ nonce: '6' })), undefined);
+
+    const view = toPendingSnapshot(reloaded.get('pending-1')!);
+    assert.strictEqual(view.snapshotId, 'pending-1');
+    assert.strictEqual(view.status, 'pending');
+    assert.strictEqual(view.txHash, 'HashPending');
+    assert.strictEqual(view.error, undefined);
+  });
+
+  it('drops failed signatures past their deadline when compacting on load', () => {
+    const filePath = path.join(tmpDir, 'compact.jsonl');
+    const store = new PendingSignatureStore(filePath);
+    const expired = unsigned({ deadline: String(Math.floor(Date.now() / 1000) - 10) });
+    store.add('expired', expired, submission('HashExpired', expired.deadline));
+    store.fail('expired', new Error('MPC never answered'));
+    const live = unsigned({ nonce: '8' });
+    store.add('live', live, submission('HashLive', live.deadline));
+    fs.appendFileSync(filePath, '{"id": "torn');
+
+    const reloaded = new PendingSignatureStore(filePath);
+    assert.deepStrictEqual(reloaded.list().map(entry => entry.id), ['live']);
+
+    // The file now holds one line per entry still tracked
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    assert.strictEqual(lines.length, 1);
+    assert.strictEqual(JSON.parse(lines[0]).id, 'live');
+  });
+
+  it('compacts the file while running once superseded lines pile up', () => {
+    const filePath = path.join(tmpDir, 'running.jsonl');
+    const store = new PendingSignatureStore(filePath, 5);
+    const lineCount = () => fs.readFileSync(filePath, 'utf8').trim().split('\n').length;
+    const signOnce = (nonce: string) => {
+      const entry = unsigned({ nonce });
+      store.add(`signed-${nonce}`, entry, submission(`Hash${nonce}`, entry.deadline));
+      store.resolve(`signed-${nonce}`);
+    };
+
+    signOnce('10');
+    signOnce('11');
+    const live = unsigned({ nonce: '13' });
+    store.add('live', live, submission('HashLive', live.deadline));
+    assert.strictEqual(lineCount(), 5);
+
+    // 7 lines for the one entry still tracked: rewritten to that entry alone
+    signOnce('12');
+    assert.strictEqual(lineCount(), 1);
+    assert.deepStrictEqual(new PendingSignatureStore(filePath).list().map(entry => entry.id), ['live']);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { PoolValueHistory, parseResolution, toPoolValueSample } from '../src/services/poolValueHistory';
+
+function poolValue(timestamp: number, totalPoolValue: string): any {
+  return {
+    asset: 'USDC',
+    decimals: 6,
+    totalATokens: totalPoolValue,
+    totalUSDC: '0',
+    totalPoolValue,
+    assets: [],
+    breakdown: [
+      { chainId: 84532, chainName: 'Base Sepolia', asset: 'USDC', decimals: 6, aTokens: totalPoolValue, idle: '0' },
+      { chainId: 421614, chainName: 'Arbitrum Sepolia', asset: 'USDC', decimals: 6, aTokens: '0', idle: '0' },
+    ],
+    totalShares: '1.0',
+    pricePerUnit: totalPoolValue,
+    apy: { '1d': null, '7d': null, '30d': null },
+    vaults: [{ chainId: 84532, vaultAddress: '0x773035EABdA16B5416B26E12156483C6B6F56451', pricePerUnit: totalPoolValue }],
+    sourceBlocks: [{ chainId: 84532, blockNumber: 1000, blockHash: '0x', blockTimestamp: timestamp, finality: 'latest' }],
+    stale: true,
+    chains: [],
+    timestamp,
+  };
+}
+
+describe('Pool value history', () => {
+  let tmpDir: string;
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pool-value-history-'));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('records block numbers per chain and persists across restarts', () => {
+    const filePath = path.join(tmpDir, 'nested', 'persist.jsonl');
+    const sample = toPoolValueSample(poolValue(1000, '5'));
+    new PoolValueHistory(filePath).append(sample);
+
+    assert.deepStrictEqual(sample.breakdown.map(entry => entry.blockNumber), [1000, null]);
+    const { points } = new PoolValueHistory(filePath).query({ from: 0, to: 2000 });
+    assert.deepStrictEqual(points.map(point => point.totalPoolValue), ['5']);
+  });
+
+  it('keeps the last sample of each bucket', () => {
+    const history = new PoolValueHistory(path.join(tmpDir, 'buckets.jsonl'));
+    for (const [timestamp, value] of [[1000, '1'], [1030, '2'], [1070, '3'], [1130, '4'], [1200, '5']] as const) {
+      history.append(toPoolValueSample(poolValue(timestamp, value)));
+    }
+
+    const result = history.query({ from: 1000, to: 1199, resolution: 60 });
+    assert.strictEqual(result.resolution, 60);
+    assert.deepStrictEqual(
+      result.points.map(point => [point.bucket, point.totalPoolValue, point.samples]),
+      [[1000, '2', 2], [1060, '3', 1], [1120, '4', 1]]
+    );
+  });
+
+  it('widens the resolution to stay within maxPoints', () => {
+    const history = new PoolValueHistory(path.join(tmpDir, 'downsample.jsonl'));
+    for (let timestamp = 0; timestamp < 100; timestamp += 10) {
+      history.append(toPoolValueSample(poolValue(timestamp, String(timestamp))));
+    }
+
+    const result = history.query({ from: 0, to: 99, resolution: 10, maxPoints: 4 });
+    assert.strictEqual(result.resolution, 25);
+    assert.deepStrictEqual(result.points.map(point => point.totalPoolValue), ['20', '40', '70', '90']);
+  });
+
+  it('finds the latest share price at or before a time', () => {
+    const history = new PoolValueHistory(path.join(tmpDir, 'prices.jsonl'));
+    history.append(toPoolValueSample(poolValue(100, '1.0')));
+    history.append(toPoolValueSample(poolValue(200, '1.1')));
+
+    assert.deepStrictEqual(history.sharePriceAt(150), { timestamp: 100, pricePerUnit: '1.0' });
+    assert.deepStrictEqual(
+      history.sharePriceAt(200, { chainId: 84532, vaultAddress: '0x773035eabda16b5416b26e12156483c6b6f56451' }),
+      { timestamp: 200, pricePerUnit: '1.1' }
+    );
+    assert.strictEqual(history.sharePriceAt(99), undefined);
+  });
+
+  it('parses resolutions', () => {
+    assert.strictEqual(parseResolution('300'), 300);
+    assert.strictEqual(parseResolution('5m'), 300);
+    assert.strictEqual(parseResolution('1d'), 86400);
+    assert.strictEqual(parseResolution('0'), null);
+    assert.strictEqual(parseResolution('1w'), null);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert';
+import { ChainProviderPool } from '../src/services/providerPool';
+import { FakeEvmRpc, startFakeEvmRpc } from './support/fakeEvmRpc';
+
+describe('RPC provider pool', () => {
+  let primary: FakeEvmRpc;
+  let fallback: FakeEvmRpc;
+
+  before(async () => {
+    process.env.RPC_RETRY_BASE_MS = '1';
+    process.env.RPC_FAILURE_THRESHOLD = '1';
+    primary = await startFakeEvmRpc({ chainId: 31337, blockNumber: 100 });
+    fallback = await startFakeEvmRpc({ chainId: 31337, blockNumber: 100 });
+  });
+
+  after(async () => {
+    delete process.env.RPC_RETRY_BASE_MS;
+    delete process.env.RPC_FAILURE_THRESHOLD;
+    await primary.close();
+    await fallback.close();
+  });
+
+  beforeEach(() => {
+    primary.setDown(false);
+    fallback.setDown(false);
+  });
+
+  function createPool(): ChainProviderPool {
+    return new ChainProviderPool({ chainId: 31337, name: 'Local', rpcUrls: [primary.url, fallback.url] });
+  }
+
+  it('uses the first endpoint while it is healthy', async () => {
+    const pool = createPool();
+    primary.requests.length = 0;
+    fallback.requests.length = 0;
+
+    assert.strictEqual(await pool.execute(provider => provider.getBlockNumber()), 100);
+    assert.ok(primary.requests.length > 0);
+    assert.strictEqual(fallback.requests.length, 0);
+    pool.destroy();
+  });
+
+  it('fails over to the next endpoint and records the failure', async () => {
+    const pool = createPool();
+    primary.setDown(true);
+
+    assert.strictEqual(await pool.execute(provider => provider.getBlockNumber()), 100);
+
+    const [primaryStatus, fallbackStatus] = pool.getStatus().endpoints;
+    assert.strictEqual(primaryStatus.failures, 1);
+    assert.ok(primaryStatus.lastError);
+    assert.strictEqual(fallbackStatus.failures, 0);
+    assert.strictEqual(fallbackStatus.requests, 1);
+    pool.destroy();
+  });
+
+  it('puts failing endpoints in cooldown behind healthy ones', async () => {
+    const pool = createPool();
+    primary.setDown(true);
+    await pool.execute(provider => provider.getBlockNumber());
+
+    // The fallback now ranks first, so the primary is not tried again even once it recovers
+    primary.setDown(false);
+    primary.requests.length = 0;
+    await pool.execute(provider => provider.getBlockNumber());
+    assert.strictEqual(primary.requests.length, 0);
+
+    const status = pool.getStatus();
+    assert.strictEqual(status.healthy, true);
+    assert.strictEqual(status.endpoints[0].healthy, false);
+    assert.ok(status.endpoints[0].cooldownUntil);
+    pool.destroy();
+  });
+
+  it('throws the last error when every endpoint fails', async () => {
+    const pool = createPool();
+    primary.setDown(true);
+    fallback.setDown(true);
+
+    await assert.rejects(pool.execute(provider => provider.getBlockNumber()), { code: 'SERVER_ERROR' });
+    pool.destroy();
+  });
+
+  it('neither retries nor penalizes an endpoint for a request it cannot send', async () => {
+    const pool = new ChainProviderPool({ chainId: 31337, name: 'Local', rpcUrls: ['wss://localhost:1', primary.url] });
+    primary.requests.length = 0;
+
+    await assert.rejects(pool.execute(provider => provider.getBlockNumber()), { code: 'UNSUPPORTED_OPERATION' });
+
+    const [wsStatus] = pool.getStatus().endpoints;
+    assert.strictEqual(primary.requests.length, 0);
+    assert.strictEqual(wsStatus.failures, 0);
+    assert.strictEqual(wsStatus.requests, 0);
+    assert.strictEqual(wsStatus.healthy, true);
+    pool.destroy();
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ethers } from 'ethers';
+import { KeyPair } from 'near-api-js';
+import { VAULT_ABI } from '../src/config/abis';
+import { checkAccessKey } from '../src/services/nearHealth';
+import { FakeEvmRpc, startFakeEvmRpc } from './support/fakeEvmRpc';
+
+const CHAIN_ID = 84532;
+const REMOTE_CHAIN_ID = 421614;
+const VAULT = '0x773035EABdA16B5416B26E12156483C6B6F56451';
+const SIGNER_KEY = ethers.id('readiness test signer');
+
+describe('Readiness', () => {
+  let tmpDir: string;
+  let rpc: FakeEvmRpc;
+  let remoteRpc: FakeEvmRpc;
+  let vaultAgent = new ethers.Wallet(SIGNER_KEY).address;
+  let checkReadiness: () => Promise<any>;
+
+  before(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'readiness-'));
+    const now = Math.floor(Date.now() / 1000);
+
+    // The vault chain's head is 10 seconds old; the remote chain stopped a day ago
+    rpc = await startFakeEvmRpc({ chainId: CHAIN_ID, blockNumber: 1000, genesisTimestamp: now - 2000 - 10 });
+    rpc.addContract(VAULT, VAULT_ABI, { AI_AGENT: () => vaultAgent });
+    remoteRpc = await startFakeEvmRpc({ chainId: REMOTE_CHAIN_ID, blockNumber: 2000, genesisTimestamp: now - 4000 - 86400 });
+
+    const registryPath = path.join(tmpDir, 'chains.json');
+    fs.writeFileSync(registryPath, JSON.stringify({
+      profiles: {
+        test: {
+          chains: [{
+            key: 'baseSepolia',
+            chainId: CHAIN_ID,
+            name: 'Base Sepolia',
+            rpcUrl: rpc.url,
+            aavePoolAddress: '0x6a9d64f93db660eacb2b6e9424792c630cda87d8',
+            assets: [{ symbol: 'USDC', address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' }],
+            vault: { address: VAULT, asset: 'USDC', requiredChains: ['baseSepolia'] },
+          }, {
+            key: 'arbitrumSepolia',
+            chainId: REMOTE_CHAIN_ID,
+            name: 'Arbitrum Sepolia',
+            rpcUrl: remoteRpc.url,
+            critical: false,
+            aavePoolAddress: '0xBfC91D59fdAA134A4ED45f7B584cAf96D7792Eff',
+            assets: [{ symbol: 'USDC', address: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d' }],
+          }],
+        },
+      },
+    }));
+
+    process.env.CHAIN_REGISTRY_PATH = registryPath;
+    process.env.CHAIN_PROFILE = 'test';
+    process.env.SIGNER_BACKEND = 'local';
+    process.env.LOCAL_SIGNER_PRIVATE_KEY = SIGNER_KEY;
+    process.env.RPC_MAX_ATTEMPTS = '1';
+
+    // Imported after the environment is set: the signer and registry are read on first use
+    ({ checkReadiness } = await import('../src/services/readinessService'));
+  });
+
+  after(async () => {
+    for (const name of ['CHAIN_REGISTRY_PATH', 'CHAIN_PROFILE', 'SIGNER_BACKEND', 'LOCAL_SIGNER_PRIVATE_KEY', 'RPC_MAX_ATTEMPTS']) {
+      delete process.env[name];
+    }
+    await rpc.close();
+    await remoteRpc.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stays ready but degraded when only a chain no vault needs is stale', async () => {
+    const report = await checkReadiness();
+
+    assert.strictEqual(report.status, 'degraded');
+    assert.strictEqual(report.ready, true);
+    assert.deepStrictEqual(
+      report.components.map((component: any) => [component.component, component.status, component.required]),
+      [
+        ['chain:baseSepolia', 'ok', true],
+        ['chain:arbitrumSepolia', 'failed', false],
+        ['vault-agent:baseSepolia', 'ok', true],
+      ]
+    );
+    assert.strictEqual(report.components[0].details.headAgeSeconds <= 11, true);
+    assert.match(report.components[1].message, /^head is \d+s old \(max 120s\)$/);
+  });
+
+  it('is not ready when a vault trusts another agent or its chain is down', async () => {
+    vaultAgent = '0x1234567890123456789012345678901234567890';
+    let report = await checkReadiness();
+    const agentCheck = report.components.find((component: any) => component.component === 'vault-agent:baseSepolia');
+
+    assert.strictEqual(report.status, 'not_ready');
+    assert.strictEqual(agentCheck.message, 'vault AI_AGENT() is not the signer agent address');
+    assert.strictEqual(agentCheck.details.vaultAgent, vaultAgent);
+
+    vaultAgent = new ethers.Wallet(SIGNER_KEY).address;
+    rpc.setDown(true);
+    try {
+      report = await checkReadiness();
+    } finally {
+      rpc.setDown(false);
+    }
+    assert.strictEqual(report.status, 'not_ready');
+    assert.strictEqual(report.components[0].status, 'failed');
+  });
+
+  it('rejects function-call access keys that cannot make the signing call', async () => {
+    const functionCallKey = (receiverId: string) => ({
+      query: async () => ({ permission: { FunctionCall: { receiver_id: receiverId, method_names: [], allowance: null } } }),
+    }) as any;
+    const keyPair = KeyPair.fromRandom('ed25519');
+
+    const mpc = await checkAccessKey(functionCallKey('v1.signer-prod.testnet'), 'oracle.testnet', keyPair, {
+      receiverId: 'v1.signer-prod.testnet',
+      methodName: 'sign',
+      deposit: 250000000000000000000000n,
+    });
+    assert.strictEqual(mpc.status, 'failed');
+    assert.strictEqual(mpc.message, 'function-call access keys cannot attach the deposit sign requires');
+
+    const wrongReceiver = await checkAccessKey(functionCallKey('other.testnet'), 'oracle.testnet', keyPair, {
+      receiverId: 'rebalancer.testnet',
+      methodName: 'build_and_sign_crosschain_balance_snapshot_tx',
+      deposit: 0n,
+    });
+    assert.strictEqual(wrongReceiver.message, 'access key may only call other.testnet, not rebalancer.testnet');
+
+    const contract = await checkAccessKey(functionCallKey('rebalancer.testnet'), 'oracle.testnet', keyPair, {
+      receiverId: 'rebalancer.testnet',
+      methodName: 'build_and_sign_crosschain_balance_snapshot_tx',
+      deposit: 0n,
+    });
+    assert.strictEqual(contract.status, 'ok');
+  });
+});
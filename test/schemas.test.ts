@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { balanceSnapshotSchema, poolValueHistorySchema, validate, withdrawSnapshotSchema } from '../src/api/schemas';
+
+// Base Sepolia has the vault in the shipped testnet registry, with the default 60-3600s validity
+const VAULT_CHAIN_ID = 84532;
+const RECEIVER = '0x742d35cc6634c0532925a3b844bc9e7595f0beb0';
+
+describe('Request schemas', () => {
+  it('parses a valid balance snapshot request', () => {
+    const { values, errors } = validate(
+      balanceSnapshotSchema,
+      { assets: '1000000', receiver: RECEIVER, vaultChainId: VAULT_CHAIN_ID, validitySeconds: 600 },
+      'body'
+    );
+
+    assert.deepStrictEqual(errors, []);
+    assert.deepStrictEqual(values, { assets: '1000000', receiver: RECEIVER, vaultChainId: VAULT_CHAIN_ID, validitySeconds: 600 });
+  });
+
+  it('reports every bad field of a body', () => {
+    const { errors } = validate(
+      balanceSnapshotSchema,
+      { assets: 1000000, receiver: '0x1234', vaultChainId: '84532', validitySeconds: 30, memo: 'hi' },
+      'body'
+    );
+
+    assert.deepStrictEqual(errors.map(error => [error.field, error.message]), [
+      ['memo', 'is not a known field'],
+      ['assets', 'must be a uint256 decimal string'],
+      ['receiver', 'must be a 0x-prefixed address'],
+      ['vaultChainId', 'must be an integer'],
+    ]);
+  });
+
+  it('checks vaults and validity bounds against the registry', () => {
+    const noVault = validate(balanceSnapshotSchema, { assets: '1', receiver: RECEIVER, vaultChainId: 11155111 }, 'body');
+    assert.deepStrictEqual(noVault.errors.map(error => error.message), ['no vault is configured on chain 11155111']);
+
+    const tooLong = validate(balanceSnapshotSchema, { assets: '1', receiver: RECEIVER, vaultChainId: VAULT_CHAIN_ID, validitySeconds: 7200 }, 'body');
+    assert.deepStrictEqual(tooLong.errors.map(error => [error.field, error.message]), [
+      ['validitySeconds', 'must be between 60 and 3600 for the vault on chain 84532'],
+    ]);
+
+    const uint256Overflow = validate(balanceSnapshotSchema, { assets: (2n ** 256n).toString(), receiver: RECEIVER, vaultChainId: VAULT_CHAIN_ID }, 'body');
+    assert.deepStrictEqual(uint256Overflow.errors.map(error => error.field), ['assets']);
+  });
+
+  it('requires shares or assets on withdraw snapshots', () => {
+    const { errors } = validate(withdrawSnapshotSchema, { owner: RECEIVER, shares: '0', vaultChainId: VAULT_CHAIN_ID }, 'body');
+    assert.deepStrictEqual(errors, [{ field: 'shares', location: 'body', message: 'shares or assets must be greater than 0' }]);
+  });
+
+  it('parses query strings', () => {
+    const { values, errors } = validate(poolValueHistorySchema, { from: '100', resolution: '5m', maxPoints: '0' }, 'query');
+
+    assert.deepStrictEqual(errors, [{ field: 'maxPoints', location: 'query', message: 'must be between 1 and 5000' }]);
+    assert.deepStrictEqual(values, { from: 100, resolution: 300 });
+  });
+});
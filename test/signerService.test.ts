@@ -0,0 +1,101 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { ethers } from 'ethers';
+import { LocalSigner } from '../src/services/localSigner';
+import { getSigner, getSignerBackend, getSignerRequiredEnv } from '../src/services/signerService';
+import { CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES, getVaultDomain } from '../src/config/eip712';
+
+const DOMAIN = getVaultDomain(84532, '0x773035EABdA16B5416B26E12156483C6B6F56451');
+const WALLET = ethers.Wallet.createRandom();
+
+const balanceSnapshot = {
+  balance: '1500000',
+  nonce: '3',
+  deadline: '1900000000',
+  assets: '1000000',
+  receiver: '0x1234567890123456789012345678901234567890',
+};
+
+const withdrawSnapshot = {
+  balance: '1500000',
+  nonce: '4',
+  deadline: '1900000000',
+  shares: '0',
+  assets: '250000',
+  owner: '0x1234567890123456789012345678901234567890',
+};
+
+describe('Signer backends', () => {
+  before(() => {
+    process.env.LOCAL_SIGNER_PRIVATE_KEY = WALLET.privateKey;
+  });
+
+  after(() => {
+    delete process.env.SIGNER_BACKEND;
+    delete process.env.LOCAL_SIGNER_PRIVATE_KEY;
+  });
+
+  it('defaults to the rebalancer contract and accepts any case', () => {
+    delete process.env.SIGNER_BACKEND;
+    assert.strictEqual(getSignerBackend(), 'contract');
+    assert.deepStrictEqual(getSignerRequiredEnv(), ['NEAR_ACCOUNT_ID', 'NEAR_PRIVATE_KEY', 'NEAR_CONTRACT_ID']);
+
+    process.env.SIGNER_BACKEND = 'MPC';
+    assert.strictEqual(getSignerBackend(), 'mpc');
+    assert.deepStrictEqual(getSignerRequiredEnv(), ['NEAR_ACCOUNT_ID', 'NEAR_PRIVATE_KEY']);
+  });
+
+  it('rejects an unknown backend', () => {
+    process.env.SIGNER_BACKEND = 'hsm';
+
+    assert.throws(() => getSigner(), (error: any) => {
+      assert.strictEqual(error.code, 'CONFIG_ERROR');
+      assert.strictEqual(error.message, 'Invalid SIGNER_BACKEND: hsm. Expected one of: mpc, contract, local');
+      return true;
+    });
+  });
+
+  it('builds the local signer when selected', async () => {
+    process.env.SIGNER_BACKEND = 'local';
+    const signer = getSigner();
+
+    assert.strictEqual(signer.backend, 'local');
+    assert.strictEqual(await signer.getAgentAddress(), WALLET.address);
+    assert.strictEqual(await signer.checkBalance(), null);
+  });
+
+  describe('LocalSigner', () => {
+    it('requires LOCAL_SIGNER_PRIVATE_KEY', () => {
+      delete process.env.LOCAL_SIGNER_PRIVATE_KEY;
+      try {
+        assert.throws(() => new LocalSigner(), (error: any) => error.code === 'CONFIG_ERROR');
+      } finally {
+        process.env.LOCAL_SIGNER_PRIVATE_KEY = WALLET.privateKey;
+      }
+    });
+
+    it('signs balance snapshots that recover to the configured key', async () => {
+      const { signature, agentAddress } = await new LocalSigner().signBalanceSnapshot(balanceSnapshot, DOMAIN);
+
+      assert.strictEqual(agentAddress, WALLET.address);
+      assert.strictEqual(ethers.verifyTypedData(DOMAIN, CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, balanceSnapshot, signature), WALLET.address);
+    });
+
+    it('signs withdraw snapshots that recover to the configured key', async () => {
+      const { signature } = await new LocalSigner().signWithdrawSnapshot(withdrawSnapshot, DOMAIN);
+
+      assert.strictEqual(ethers.verifyTypedData(DOMAIN, CROSS_CHAIN_WITHDRAW_SNAPSHOT_TYPES, withdrawSnapshot, signature), WALLET.address);
+    });
+
+    it('reports a snapshot it cannot sign as a configuration error', async () => {
+      await assert.rejects(
+        new LocalSigner().signBalanceSnapshot({ ...balanceSnapshot, receiver: 'not-an-address' }, DOMAIN),
+        (error: any) => {
+          assert.strictEqual(error.code, 'CONFIG_ERROR');
+          assert.match(error.message, /^Local signing failed: /);
+          return true;
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { BalanceSanityError, checkCrossChainBalance } from '../src/services/signingGuard';
+
+const VAULT_CHAIN_ID = 84532;
+
+function chainStatus(chainId: number, status: 'fresh' | 'stale' | 'unavailable') {
+  return { chainId, chainName: `Chain ${chainId}`, status, critical: false, blockNumber: null, ageSeconds: 0 };
+}
+
+function chainBalance(chainId: number, aTokenBalance: string, decimals = 6) {
+  return { chainId, asset: 'USDC', decimals, aTokenBalance } as any;
+}
+
+// Vault on VAULT_CHAIN_ID; the agent holds 100 USDC (6 decimals) on 421614 and 50 USDC (18 decimals) on 11155111
+function quorum(remoteStatus: 'fresh' | 'unavailable' = 'fresh'): any {
+  const states = [
+    { chainId: VAULT_CHAIN_ID, chainBalances: [chainBalance(VAULT_CHAIN_ID, '999000000')], vaultBalance: { asset: 'USDC', decimals: 6 } },
+    { chainId: 11155111, chainBalances: [chainBalance(11155111, '50000000000000000000', 18)] },
+  ];
+  if (remoteStatus === 'fresh') {
+    states.push({ chainId: 421614, chainBalances: [chainBalance(421614, '100000000')] } as any);
+  }
+  return {
+    states,
+    chains: [chainStatus(VAULT_CHAIN_ID, 'fresh'), chainStatus(11155111, 'fresh'), chainStatus(421614, remoteStatus)],
+    stale: remoteStatus !== 'fresh',
+  };
+}
+
+describe('Signing guard', () => {
+  afterEach(() => {
+    delete process.env.SIGNING_GUARD_MODE;
+    delete process.env.SIGNING_MAX_DEVIATION_BPS;
+  });
+
+  it('passes within the threshold, counting only other chains in the vault decimals', () => {
+    const check = checkCrossChainBalance(151_000_000n, VAULT_CHAIN_ID, quorum());
+
+    assert.strictEqual(check.outcome, 'passed');
+    assert.strictEqual(check.observedBalance, '150000000');
+    assert.strictEqual(check.deviationBps, 66);
+    assert.deepStrictEqual(check.chains.map(chain => chain.balance), ['50000000', '100000000']);
+  });
+
+  it('refuses when the deviation exceeds the threshold', () => {
+    process.env.SIGNING_MAX_DEVIATION_BPS = '50';
+
+    assert.throws(() => checkCrossChainBalance(151_000_000n, VAULT_CHAIN_ID, quorum()), (error: any) => {
+      assert.ok(error instanceof BalanceSanityError);
+      assert.strictEqual(error.check.outcome, 'failed');
+      return true;
+    });
+  });
+
+  it('signs with a warning in warn mode or while a chain is unavailable', () => {
+    process.env.SIGNING_GUARD_MODE = 'warn';
+    assert.strictEqual(checkCrossChainBalance(300_000_000n, VAULT_CHAIN_ID, quorum()).outcome, 'warned');
+
+    delete process.env.SIGNING_GUARD_MODE;
+    const check = checkCrossChainBalance(150_000_000n, VAULT_CHAIN_ID, quorum('unavailable'));
+    assert.strictEqual(check.outcome, 'incomplete');
+    assert.strictEqual(check.chains[1].balance, null);
+  });
+
+  it('reports a vault chain missing from the read as unavailable', () => {
+    const read = quorum();
+    read.states = read.states.filter((state: any) => state.chainId !== VAULT_CHAIN_ID);
+    read.chains[0] = { ...chainStatus(VAULT_CHAIN_ID, 'unavailable'), error: 'timeout' };
+
+    assert.throws(() => checkCrossChainBalance(150_000_000n, VAULT_CHAIN_ID, read), (error: any) => {
+      assert.strictEqual(error.code, 'CHAINS_UNAVAILABLE');
+      assert.strictEqual(error.message, `Required chains unavailable: Chain ${VAULT_CHAIN_ID} (timeout)`);
+      return true;
+    });
+
+    // A chain the read never attempted is reported with the reason
+    assert.throws(() => checkCrossChainBalance(150_000_000n, 1, quorum()), (error: any) => {
+      assert.strictEqual(error.code, 'CHAINS_UNAVAILABLE');
+      assert.deepStrictEqual(error.chains.map((chain: any) => [chain.chainId, chain.status, chain.error]), [
+        [1, 'unavailable', 'No vault balance read on chain 1'],
+      ]);
+      return true;
+    });
+  });
+});
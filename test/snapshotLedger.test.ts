@@ -0,0 +1,87 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { SnapshotLedger } from '../src/services/snapshotLedger';
+
+const VAULT = '0x773035EABdA16B5416B26E12156483C6B6F56451';
+const AGENT = '0x20f2747b4b1b3e1e4b9e5a3f4e4d4c4b4a494847';
+const RECEIVER = '0x742d35cc6634c0532925a3b844bc9e7595f0beb0';
+
+function snapshot(overrides: Record<string, any> = {}) {
+  return {
+    vaultAddress: VAULT,
+    chainId: 84532,
+    nonce: '5',
+    balance: '1234567890',
+    deadline: String(Math.floor(Date.now() / 1000) + 300),
+    assets: '1000000',
+    receiver: RECEIVER,
+    signature: '0x' + 'ab'.repeat(65),
+    agentAddress: AGENT,
+    signerBackend: 'local' as const,
+    sourceBlocks: [],
+    requestedBy: 'key-0123456789ab',
+    ...overrides,
+  };
+}
+
+describe('Snapshot ledger', () => {
+  let tmpDir: string;
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-ledger-'));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('persists snapshots across restarts', () => {
+    const filePath = path.join(tmpDir, 'nested', 'persist.jsonl');
+    const recorded = new SnapshotLedger(filePath).record(snapshot());
+
+    const reloaded = new SnapshotLedger(filePath);
+    assert.deepStrictEqual(reloaded.get(recorded.id), recorded);
+  });
+
+  it('skips unreadable lines', () => {
+    const filePath = path.join(tmpDir, 'torn.jsonl');
+    const recorded = new SnapshotLedger(filePath).record(snapshot());
+    fs.appendFileSync(filePath, '{"id": "torn');
+
+    const reloaded = new SnapshotLedger(filePath);
+    assert.strictEqual(reloaded.list().length, 1);
+    assert.ok(reloaded.get(recorded.id));
+
+    // New records start on their own line after the torn one
+    const next = reloaded.record(snapshot({ nonce: '6' }));
+    assert.ok(new SnapshotLedger(filePath).get(next.id));
+  });
+
+  it('reuses a snapshot only for the same request while it is still valid', () => {
+    const ledger = new SnapshotLedger(path.join(tmpDir, 'reuse.jsonl'));
+    const valid = ledger.record(snapshot());
+    ledger.record(snapshot({ nonce: '6', deadline: String(Math.floor(Date.now() / 1000) + 10) }));
+
+    const query = { chainId: 84532, vaultAddress: VAULT, agentAddress: AGENT, receiver: RECEIVER.toUpperCase().replace('0X', '0x'), assets: '1000000', nonce: '5' };
+    assert.strictEqual(ledger.findReusable(query)?.id, valid.id);
+    assert.strictEqual(ledger.findReusable({ ...query, assets: '2000000' }), undefined);
+    // Nonce 6 expires within the minimum remaining validity
+    assert.strictEqual(ledger.findReusable({ ...query, nonce: '6' }), undefined);
+  });
+
+  it('lists snapshots newest first with filters', () => {
+    const ledger = new SnapshotLedger(path.join(tmpDir, 'list.jsonl'));
+    const first = ledger.record(snapshot({ nonce: '1' }));
+    const second = ledger.record(snapshot({ nonce: '2', chainId: 421614 }));
+    const third = ledger.record(snapshot({ nonce: '3', requestedBy: 'key-other' }));
+
+    assert.deepStrictEqual(ledger.list().map(record => record.id), [third.id, second.id, first.id]);
+    assert.deepStrictEqual(ledger.list({ chainId: 84532 }).map(record => record.id), [third.id, first.id]);
+    assert.deepStrictEqual(ledger.list({ requestedBy: 'key-other' }).map(record => record.id), [third.id]);
+    assert.deepStrictEqual(ledger.list({ limit: 1 }).map(record => record.id), [third.id]);
+    assert.strictEqual(ledger.list({ from: Math.floor(Date.now() / 1000) + 60 }).length, 0);
+  });
+});
@@ -0,0 +1,236 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ethers } from 'ethers';
+import { MULTICALL3_ABI } from '../../src/config/abis';
+import { MULTICALL3_ADDRESS } from '../../src/services/multicall';
+
+/**
+ * Fake EVM JSON-RPC - In-process stand-in for a chain's RPC endpoint
+ *
+ * Implements just enough of the RPC for ethers to read blocks and run eth_call against
+ * registered fake contracts. Multicall3 aggregate3 is served at MULTICALL3_ADDRESS
+ * unless disabled, dispatching each sub-call to the same fake contracts.
+ */
+
+export type FakeContractHandler = (args: ethers.Result, blockTag: string) => any;
+
+export interface FakeEvmRpcOptions {
+  chainId?: number;
+  blockNumber?: number;
+  multicall3?: boolean;
+  genesisTimestamp?: number; // Timestamp of block 0; blocks are 2 seconds apart
+}
+
+export interface FakeEvmRequest {
+  method: string;
+  params: any[];
+}
+
+export interface FakeEvmRpc {
+  url: string;
+  chainId: number;
+  requests: FakeEvmRequest[];
+  addContract(address: string, abi: ethers.InterfaceAbi, handlers: Record<string, FakeContractHandler>): void;
+  setBlockNumber(blockNumber: number): void;
+  reorg(fromBlock: number): void; // Give every block from fromBlock on a new hash
+  setDown(down: boolean): void; // Answer every request with HTTP 503
+  close(): Promise<void>;
+}
+
+// Thrown by a contract handler to make the call revert with Error(reason)
+export class FakeRevert extends Error {}
+
+class RpcError extends Error {
+  constructor(public code: number, message: string, public data?: string) {
+    super(message);
+  }
+}
+
+interface FakeContract {
+  iface: ethers.Interface;
+  handlers: Record<string, FakeContractHandler>;
+}
+
+const toHex = (value: number | bigint) => '0x' + value.toString(16);
+
+function revertData(reason: string): string {
+  return '0x08c379a0' + ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason]).slice(2);
+}
+
+export async function startFakeEvmRpc(options: FakeEvmRpcOptions = {}): Promise<FakeEvmRpc> {
+  const chainId = options.chainId || 31337;
+  const multicallEnabled = options.multicall3 !== false;
+  const multicallIface = new ethers.Interface(MULTICALL3_ABI);
+  let blockNumber = options.blockNumber ?? 1000;
+  const genesisTimestamp = options.genesisTimestamp ?? 1_700_000_000;
+  let down = false;
+
+  const requests: FakeEvmRequest[] = [];
+  const contracts: Map<string, FakeContract> = new Map();
+
+  // Blocks at or above each reorg point get a new hash
+  const reorgPoints: number[] = [];
+
+  function blockHash(number: number): string {
+    const fork = reorgPoints.filter(point => number >= point).length;
+    return ethers.keccak256(ethers.toUtf8Bytes(`fake-block-${chainId}-${number}${fork ? `-fork${fork}` : ''}`));
+  }
+
+  function resolveBlockNumber(tag: string): number {
+    switch (tag) {
+      case 'latest':
+      case 'pending':
+        return blockNumber;
+      case 'safe':
+        return Math.max(blockNumber - 32, 0);
+      case 'finalized':
+        return Math.max(blockNumber - 64, 0);
+      case 'earliest':
+        return 0;
+      default:
+        return Number(tag);
+    }
+  }
+
+  function getBlock(tag: string): any {
+    const number = resolveBlockNumber(tag);
+    if (number > blockNumber) {
+      return null;
+    }
+    return {
+      number: toHex(number),
+      hash: blockHash(number),
+      parentHash: blockHash(Math.max(number - 1, 0)),
+      timestamp: toHex(genesisTimestamp + number * 2),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: toHex(30_000_000),
+      gasUsed: '0x0',
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: '0x1',
+      transactions: [],
+    };
+  }
+
+  // Run a call against a fake contract; returns [success, returnData]
+  function callContract(to: string, data: string, blockTag: string): [boolean, string] {
+    const contract = contracts.get(to.toLowerCase());
+    if (!contract) {
+      // No code at the address: calls succeed with empty return data
+      return [true, '0x'];
+    }
+
+    const tx = contract.iface.parseTransaction({ data });
+    const handler = tx && contract.handlers[tx.name];
+    if (!tx || !handler) {
+      return [false, '0x'];
+    }
+
+    try {
+      const value = handler(tx.args, blockTag);
+      const values = tx.fragment.outputs.length === 1 ? [value] : value;
+      return [true, contract.iface.encodeFunctionResult(tx.fragment, values)];
+    } catch (error) {
+      if (error instanceof FakeRevert) {
+        return [false, revertData(error.message)];
+      }
+      throw error;
+    }
+  }
+
+  function handleCall(params: any[]): string {
+    const { to, data } = params[0];
+    const blockTag = String(params[1] ?? 'latest');
+
+    if (multicallEnabled && to.toLowerCase() === MULTICALL3_ADDRESS.toLowerCase()) {
+      const [calls] = multicallIface.decodeFunctionData('aggregate3', data);
+      const results = calls.map((call: any) => {
+        const [success, returnData] = callContract(call.target, call.callData, blockTag);
+        if (!success && !call.allowFailure) {
+          throw new RpcError(3, 'execution reverted: Multicall3: call failed', revertData('Multicall3: call failed'));
+        }
+        return { success, returnData };
+      });
+      return multicallIface.encodeFunctionResult('aggregate3', [results]);
+    }
+
+    const [success, returnData] = callContract(to, data, blockTag);
+    if (!success) {
+      throw new RpcError(3, 'execution reverted', returnData);
+    }
+    return returnData;
+  }
+
+  function dispatch(method: string, params: any[]): any {
+    switch (method) {
+      case 'eth_chainId':
+        return toHex(chainId);
+      case 'net_version':
+        return String(chainId);
+      case 'eth_blockNumber':
+        return toHex(blockNumber);
+      case 'eth_getBlockByNumber':
+        return getBlock(params[0]);
+      case 'eth_call':
+        return handleCall(params);
+      default:
+        throw new RpcError(-32601, `Unsupported RPC method: ${method}`);
+    }
+  }
+
+  function respond(request: any): any {
+    requests.push({ method: request.method, params: request.params || [] });
+    try {
+      return { jsonrpc: '2.0', id: request.id, result: dispatch(request.method, request.params || []) };
+    } catch (error: any) {
+      const rpcError = error instanceof RpcError ? error : new RpcError(-32603, String(error?.message || error));
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: rpcError.code, message: rpcError.message, data: rpcError.data },
+      };
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      if (down) {
+        res.statusCode = 503;
+        res.end('Service Unavailable');
+        return;
+      }
+      const payload = JSON.parse(body);
+      const response = Array.isArray(payload) ? payload.map(respond) : respond(payload);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    chainId,
+    requests,
+    addContract: (address, abi, handlers) => {
+      contracts.set(address.toLowerCase(), { iface: new ethers.Interface(abi), handlers });
+    },
+    setBlockNumber: (number) => {
+      blockNumber = number;
+    },
+    reorg: (fromBlock) => {
+      reorgPoints.push(fromBlock);
+    },
+    setDown: (value) => {
+      down = value;
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(err => (err ? reject(err) : resolve()));
+    }),
+  };
+}
@@ -0,0 +1,362 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import * as crypto from 'node:crypto';
+import { transactions, utils } from 'near-api-js';
+import { ethers } from 'ethers';
+import * as secp256k1 from 'secp256k1';
+import { deriveEpsilon, deriveEvmAddress } from '../../src/utils/mpcKdf';
+import { CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES, getVaultDomain } from '../../src/config/eip712';
+
+/**
+ * Fake NEAR JSON-RPC - In-process stand-in for rpc.testnet.near.org
+ *
+ * Implements just enough of the RPC for near-api-js to sign and send transactions, plus:
+ * - Accounts: view_account with a settable balance
+ * - MPC contract: public_key and experimental_signature_deposit views, sign call (big_r/s/recovery_id)
+ * - Rebalancer contract: build_and_sign_crosschain_balance_snapshot_tx
+ *
+ * Signatures come from a local root key using the same epsilon derivation as the real MPC network.
+ * Transactions sent with broadcast_tx_async execute at once unless execution is paused, and their
+ * outcome, with its receipts, is served by the tx and EXPERIMENTAL_tx_status methods.
+ */
+
+export interface FakeNearRpcOptions {
+  rootSecretKey?: Buffer;
+  mpcContractId?: string;
+  rebalancerContractId?: string;
+  rebalancerPath?: string;
+}
+
+export interface FakeFunctionCall {
+  signerId: string;
+  receiverId: string;
+  methodName: string;
+  args: any;
+  rawArgs: string; // JSON as sent; integers beyond 2^53 are strings in args
+  gas: string;
+  deposit: string;
+}
+
+export interface FakeNearRpc {
+  url: string;
+  rootPublicKey: string;
+  mpcContractId: string;
+  rebalancerContractId: string;
+  rebalancerPath: string;
+  calls: FakeFunctionCall[];
+  deriveAddress(predecessorId: string, path: string): string;
+  setAccountBalance(yocto: bigint): void;    // Balance view_account reports for every account
+  setSignatureDeposit(yocto: bigint): void;  // Deposit the MPC contract asks for
+  pauseExecution(): void;  // Hold transactions broadcast from now on
+  resumeExecution(): void; // Execute the held transactions
+  close(): Promise<void>;
+}
+
+const DEFAULT_ROOT_SECRET_KEY = crypto.createHash('sha256').update('near-mpc-oracle fake root key').digest();
+
+class RpcError extends Error {
+  constructor(public data: { error_type: string; error_message: string }) {
+    super(data.error_message);
+  }
+}
+
+// Sign a 32-byte payload with the child key derived for predecessorId + path
+function signWithDerivedKey(rootSecretKey: Buffer, predecessorId: string, path: string, payload: Uint8Array) {
+  const childSecretKey = secp256k1.privateKeyTweakAdd(
+    Buffer.from(rootSecretKey),
+    deriveEpsilon(predecessorId, path)
+  );
+  const { signature, recid } = secp256k1.ecdsaSign(payload, childSecretKey);
+  return {
+    r: Buffer.from(signature.subarray(0, 32)),
+    s: Buffer.from(signature.subarray(32, 64)),
+    recoveryId: recid,
+  };
+}
+
+// Parse call args like serde_json into u64/u128: integer literals too large for a JS number stay exact, as strings
+function parseArgs(json: string): any {
+  return JSON.parse(json.replace(/([:,\[]\s*)(\d{16,})(?=\s*[,}\]])/g, '$1"$2"'));
+}
+
+function randomHash(): string {
+  return utils.serialize.base_encode(crypto.randomBytes(32));
+}
+
+function failureOutcome(txHash: string, signerId: string, receiverId: string, error: string) {
+  const failure = { ActionError: { index: 0, kind: { FunctionCallError: { ExecutionError: error } } } };
+  const receiptId = randomHash();
+  return {
+    status: { Failure: failure },
+    transaction: { hash: txHash, signer_id: signerId, receiver_id: receiverId },
+    transaction_outcome: { id: txHash, block_hash: randomHash(), outcome: { logs: [], receipt_ids: [receiptId], gas_burnt: 0, tokens_burnt: '0', executor_id: signerId, status: { SuccessReceiptId: receiptId } } },
+    receipts_outcome: [
+      { id: receiptId, block_hash: randomHash(), outcome: { logs: [], receipt_ids: [], gas_burnt: 0, tokens_burnt: '0', executor_id: receiverId, status: { Failure: failure } } },
+    ],
+    receipts: [],
+  };
+}
+
+// Receipt of a transfer from a contract back to the signer
+function refundReceipt(contractId: string, signerId: string, yocto: bigint) {
+  return {
+    predecessor_id: contractId,
+    receiver_id: signerId,
+    receipt_id: randomHash(),
+    receipt: { Action: { signer_id: signerId, actions: [{ Transfer: { deposit: yocto.toString() } }] } },
+  };
+}
+
+function successOutcome(txHash: string, signerId: string, receiverId: string, returnValue: any, receipts: any[] = []) {
+  const outcome = {
+    logs: [],
+    receipt_ids: [],
+    gas_burnt: 2428000000000,
+    tokens_burnt: '242800000000000000000',
+    executor_id: signerId,
+    status: { SuccessValue: '' },
+  };
+
+  return {
+    status: { SuccessValue: Buffer.from(JSON.stringify(returnValue)).toString('base64') },
+    transaction: { hash: txHash, signer_id: signerId, receiver_id: receiverId },
+    transaction_outcome: { id: txHash, block_hash: randomHash(), outcome },
+    receipts_outcome: [],
+    receipts,
+  };
+}
+
+export async function startFakeNearRpc(options: FakeNearRpcOptions = {}): Promise<FakeNearRpc> {
+  const rootSecretKey = options.rootSecretKey || DEFAULT_ROOT_SECRET_KEY;
+  const mpcContractId = options.mpcContractId || 'v1.signer-prod.testnet';
+  const rebalancerContractId = options.rebalancerContractId || 'rebalancer.test.near';
+  const rebalancerPath = options.rebalancerPath || 'ethereum-1';
+
+  // Root public key as returned by the MPC contract (64 bytes, no 0x04 prefix)
+  const rootPublicKey = 'secp256k1:' + utils.serialize.base_encode(
+    secp256k1.publicKeyCreate(rootSecretKey, false).subarray(1)
+  );
+
+  const calls: FakeFunctionCall[] = [];
+  const outcomes = new Map<string, any>();          // Executed transactions by hash
+  const held = new Map<string, { call: FakeFunctionCall; txHash: string }>();
+  let paused = false;
+  let accountBalance = 100n * 10n ** 24n;
+  let signatureDeposit = 1n;
+  let blockHeight = 1000;
+
+  const viewFunctions: Record<string, Record<string, (args: any) => any>> = {
+    [mpcContractId]: {
+      public_key: () => rootPublicKey,
+      experimental_signature_deposit: () => signatureDeposit.toString(),
+    },
+  };
+
+  const changeFunctions: Record<string, Record<string, (call: FakeFunctionCall) => any>> = {
+    [mpcContractId]: {
+      sign: ({ signerId, args }) => {
+        const { payload, path } = args.request;
+        const { r, s, recoveryId } = signWithDerivedKey(rootSecretKey, signerId, path, Uint8Array.from(payload));
+        return {
+          big_r: { affine_point: (recoveryId & 1 ? '03' : '02') + r.toString('hex').toUpperCase() },
+          s: { scalar: s.toString('hex').toUpperCase() },
+          recovery_id: recoveryId,
+        };
+      },
+    },
+    [rebalancerContractId]: {
+      build_and_sign_crosschain_balance_snapshot_tx: ({ args }) => {
+        const snapshot = args.args;
+        const digest = ethers.TypedDataEncoder.hash(
+          getVaultDomain(snapshot.chain_id, snapshot.verifying_contract),
+          CROSS_CHAIN_BALANCE_SNAPSHOT_TYPES,
+          {
+            balance: BigInt(snapshot.balance),
+            nonce: BigInt(snapshot.nonce),
+            deadline: BigInt(snapshot.deadline),
+            assets: BigInt(snapshot.assets),
+            receiver: snapshot.receiver,
+          }
+        );
+        // The rebalancer signs through the MPC contract as predecessor
+        const { r, s, recoveryId } = signWithDerivedKey(
+          rootSecretKey,
+          rebalancerContractId,
+          rebalancerPath,
+          ethers.getBytes(digest)
+        );
+        return Array.from(Buffer.concat([r, s, Buffer.from([recoveryId])]));
+      },
+    },
+  };
+
+  function handleQuery(params: any): any {
+    const block = { block_height: blockHeight, block_hash: randomHash() };
+
+    switch (params.request_type) {
+      case 'view_access_key':
+        return { ...block, nonce: 0, permission: 'FullAccess' };
+      case 'view_account':
+        return { ...block, amount: accountBalance.toString(), locked: '0', code_hash: '11111111111111111111111111111111', storage_usage: 182, storage_paid_at: 0 };
+      case 'call_function': {
+        const fn = viewFunctions[params.account_id]?.[params.method_name];
+        if (!fn) {
+          throw new RpcError({
+            error_type: 'MethodNotFound',
+            error_message: `Method ${params.method_name} not found on ${params.account_id}`,
+          });
+        }
+        const args = JSON.parse(Buffer.from(params.args_base64, 'base64').toString() || '{}');
+        return { ...block, logs: [], result: Array.from(Buffer.from(JSON.stringify(fn(args)))) };
+      }
+      default:
+        throw new RpcError({
+          error_type: 'UnsupportedRequest',
+          error_message: `Unsupported query: ${params.request_type}`,
+        });
+    }
+  }
+
+  function decodeTransaction(params: any[]): { call: FakeFunctionCall; txHash: string } {
+    const bytes = Buffer.from(params[0], 'base64');
+    const signedTx: any = transactions.SignedTransaction.decode(bytes);
+    const { signerId, receiverId, actions } = signedTx.transaction;
+    const txHash = utils.serialize.base_encode(
+      crypto.createHash('sha256').update(transactions.Transaction.prototype.encode.call(signedTx.transaction)).digest()
+    );
+
+    const action = actions[0]?.functionCall;
+    if (!action) {
+      throw new RpcError({ error_type: 'UnsupportedAction', error_message: 'Only FunctionCall actions are supported' });
+    }
+
+    const call: FakeFunctionCall = {
+      signerId,
+      receiverId,
+      methodName: action.methodName,
+      args: parseArgs(Buffer.from(action.args).toString()),
+      rawArgs: Buffer.from(action.args).toString(),
+      gas: action.gas.toString(),
+      deposit: action.deposit.toString(),
+    };
+    return { call, txHash };
+  }
+
+  function execute(call: FakeFunctionCall, txHash: string): any {
+    calls.push(call);
+    blockHeight++;
+    const fn = changeFunctions[call.receiverId]?.[call.methodName];
+    // Like the MPC contract, sign() sends back what was attached beyond the deposit it asks for
+    const excess = call.receiverId === mpcContractId ? BigInt(call.deposit) - signatureDeposit : 0n;
+    const receipts = excess > 0n ? [refundReceipt(mpcContractId, call.signerId, excess)] : [];
+    const outcome = fn
+      ? successOutcome(txHash, call.signerId, call.receiverId, fn(call), receipts)
+      : failureOutcome(txHash, call.signerId, call.receiverId, `Method ${call.methodName} not found on ${call.receiverId}`);
+    outcomes.set(txHash, outcome);
+    return outcome;
+  }
+
+  function handleBroadcastTxCommit(params: any[]): any {
+    const { call, txHash } = decodeTransaction(params);
+    if (!changeFunctions[call.receiverId]?.[call.methodName]) {
+      throw new RpcError({
+        error_type: 'MethodNotFound',
+        error_message: `Method ${call.methodName} not found on ${call.receiverId}`,
+      });
+    }
+    return execute(call, txHash);
+  }
+
+  // Like the real node, a transaction it already has is not executed twice
+  function handleBroadcastTxAsync(params: any[]): string {
+    const { call, txHash } = decodeTransaction(params);
+    if (!outcomes.has(txHash) && !held.has(txHash)) {
+      if (paused) {
+        held.set(txHash, { call, txHash });
+      } else {
+        execute(call, txHash);
+      }
+    }
+    return txHash;
+  }
+
+  function handleTx(params: any[]): any {
+    const [txHash, signerId] = params;
+    const outcome = outcomes.get(txHash);
+    if (outcome) {
+      return outcome;
+    }
+    if (held.has(txHash)) {
+      // Received but not executed yet: no status
+      return { final_execution_status: 'INCLUDED', transaction: { hash: txHash, signer_id: signerId } };
+    }
+    throw new RpcError({ error_type: 'UNKNOWN_TRANSACTION', error_message: `Transaction ${txHash} doesn't exist` });
+  }
+
+  function dispatch(method: string, params: any): any {
+    switch (method) {
+      case 'block':
+        return { header: { height: blockHeight, hash: randomHash(), timestamp: Date.now() * 1e6 } };
+      case 'query':
+        return handleQuery(params);
+      case 'broadcast_tx_commit':
+        return handleBroadcastTxCommit(params);
+      case 'broadcast_tx_async':
+        return handleBroadcastTxAsync(params);
+      case 'tx':
+      case 'EXPERIMENTAL_tx_status':
+        return handleTx(params);
+      default:
+        throw new RpcError({ error_type: 'MethodNotFound', error_message: `Unsupported RPC method: ${method}` });
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const request = JSON.parse(body);
+      let response: any;
+      try {
+        response = { jsonrpc: '2.0', id: request.id, result: dispatch(request.method, request.params) };
+      } catch (error: any) {
+        const data = error instanceof RpcError
+          ? error.data
+          : { error_type: 'InternalError', error_message: String(error?.message || error) };
+        response = { jsonrpc: '2.0', id: request.id, error: { code: -32000, message: 'Server error', data } };
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    rootPublicKey,
+    mpcContractId,
+    rebalancerContractId,
+    rebalancerPath,
+    calls,
+    deriveAddress: (predecessorId, path) => deriveEvmAddress(rootPublicKey, predecessorId, path),
+    setAccountBalance: yocto => {
+      accountBalance = yocto;
+    },
+    setSignatureDeposit: yocto => {
+      signatureDeposit = yocto;
+    },
+    pauseExecution: () => {
+      paused = true;
+    },
+    resumeExecution: () => {
+      paused = false;
+      for (const { call, txHash } of held.values()) {
+        execute(call, txHash);
+      }
+      held.clear();
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,138 @@
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileSpanExporter, FinishedSpan, flushSpans, getRequestId, parseTraceparent, setSpanExporter, withSpan } from '../src/utils/tracing';
+import { requestContext } from '../src/middleware/requestContext';
+
+// Minimal Express request/response doubles for the middleware
+function request(headers: Record<string, string> = {}) {
+  const req: any = { method: 'POST', path: '/api/oracle/balance-snapshot', baseUrl: '', header: (name: string) => headers[name.toLowerCase()] };
+  const res: any = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) { this.headers[name] = value; },
+  });
+  return { req, res };
+}
+
+describe('Tracing', () => {
+  let tmpDir: string;
+  let spans: FinishedSpan[];
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracing-'));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    setSpanExporter(null);
+  });
+
+  function collectSpans() {
+    spans = [];
+    setSpanExporter({ export: span => { spans.push(span); } });
+  }
+
+  it('propagates the request ID and caller trace to nested spans', async () => {
+    collectSpans();
+    const { req, res } = request({
+      'x-request-id': 'frontend-42',
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    });
+
+    let seen: string | undefined;
+    await new Promise<void>(resolve => requestContext(req, res, () => {
+      withSpan('RPC getBlock', 'client', { 'chain.id': 84532 }, async () => {
+        await withSpan('RPC aggregate3', 'client', {}, async () => {
+          seen = getRequestId();
+        });
+      }).then(() => {
+        req.route = { path: '/api/oracle/balance-snapshot' };
+        res.emit('finish');
+        resolve();
+      });
+    }));
+
+    assert.strictEqual(seen, 'frontend-42');
+    assert.strictEqual(res.headers['X-Request-Id'], 'frontend-42');
+    assert.deepStrictEqual(spans.map(span => span.name), ['RPC aggregate3', 'RPC getBlock', 'POST /api/oracle/balance-snapshot']);
+
+    const [inner, outer, server] = spans;
+    assert.ok(spans.every(span => span.traceId === '4bf92f3577b34da6a3ce929d0e0e4736'));
+    assert.strictEqual(server.parentSpanId, '00f067aa0ba902b7');
+    assert.strictEqual(outer.parentSpanId, server.spanId);
+    assert.strictEqual(inner.parentSpanId, outer.spanId);
+    assert.strictEqual(res.headers.traceparent, `00-4bf92f3577b34da6a3ce929d0e0e4736-${server.spanId}-01`);
+    assert.strictEqual(server.attributes['http.response.status_code'], 200);
+  });
+
+  it('replaces unsafe request IDs and malformed traceparents', () => {
+    collectSpans();
+    const { req, res } = request({ 'x-request-id': 'bad id\nforged line', traceparent: '00-00000000000000000000000000000000-00f067aa0ba902b7-01' });
+
+    requestContext(req, res, () => {});
+    res.statusCode = 502;
+    res.emit('finish');
+
+    assert.match(res.headers['X-Request-Id'], /^[0-9a-f-]{36}$/);
+    assert.strictEqual(spans[0].parentSpanId, null);
+    assert.notStrictEqual(spans[0].traceId, '0'.repeat(32));
+    assert.strictEqual(spans[0].name, 'POST');
+    assert.strictEqual(spans[0].status.code, 'error');
+    assert.strictEqual(parseTraceparent('00-4BF92F3577B34DA6A3CE929D0E0E4736-00F067AA0BA902B7-01')?.spanId, '00f067aa0ba902b7');
+  });
+
+  it('writes failed spans to a file as OTLP JSON', async () => {
+    const filePath = path.join(tmpDir, 'traces', 'spans.jsonl');
+    const exporter = new FileSpanExporter(filePath);
+    setSpanExporter(exporter);
+
+    await assert.rejects(
+      withSpan('NEAR sign', 'client', { 'near.contract': 'v1.signer-prod.testnet' }, async () => {
+        throw Object.assign(new Error('Exceeded the prepaid gas'), { code: 'NEAR_SIGNING_FAILED' });
+      }),
+      /prepaid gas/
+    );
+    await exporter.shutdown();
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    assert.strictEqual(lines.length, 1);
+    const span = JSON.parse(lines[0]).resourceSpans[0].scopeSpans[0].spans[0];
+    assert.strictEqual(span.name, 'NEAR sign');
+    assert.strictEqual(span.kind, 3);
+    assert.deepStrictEqual(span.status, { code: 2, message: 'Exceeded the prepaid gas' });
+    assert.deepStrictEqual(span.attributes, [
+      { key: 'near.contract', value: { stringValue: 'v1.signer-prod.testnet' } },
+      { key: 'error.type', value: { stringValue: 'NEAR_SIGNING_FAILED' } },
+    ]);
+    assert.ok(BigInt(span.endTimeUnixNano) >= BigInt(span.startTimeUnixNano));
+  });
+
+  it('buffers spans and writes them a batch per line', async () => {
+    const filePath = path.join(tmpDir, 'batched.jsonl');
+    const exporter = new FileSpanExporter(filePath, 3, 60_000);
+    setSpanExporter(exporter);
+
+    for (const name of ['a', 'b']) {
+      await withSpan(name, 'internal', {}, async () => {});
+    }
+    // Nothing is written until the batch is full
+    assert.strictEqual(fs.existsSync(filePath), false);
+
+    for (const name of ['c', 'd']) {
+      await withSpan(name, 'internal', {}, async () => {});
+    }
+    await flushSpans();
+    const batches = fs.readFileSync(filePath, 'utf8').trim().split('\n')
+      .map(line => JSON.parse(line).resourceSpans[0].scopeSpans[0].spans.map((span: any) => span.name));
+    assert.deepStrictEqual(batches, [['a', 'b', 'c'], ['d']]);
+
+    await exporter.shutdown();
+  });
+});
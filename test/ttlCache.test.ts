@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { TtlCache } from '../src/utils/ttlCache';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: any) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('TTL cache', () => {
+  it('coalesces concurrent loads of the same key', async () => {
+    const cache = new TtlCache<number>(60_000);
+    const load = deferred<number>();
+    let loads = 0;
+
+    const lookups = Promise.all([1, 2, 3].map(() => cache.get('pool', () => {
+      loads++;
+      return load.promise;
+    })));
+    load.resolve(42);
+
+    const results = await lookups;
+    assert.strictEqual(loads, 1);
+    assert.deepStrictEqual(results.map(result => [result.value, result.hit]), [[42, false], [42, true], [42, true]]);
+  });
+
+  it('serves cached values until they expire', async () => {
+    const cache = new TtlCache<number>(20);
+    let loads = 0;
+    const load = async () => ++loads;
+
+    assert.strictEqual((await cache.get('pool', load)).value, 1);
+    const cached = await cache.get('pool', load);
+    assert.deepStrictEqual([cached.value, cached.hit], [1, true]);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.strictEqual((await cache.get('pool', load)).value, 2);
+  });
+
+  it('does not cache failed loads', async () => {
+    const cache = new TtlCache<number>(60_000);
+
+    await assert.rejects(cache.get('pool', async () => {
+      throw new Error('rpc down');
+    }), /rpc down/);
+    assert.strictEqual((await cache.get('pool', async () => 7)).value, 7);
+  });
+
+  it('does not store loads that finish after a clear', async () => {
+    const cache = new TtlCache<number>(60_000);
+    const load = deferred<number>();
+
+    const lookup = cache.get('pool', () => load.promise);
+    cache.clear();
+    load.resolve(1);
+    assert.strictEqual((await lookup).value, 1);
+
+    assert.strictEqual((await cache.get('pool', async () => 2)).value, 2);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert';
+import { ethers } from 'ethers';
+import { VAULT_ABI } from '../src/config/abis';
+import { getVaultEip712Domain } from '../src/services/vaultService';
+import { FakeEvmRpc, startFakeEvmRpc } from './support/fakeEvmRpc';
+
+const DISCOVERABLE_VAULT = '0x773035EABdA16B5416B26E12156483C6B6F56451';
+const LEGACY_VAULT = '0x1111111111111111111111111111111111111111';
+const MISMATCHED_VAULT = '0x2222222222222222222222222222222222222222';
+
+describe('Vault EIP-712 domain discovery', () => {
+  let rpc: FakeEvmRpc;
+  let domainCalls = 0;
+
+  before(async () => {
+    rpc = await startFakeEvmRpc();
+    rpc.addContract(DISCOVERABLE_VAULT, VAULT_ABI, {
+      eip712Domain: () => {
+        domainCalls++;
+        return ['0x0f', 'RebalancyVault', '2', BigInt(rpc.chainId), DISCOVERABLE_VAULT, ethers.ZeroHash, []];
+      },
+    });
+    rpc.addContract(LEGACY_VAULT, VAULT_ABI, {});
+    rpc.addContract(MISMATCHED_VAULT, VAULT_ABI, {
+      eip712Domain: () => ['0x0f', 'RebalancyVault', '2', 1n, MISMATCHED_VAULT, ethers.ZeroHash, []],
+    });
+  });
+
+  after(async () => {
+    await rpc.close();
+  });
+
+  it('reads the domain from eip712Domain() once per vault', async () => {
+    const chain = { chainId: rpc.chainId, rpcUrls: [rpc.url] };
+    const expected = { name: 'RebalancyVault', version: '2', chainId: rpc.chainId, verifyingContract: DISCOVERABLE_VAULT };
+
+    assert.deepStrictEqual(await getVaultEip712Domain(DISCOVERABLE_VAULT, chain), expected);
+    assert.deepStrictEqual(await getVaultEip712Domain(DISCOVERABLE_VAULT, chain), expected);
+    assert.strictEqual(domainCalls, 1);
+  });
+
+  it('falls back to the configured domain when the vault has no eip712Domain()', async () => {
+    const chain = { chainId: rpc.chainId, rpcUrls: [rpc.url] };
+
+    const domain = await getVaultEip712Domain(LEGACY_VAULT, chain, { name: 'LegacyVault', version: '3' });
+    assert.deepStrictEqual(domain, { name: 'LegacyVault', version: '3', chainId: rpc.chainId, verifyingContract: LEGACY_VAULT });
+  });
+
+  it('refuses a domain for another chain', async () => {
+    const chain = { chainId: rpc.chainId, rpcUrls: [rpc.url] };
+
+    await assert.rejects(getVaultEip712Domain(MISMATCHED_VAULT, chain), /reports EIP-712 domain .* on chain 1/);
+  });
+});